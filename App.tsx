@@ -1,370 +1,430 @@
 import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { useMutation, useQuery } from "convex/react";
+import { ConvexError } from "convex/values";
 import { api } from "./convex/_generated/api";
-import { AppPhase } from './constants';
-import type { Participant, BracketData, Match, ChampionshipStanding, AppState } from './types';
+import { toAppState } from "./convex/sessionState";
+import { generateSecret } from "./convex/secrets";
+import { canPerform } from "./convex/roles";
+import type { VersionConflict } from "./convex/sessionState";
+import { ACTION_LABELS, AppPhase, DEFAULT_REGISTRATION_SETTINGS, MIN_PARTICIPANTS, ROLES, UNDO_LIMIT } from './constants';
+import type { AdminMutation, CompetitionCorrection, DriverProfile, Participant, BracketFormat, JudgeVote, PointsScheme, QualificationRule, RegistrationSettings, Role, RoundDetails, RunStatus } from './types';
+import { rankQualifiers } from './engine/seeding';
+import { getDependentResults } from './engine/bracket';
+import CheckInView from './components/CheckInView';
 import QualificationView from './components/QualificationView';
 import TournamentBracket from './components/TournamentBracket';
 import ChampionshipView from './components/ChampionshipView';
 import RegistrationPage from './components/RegistrationPage';
 import LiveResultsView from './components/LiveResultsView';
-
-const getInitialState = (): AppState => {
-  return {
-    phase: AppPhase.CHAMPIONSHIP_VIEW,
-    standings: [],
-    competitionParticipants: [],
-    bracket: [],
-    thirdPlaceMatch: null,
-    totalCompetitions: null,
-    competitionsHeld: 0,
-  };
-};
+import JudgePage from './components/JudgePage';
+import ConflictBanner from './components/ConflictBanner';
+import SessionPicker from './components/SessionPicker';
+import AccessPanel from './components/AccessPanel';
+import HistoryPanel from './components/HistoryPanel';
+import UndoBar from './components/UndoBar';
+import { forgetSession, getAdminLink, loadKnownSessions, rememberSession } from './adminSessions';
+import type { KnownSession } from './adminSessions';
+
+type AdminArgs = { sessionId: string; adminSecret: string; expectedVersion: number };
+// An admin change, sent with the session version it is based on; resolves to the version after it
+type AdminAction = (admin: AdminArgs) => Promise<number>;
+// Called with the session versions before and after an admin change the server applied
+type OnApplied = (before: number, after: number) => void;
+type QueuedAction = { action: AdminAction; onApplied?: OnApplied };
+// One of the admin's own changes: restoring restoreVersion undoes (or redoes) it while the
+// session is still at currentVersion
+type UndoEntry = { label: string; restoreVersion: number; currentVersion: number };
+
+const isVersionConflict = (e: unknown): e is ConvexError<VersionConflict> =>
+  e instanceof ConvexError && (e.data as VersionConflict | undefined)?.kind === 'VERSION_CONFLICT';
 
 
 const App: React.FC = () => {
-  const [appState, setAppState] = useState<AppState>(getInitialState);
-  const [sessionId, setSessionId] = useState<string | null>(null);
-  const [adminSecret, setAdminSecret] = useState<string | null>(null);
-  const saveTimeoutRef = useRef<number | null>(null);
+  // The open session's ID and admin secret, from an admin link or this device's known sessions
+  const [credentials, setCredentials] = useState<{ sessionId: string; adminSecret: string } | null>(() => {
+    const params = new URLSearchParams(window.location.search);
+    const sessionId = params.get('admin');
+    const adminSecret = params.get('key');
+    return sessionId && adminSecret ? { sessionId, adminSecret } : null;
+  });
+  const [knownSessions, setKnownSessions] = useState<KnownSession[]>(loadKnownSessions);
+  const [actionError, setActionError] = useState('');
+  // Changes the server rejected because the session had moved on, and the version it had reached
+  const [conflict, setConflict] = useState<{ actions: QueuedAction[]; version: number } | null>(null);
+  const [undoHistory, setUndoHistory] = useState<{ undo: UndoEntry[]; redo: UndoEntry[] }>({ undo: [], redo: [] });
+  // Version right before the last championship reset in this tab
+  const [resetBackup, setResetBackup] = useState<number | null>(null);
 
   const urlParams = useMemo(() => new URLSearchParams(window.location.search), []);
   const sessionParam = useMemo(() => urlParams.get('session'), [urlParams]);
   const liveParam = useMemo(() => urlParams.get('live'), [urlParams]);
+  const judgeParam = useMemo(() => urlParams.get('judge'), [urlParams]);
+  const tokenParam = useMemo(() => urlParams.get('token'), [urlParams]);
+  const isAdmin = !sessionParam && !liveParam && !judgeParam;
 
-  // Convex mutations
+  // Convex mutations. Every admin action is validated and applied on the server.
   const createSession = useMutation(api.sessions.createSession);
-  const updateSessionState = useMutation(api.sessions.updateSessionState);
+  const addParticipant = useMutation(api.sessions.addParticipant);
+  const removeParticipant = useMutation(api.sessions.removeParticipant);
+  const setParticipantProfile = useMutation(api.sessions.setParticipantProfile);
+  const setTotalCompetitions = useMutation(api.competition.setTotalCompetitions);
+  const setPointsScheme = useMutation(api.competition.setPointsScheme);
+  const setRound = useMutation(api.competition.setRound);
+  const setRoundCancelled = useMutation(api.competition.setRoundCancelled);
+  const resetChampionship = useMutation(api.competition.resetChampionship);
+  const startCheckIn = useMutation(api.competition.startCheckIn);
+  const setCheckedIn = useMutation(api.competition.setCheckedIn);
+  const startCompetition = useMutation(api.competition.startCompetition);
+  const setQualificationScore = useMutation(api.competition.setQualificationScore);
+  const setQualificationRunStatus = useMutation(api.competition.setQualificationRunStatus);
+  const setQualificationRule = useMutation(api.competition.setQualificationRule);
+  const setBracketSize = useMutation(api.competition.setBracketSize);
+  const setBracketFormat = useMutation(api.competition.setBracketFormat);
+  const setGrandFinalReset = useMutation(api.competition.setGrandFinalReset);
+  const generateBracket = useMutation(api.competition.generateBracket);
+  const setMatchWinner = useMutation(api.competition.setMatchWinner);
+  const clearMatchWinner = useMutation(api.competition.clearMatchWinner);
+  const setJudgeVote = useMutation(api.competition.setJudgeVote);
+  const setBattleStatus = useMutation(api.competition.setBattleStatus);
+  const withdrawParticipant = useMutation(api.competition.withdrawParticipant);
+  const finishCompetition = useMutation(api.competition.finishCompetition);
+  const amendCompetition = useMutation(api.archive.amendCompetition);
+  const createCredential = useMutation(api.credentials.createCredential);
+  const revokeCredential = useMutation(api.credentials.revokeCredential);
+  const restoreState = useMutation(api.events.restoreState);
+  const setRegistrationSettings = useMutation(api.registrations.setRegistrationSettings);
+  const approveRegistration = useMutation(api.registrations.approveRegistration);
+  const rejectRegistration = useMutation(api.registrations.rejectRegistration);
+  const mergeRegistration = useMutation(api.registrations.mergeRegistration);
+
+  // Latest session version this tab knows of: the subscribed one, or the one its own last
+  // change produced if the subscription has not caught up yet
+  const knownVersion = useRef(0);
+
+  const openSession = useCallback((sessionId: string, adminSecret: string) => {
+    knownVersion.current = 0;
+    setConflict(null);
+    setUndoHistory({ undo: [], redo: [] });
+    setResetBackup(null);
+    setActionError('');
+    setCredentials({ sessionId, adminSecret });
+  }, []);
 
-  // Subscribe to session updates (for receiving registrations from participants)
+  const closeSession = useCallback(() => {
+    setCredentials(null);
+    window.history.replaceState(null, '', window.location.pathname);
+  }, []);
+
+  // The ref keeps a double-run effect or a double click from creating two sessions
+  const isCreatingSession = useRef(false);
+  const handleCreateSession = useCallback(() => {
+    if (isCreatingSession.current) return;
+    isCreatingSession.current = true;
+    const newSessionId = `dmec-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`;
+    const newAdminSecret = generateSecret();
+    createSession({ sessionId: newSessionId, adminSecret: newAdminSecret })
+      .then(result => openSession(result.sessionId, newAdminSecret))
+      .catch(e => {
+        console.error("Failed to create session:", e);
+        setActionError('Võistluse loomine ebaõnnestus. Proovi uuesti.');
+      })
+      .finally(() => { isCreatingSession.current = false; });
+  }, [createSession, openSession]);
+
+  // A first visit goes straight to a new championship; a device that already administers
+  // some gets to choose between them
+  const isFirstVisit = useRef(!credentials && knownSessions.length === 0);
+  useEffect(() => {
+    if (!isAdmin || !isFirstVisit.current) return;
+    isFirstVisit.current = false;
+    handleCreateSession();
+  }, [isAdmin, handleCreateSession]);
+
+  // The admin view shows the stored session, like the live view does, once the server has
+  // told which role the secret gives. Null means a wrong or revoked secret.
+  const role = useQuery(
+    api.sessions.getAdminRole,
+    isAdmin && credentials ? credentials : "skip"
+  );
   const convexSession = useQuery(
     api.sessions.getSession,
-    sessionId ? { sessionId } : "skip"
+    role && credentials ? { sessionId: credentials.sessionId } : "skip"
+  );
+  const appState = useMemo(() => (convexSession ? toAppState(convexSession) : null), [convexSession]);
+  const sessionId = credentials?.sessionId ?? null;
+  const adminSecret = credentials?.adminSecret ?? null;
+  const registrationSettings = convexSession?.registrationSettings ?? DEFAULT_REGISTRATION_SETTINGS;
+  const pendingRegistrations = useQuery(
+    api.registrations.listPendingRegistrations,
+    role && credentials ? credentials : "skip"
+  );
+  const pastCompetitions = useQuery(
+    api.archive.listCompetitions,
+    credentials ? { sessionId: credentials.sessionId } : "skip"
   );
 
-  // Sync registrations from Convex to local state
+  // Once the server accepts the secret, the address bar becomes the admin link, so a refresh
+  // reopens the same session, and the device remembers it
   useEffect(() => {
-    if (convexSession && sessionId && adminSecret) {
-      // Check if there are new participants in Convex that we don't have locally
-      const convexStandingIds = new Set(convexSession.standings.map(s => s.id));
-      const localStandingIds = new Set(appState.standings.map(s => s.id));
-
-      // Find new participants added via registration
-      const newParticipants = convexSession.standings.filter(s => !localStandingIds.has(s.id));
-
-      if (newParticipants.length > 0) {
-        setAppState(prev => ({
-          ...prev,
-          standings: [...prev.standings, ...newParticipants.map(p => ({
-            id: p.id,
-            name: p.name,
-            pointsPerCompetition: p.pointsPerCompetition,
-          }))]
-        }));
-      }
-    }
-  }, [convexSession?.standings, sessionId, adminSecret]);
+    if (!role || !sessionId || !adminSecret) return;
+    window.history.replaceState(null, '', getAdminLink(sessionId, adminSecret));
+    setKnownSessions(rememberSession(sessionId, adminSecret, role));
+  }, [role, sessionId, adminSecret]);
 
-  // Save state to Convex (debounced)
-  const saveToConvex = useCallback(async (stateToSave: AppState) => {
-    if (!sessionId || !adminSecret) return;
+  // Controls for mutations the role may not run are hidden by leaving out their handlers
+  const can = (mutation: AdminMutation) => !!role && canPerform(role, mutation);
 
-    try {
-      await updateSessionState({
-        sessionId,
-        adminSecret,
-        state: {
-          phase: stateToSave.phase,
-          standings: stateToSave.standings,
-          competitionParticipants: stateToSave.competitionParticipants,
-          bracket: stateToSave.bracket,
-          thirdPlaceMatch: stateToSave.thirdPlaceMatch,
-          totalCompetitions: stateToSave.totalCompetitions,
-          competitionsHeld: stateToSave.competitionsHeld,
-        },
-      });
-    } catch (e) {
-      console.error("Failed to save state to Convex:", e);
-    }
-  }, [sessionId, adminSecret, updateSessionState]);
+  const handleForgetSession = useCallback((forgottenId: string) => {
+    setKnownSessions(forgetSession(forgottenId));
+  }, []);
+
+  const handleInvalidSession = useCallback(() => {
+    if (sessionId) setKnownSessions(forgetSession(sessionId));
+    closeSession();
+  }, [sessionId, closeSession]);
 
-  // Debounced save effect
-  const isInitialSync = useRef(false);
   useEffect(() => {
-    if (sessionId && adminSecret) {
-      if (!isInitialSync.current) {
-        // First sync happens immediately
-        saveToConvex(appState);
-        isInitialSync.current = true;
-      } else {
-        // Subsequent changes are debounced (500ms - Convex handles high frequency better than ntfy.sh)
-        if (saveTimeoutRef.current) {
-          clearTimeout(saveTimeoutRef.current);
+    if (convexSession) knownVersion.current = Math.max(knownVersion.current, convexSession.version ?? 0);
+  }, [convexSession]);
+
+  // Admin changes are sent one at a time, each based on the version the previous one produced,
+  // so quick edits do not conflict with each other. The server applies a change over judge votes,
+  // scores and check-ins made since; one based on a version other admins have moved past is
+  // held back for the admin to rebase or discard.
+  const actionQueue = useRef<Promise<void>>(Promise.resolve());
+  const runAdminAction = useCallback((action: AdminAction, onApplied?: OnApplied) => {
+    if (!sessionId || !adminSecret) return;
+    actionQueue.current = actionQueue.current.then(async () => {
+      setActionError('');
+      const expectedVersion = knownVersion.current;
+      try {
+        const version = await action({ sessionId, adminSecret, expectedVersion });
+        knownVersion.current = Math.max(knownVersion.current, version);
+        // An action that changed nothing returns the version it was based on. One that changed
+        // something is the latest version, so the one before it may include judge changes too.
+        if (version !== expectedVersion) onApplied?.(version - 1, version);
+      } catch (e: any) {
+        if (isVersionConflict(e)) {
+          setConflict(prev => ({ actions: [...(prev?.actions ?? []), { action, onApplied }], version: e.data.version }));
+          return;
         }
-        saveTimeoutRef.current = window.setTimeout(() => {
-          saveToConvex(appState);
-        }, 500);
+        console.error("Admin action failed:", e);
+        setActionError(e.message || 'Toiming ebaõnnestus. Proovi uuesti.');
       }
-    }
-    return () => {
-      if (saveTimeoutRef.current) {
-        clearTimeout(saveTimeoutRef.current);
+    });
+  }, [sessionId, adminSecret]);
+
+  const handleRebase = useCallback(() => {
+    if (!conflict) return;
+    setConflict(null);
+    conflict.actions.forEach(({ action, onApplied }) => runAdminAction(action, onApplied));
+  }, [conflict, runAdminAction]);
+
+  // The admin's own changes in this tab, for undo and redo. A new change clears what could be redone.
+  const pushUndo = useCallback((entry: UndoEntry, clearRedo: boolean) => {
+    setUndoHistory(h => ({ undo: [...h.undo, entry].slice(-UNDO_LIMIT), redo: clearRedo ? [] : h.redo }));
+  }, []);
+
+  const runUndoableAction = useCallback((mutation: AdminMutation, action: AdminAction, onApplied?: OnApplied) => {
+    runAdminAction(action, (before, after) => {
+      pushUndo({ label: ACTION_LABELS[mutation], restoreVersion: before, currentVersion: after }, true);
+      onApplied?.(before, after);
+    });
+  }, [runAdminAction, pushUndo]);
+
+  // Undo and redo restore the session as it was before or after the change, so they only apply
+  // while nobody else has changed the session since; otherwise their changes would be lost.
+  const currentVersion = convexSession?.version ?? 0;
+  const undoEntry = undoHistory.undo[undoHistory.undo.length - 1];
+  const redoEntry = undoHistory.redo[undoHistory.redo.length - 1];
+  const canUndo = !!undoEntry && undoEntry.currentVersion === currentVersion && can('restoreState');
+  const canRedo = !!redoEntry && redoEntry.currentVersion === currentVersion && can('restoreState');
+
+  const handleUndo = useCallback(() => {
+    if (!canUndo) return;
+    setUndoHistory(h => ({ undo: h.undo.slice(0, -1), redo: h.redo }));
+    runAdminAction(
+      admin => restoreState({ ...admin, version: undoEntry.restoreVersion }),
+      (_, after) => setUndoHistory(h => ({
+        undo: h.undo,
+        redo: [...h.redo, { label: undoEntry.label, restoreVersion: undoEntry.currentVersion, currentVersion: after }],
+      }))
+    );
+  }, [canUndo, undoEntry, runAdminAction, restoreState]);
+
+  const handleRedo = useCallback(() => {
+    if (!canRedo) return;
+    setUndoHistory(h => ({ undo: h.undo, redo: h.redo.slice(0, -1) }));
+    runAdminAction(
+      admin => restoreState({ ...admin, version: redoEntry.restoreVersion }),
+      (_, after) => pushUndo({ label: redoEntry.label, restoreVersion: redoEntry.currentVersion, currentVersion: after }, false)
+    );
+  }, [canRedo, redoEntry, runAdminAction, restoreState, pushUndo]);
+
+  // Ctrl+Z undoes and Ctrl+Shift+Z or Ctrl+Y redoes, except while typing, where they edit the text
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      if (e.target instanceof Element && e.target.closest('input, textarea, select, [contenteditable="true"]')) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
       }
     };
-  }, [appState, sessionId, adminSecret, saveToConvex]);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleUndo, handleRedo]);
 
+  const handleAddParticipant = useCallback((name: string) => {
+    runUndoableAction('addParticipant', admin => addParticipant({ ...admin, name }));
+  }, [runUndoableAction, addParticipant]);
 
-  const { phase, standings, competitionParticipants, bracket, thirdPlaceMatch, totalCompetitions, competitionsHeld } = appState;
+  const handleRemoveParticipant = useCallback((participantId: number) => {
+    runUndoableAction('removeParticipant', admin => removeParticipant({ ...admin, participantId }));
+  }, [runUndoableAction, removeParticipant]);
 
-  const setStandings = useCallback((updater: React.SetStateAction<ChampionshipStanding[]>) => {
-     setAppState(prev => {
-        const newStandings = typeof updater === 'function' ? updater(prev.standings) : updater;
-        return { ...prev, standings: newStandings };
-    });
-  }, []);
+  const handleSetParticipantProfile = useCallback((participantId: number, profile: DriverProfile) => {
+    runUndoableAction('setParticipantProfile', admin => setParticipantProfile({ ...admin, participantId, profile }));
+  }, [runUndoableAction, setParticipantProfile]);
 
-   const setCompetitionParticipants = useCallback((updater: React.SetStateAction<Participant[]>) => {
-     setAppState(prev => {
-        const newParticipants = typeof updater === 'function' ? updater(prev.competitionParticipants) : updater;
-        return { ...prev, competitionParticipants: newParticipants };
-    });
-  }, []);
+  const handleSetRunScore = useCallback((participantId: number, runIndex: number, score: number | null) => {
+    runUndoableAction('setQualificationScore', admin => setQualificationScore({ ...admin, participantId, runIndex, score }));
+  }, [runUndoableAction, setQualificationScore]);
+
+  const handleSetRunStatus = useCallback((participantId: number, runIndex: number, status: RunStatus | null) => {
+    runUndoableAction('setQualificationRunStatus', admin => setQualificationRunStatus({ ...admin, participantId, runIndex, status }));
+  }, [runUndoableAction, setQualificationRunStatus]);
 
+  const handleSetQualificationRule = useCallback((rule: QualificationRule) => {
+    runUndoableAction('setQualificationRule', admin => setQualificationRule({ ...admin, rule }));
+  }, [runUndoableAction, setQualificationRule]);
+
+  const handleStartCheckIn = useCallback(() => {
+    runUndoableAction('startCheckIn', admin => startCheckIn(admin));
+  }, [runUndoableAction, startCheckIn]);
+
+  const handleSetCheckedIn = useCallback((participantIds: number[], present: boolean) => {
+    runUndoableAction('setCheckedIn', admin => setCheckedIn({ ...admin, participantIds, present }));
+  }, [runUndoableAction, setCheckedIn]);
 
   const handleStartCompetition = useCallback(() => {
-    setAppState(prev => {
-        const participantsForCompetition = prev.standings.map(p => ({
-          id: p.id,
-          name: p.name,
-          score: null,
-          seed: 0,
-        }));
-        return {
-          ...prev,
-          competitionParticipants: participantsForCompetition,
-          bracket: [],
-          thirdPlaceMatch: null,
-          phase: AppPhase.QUALIFICATION,
-        }
-    });
-  }, []);
+    runUndoableAction('startCompetition', admin => startCompetition(admin));
+  }, [runUndoableAction, startCompetition]);
 
   const handleStartBracket = useCallback((allParticipants: Participant[]) => {
-    const qualifiedParticipants = allParticipants
-      .filter(p => p.score !== null && p.score > 0)
-      .sort((a, b) => (b.score as number) - (a.score as number))
-      .map((p, index) => ({ ...p, seed: index + 1 }));
-
-    const MIN_PARTICIPANTS = 2;
-    if (qualifiedParticipants.length < MIN_PARTICIPANTS) {
+    const qualifiedCount = rankQualifiers(allParticipants).length;
+    if (qualifiedCount < MIN_PARTICIPANTS) {
       alert(`Tabeli genereerimiseks on vaja vähemalt ${MIN_PARTICIPANTS} osalejat, kelle tulemus on suurem kui 0.`);
       return;
     }
+    runUndoableAction('generateBracket', admin => generateBracket(admin));
+  }, [runUndoableAction, generateBracket]);
 
-    const bracketSize = Math.pow(2, Math.ceil(Math.log2(qualifiedParticipants.length)));
-    const participantMap = new Map<number, Participant>();
-    qualifiedParticipants.forEach(p => participantMap.set(p.seed, p));
-
-    let seeds: number[] = [1];
-    while (seeds.length < bracketSize) {
-      const nextSeeds: number[] = [];
-      const currentBracketSize = seeds.length * 2;
-      for (const seed of seeds) {
-        nextSeeds.push(seed);
-        nextSeeds.push(currentBracketSize + 1 - seed);
-      }
-      seeds = nextSeeds;
-    }
-    const finalSeedOrder = seeds;
-
-    const newBracket: BracketData = [];
-    let matchIdCounter = 0;
-
-    const firstRound: Match[] = [];
-    for (let i = 0; i < finalSeedOrder.length; i += 2) {
-      const p1Seed = finalSeedOrder[i];
-      const p2Seed = finalSeedOrder[i + 1];
-      const participant1 = participantMap.get(p1Seed) || null;
-      const participant2 = participantMap.get(p2Seed) || null;
-      let winner = null;
-      if (participant1 && !participant2) winner = participant1;
-      else if (!participant1 && participant2) winner = participant2;
-      firstRound.push({ id: matchIdCounter++, roundIndex: 0, matchIndex: i / 2, participant1, participant2, winner, nextMatchId: null });
-    }
-    newBracket.push(firstRound);
-
-    let numMatchesInPreviousRound = bracketSize / 2;
-    const numRounds = Math.log2(bracketSize);
-    for (let roundIndex = 1; roundIndex < numRounds; roundIndex++) {
-      const previousRound = newBracket[roundIndex - 1];
-      const numMatchesInCurrentRound = numMatchesInPreviousRound / 2;
-      const currentRound: Match[] = [];
-      for (let matchIndex = 0; matchIndex < numMatchesInCurrentRound; matchIndex++) {
-        let p1 = previousRound[matchIndex * 2]?.winner;
-        let p2 = previousRound[matchIndex * 2 + 1]?.winner;
-        if (p1 && p2 && p1.seed > p2.seed) [p1, p2] = [p2, p1];
-        currentRound.push({ id: matchIdCounter++, roundIndex, matchIndex, participant1: p1 || null, participant2: p2 || null, winner: null, nextMatchId: null });
-      }
-      for (let i = 0; i < previousRound.length; i++) {
-        previousRound[i].nextMatchId = currentRound[Math.floor(i / 2)].id;
-      }
-      newBracket.push(currentRound);
-      numMatchesInPreviousRound = numMatchesInCurrentRound;
-    }
-    setAppState(prev => ({...prev, bracket: newBracket, phase: AppPhase.BRACKET}));
-  }, []);
+  const handleSetBracketSize = useCallback((size: number) => {
+    runUndoableAction('setBracketSize', admin => setBracketSize({ ...admin, bracketSize: size }));
+  }, [runUndoableAction, setBracketSize]);
+
+  const handleSetBracketFormat = useCallback((format: BracketFormat) => {
+    runUndoableAction('setBracketFormat', admin => setBracketFormat({ ...admin, bracketFormat: format }));
+  }, [runUndoableAction, setBracketFormat]);
+
+  const handleSetGrandFinalReset = useCallback((enabled: boolean) => {
+    runUndoableAction('setGrandFinalReset', admin => setGrandFinalReset({ ...admin, grandFinalReset: enabled }));
+  }, [runUndoableAction, setGrandFinalReset]);
+
+  // Corrections wipe every later result that depended on the match, so ask first
+  const confirmCorrection = useCallback((matchId: number) => {
+    const dependentCount = appState ? getDependentResults(appState, matchId).length : 0;
+    return dependentCount === 0 || window.confirm(`Selle tulemuse muutmine kustutab ka ${dependentCount} hilisema mängu tulemuse. Kas jätkata?`);
+  }, [appState]);
 
   const handleSetWinner = useCallback((matchId: number, winner: Participant) => {
-    setAppState(prev => {
-        let newThirdPlaceMatch = prev.thirdPlaceMatch;
-        let newBracket = JSON.parse(JSON.stringify(prev.bracket));
-        let newPhase = prev.phase;
-
-        if (newThirdPlaceMatch && matchId === newThirdPlaceMatch.id) {
-            newThirdPlaceMatch = { ...newThirdPlaceMatch, winner };
-        } else {
-            let matchToUpdate: Match | null = null;
-            for (let i = 0; i < newBracket.length; i++) {
-                const foundMatch = newBracket[i].find(m => m.id === matchId);
-                if (foundMatch) {
-                    matchToUpdate = foundMatch;
-                    break;
-                }
-            }
-
-            if (matchToUpdate && !matchToUpdate.winner) {
-                matchToUpdate.winner = winner;
-                if (matchToUpdate.nextMatchId !== null) {
-                    let nextMatch: Match | null = null;
-                    for (const round of newBracket) {
-                        nextMatch = round.find(m => m.id === matchToUpdate.nextMatchId) || null;
-                        if (nextMatch) break;
-                    }
-                    if (nextMatch) {
-                        if (matchToUpdate.matchIndex % 2 === 0) nextMatch.participant1 = winner;
-                        else nextMatch.participant2 = winner;
-                        if (nextMatch.participant1 && nextMatch.participant2 && nextMatch.participant1.seed > nextMatch.participant2.seed) {
-                            [nextMatch.participant1, nextMatch.participant2] = [nextMatch.participant2, nextMatch.participant1];
-                        }
-                    }
-                }
-            }
-        }
+    if (!confirmCorrection(matchId)) return;
+    runUndoableAction('setMatchWinner', admin => setMatchWinner({ ...admin, matchId, winnerId: winner.id }));
+  }, [confirmCorrection, runUndoableAction, setMatchWinner]);
 
-        const numRounds = newBracket.length;
-        if (numRounds > 1 && !newThirdPlaceMatch) {
-            const semiFinals = newBracket[numRounds - 2];
-            if (semiFinals.every(m => m.winner)) {
-                const findLoser = (match: Match): Participant | null => {
-                    if (!match.participant1 || !match.participant2) {
-                        return null;
-                    }
-                    return match.winner?.id === match.participant1.id ? match.participant2 : match.participant1;
-                };
-
-                const losers = semiFinals.map(findLoser).filter((p): p is Participant => p !== null);
-
-                if (losers.length === 2) {
-                    const [p1, p2] = losers[0].seed < losers[1].seed ? [losers[0], losers[1]] : [losers[1], losers[0]];
-                    newThirdPlaceMatch = { id: 999, roundIndex: -1, matchIndex: 0, participant1: p1, participant2: p2, winner: null, nextMatchId: null };
-                } else if (losers.length === 1) {
-                    const singleLoser = losers[0];
-                    newThirdPlaceMatch = {
-                        id: 999,
-                        roundIndex: -1,
-                        matchIndex: 0,
-                        participant1: singleLoser,
-                        participant2: null,
-                        winner: singleLoser,
-                        nextMatchId: null
-                    };
-                }
-            }
-        }
+  const handleClearWinner = useCallback((matchId: number) => {
+    if (!confirmCorrection(matchId)) return;
+    runUndoableAction('clearMatchWinner', admin => clearMatchWinner({ ...admin, matchId }));
+  }, [confirmCorrection, runUndoableAction, clearMatchWinner]);
 
-        const finalMatch = newBracket[newBracket.length - 1]?.[0];
-        const isTournamentFinished = finalMatch?.winner && (!newThirdPlaceMatch || newThirdPlaceMatch.winner);
+  const handleJudgeVote = useCallback((matchId: number, judgeIndex: number, vote: JudgeVote | null) => {
+    runUndoableAction('setJudgeVote', admin => setJudgeVote({ ...admin, matchId, judgeIndex, vote }));
+  }, [runUndoableAction, setJudgeVote]);
 
-        if (isTournamentFinished) {
-            newPhase = AppPhase.FINISHED;
-        }
+  const handleSetBattleStatus = useCallback((matchId: number, participantId: number, status: RunStatus) => {
+    runUndoableAction('setBattleStatus', admin => setBattleStatus({ ...admin, matchId, participantId, status }));
+  }, [runUndoableAction, setBattleStatus]);
 
-        return { ...prev, bracket: newBracket, thirdPlaceMatch: newThirdPlaceMatch, phase: newPhase };
-    });
-  }, []);
+  const handleWithdraw = useCallback((participantId: number) => {
+    runUndoableAction('withdrawParticipant', admin => withdrawParticipant({ ...admin, participantId }));
+  }, [runUndoableAction, withdrawParticipant]);
 
   const handleReturnToChampionship = useCallback(() => {
-    setAppState(prev => {
-        const { standings, competitionParticipants, bracket, thirdPlaceMatch } = prev;
-        const pointsToAdd = new Map<number, number>();
-        standings.forEach(p => pointsToAdd.set(p.id, 0));
-
-        const qualified = competitionParticipants.filter(p => p.score !== null && p.score > 0).sort((a, b) => (b.score as number) - (a.score as number));
-        qualified.forEach((p, index) => {
-            const rank = index + 1;
-            let points = 0;
-            if (rank === 1) points = 12; else if (rank === 2) points = 10; else if (rank === 3) points = 8; else if (rank === 4) points = 6;
-            else if (rank >= 5 && rank <= 6) points = 4; else if (rank >= 7 && rank <= 8) points = 3; else if (rank >= 9 && rank <= 12) points = 2;
-            else if (rank >= 13 && rank <= 16) points = 1; else if (rank >= 17 && rank <= 24) points = 0.5; else if (rank >= 25 && rank <= 32) points = 0.25;
-            pointsToAdd.set(p.id, (pointsToAdd.get(p.id) || 0) + points);
-        });
-
-        const finalMatch = bracket[bracket.length - 1]?.[0];
-        const winner = finalMatch?.winner;
-        const runnerUp = finalMatch?.participant1?.id === winner?.id ? finalMatch?.participant2 : finalMatch?.participant1;
-        const thirdPlace = thirdPlaceMatch?.winner;
-        const fourthPlace = thirdPlaceMatch?.participant1?.id === thirdPlace?.id ? thirdPlaceMatch?.participant2 : thirdPlaceMatch?.participant1;
-        if (winner) pointsToAdd.set(winner.id, (pointsToAdd.get(winner.id) || 0) + 100);
-        if (runnerUp) pointsToAdd.set(runnerUp.id, (pointsToAdd.get(runnerUp.id) || 0) + 88);
-        if (thirdPlace) pointsToAdd.set(thirdPlace.id, (pointsToAdd.get(thirdPlace.id) || 0) + 76);
-        if (fourthPlace) pointsToAdd.set(fourthPlace.id, (pointsToAdd.get(fourthPlace.id) || 0) + 64);
-
-        const pointMapping = [ { roundParticipants: 8, points: 48 }, { roundParticipants: 16, points: 32 }, { roundParticipants: 32, points: 16 }, { roundParticipants: 64, points: 10 }];
-        const top4Ids = new Set([winner?.id, runnerUp?.id, thirdPlace?.id, fourthPlace?.id].filter(Boolean));
-        for (const mapping of pointMapping) {
-            const roundIndex = bracket.findIndex(r => r.length * 2 === mapping.roundParticipants);
-            if (roundIndex !== -1) {
-                bracket[roundIndex].forEach(match => {
-                    const loser = match.winner?.id === match.participant1?.id ? match.participant2 : match.participant1;
-                    if (loser && !top4Ids.has(loser.id)) pointsToAdd.set(loser.id, (pointsToAdd.get(loser.id) || 0) + mapping.points);
-                });
-            }
-        }
+    runUndoableAction('finishCompetition', admin => finishCompetition(admin));
+  }, [runUndoableAction, finishCompetition]);
 
-        const newStandings = standings.map(standing => ({
-            ...standing,
-            pointsPerCompetition: [...standing.pointsPerCompetition, pointsToAdd.get(standing.id) || 0],
-        }));
-        newStandings.sort((a, b) => b.pointsPerCompetition.reduce((s, p) => s + p, 0) - a.pointsPerCompetition.reduce((s, p) => s + p, 0));
-
-        return {
-          ...prev,
-          standings: newStandings,
-          competitionsHeld: prev.competitionsHeld + 1,
-          phase: AppPhase.CHAMPIONSHIP_VIEW
-        };
-    });
-  }, []);
+  const handleAmendCompetition = useCallback((recordId: string, corrections: CompetitionCorrection[]) => {
+    runUndoableAction('amendCompetition', admin => amendCompetition({ ...admin, recordId, corrections }));
+  }, [runUndoableAction, amendCompetition]);
 
+  // A reset wipes the whole season, so the season before it stays restorable for as long as
+  // this page is open, even after the undo history has moved on
   const handleResetChampionship = useCallback(() => {
-    setAppState(getInitialState());
-    isInitialSync.current = false;
-  }, []);
+    runUndoableAction('resetChampionship', admin => resetChampionship(admin), before => setResetBackup(before));
+  }, [runUndoableAction, resetChampionship]);
+
+  const handleRestoreReset = useCallback(() => {
+    if (resetBackup === null) return;
+    if (!window.confirm('Kas taastada hooaeg, nagu see oli enne lähtestamist? Kõik pärast lähtestamist tehtud muudatused lähevad kaotsi, kuid selle saab tagasi võtta.')) return;
+    runUndoableAction('restoreState', admin => restoreState({ ...admin, version: resetBackup }), () => setResetBackup(null));
+  }, [resetBackup, runUndoableAction, restoreState]);
 
   const handleSetTotalCompetitions = useCallback((count: number) => {
-    setAppState(prev => ({...prev, totalCompetitions: count}));
-  }, []);
+    runUndoableAction('setTotalCompetitions', admin => setTotalCompetitions({ ...admin, totalCompetitions: count }));
+  }, [runUndoableAction, setTotalCompetitions]);
 
-  const handleEnableLiveView = useCallback(async () => {
-    const newSessionId = `dmec-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`;
-    try {
-      const result = await createSession({ sessionId: newSessionId });
-      setSessionId(result.sessionId);
-      setAdminSecret(result.adminSecret);
-    } catch (e) {
-      console.error("Failed to create session:", e);
-    }
-  }, [createSession]);
+  const handleSetPointsScheme = useCallback((scheme: PointsScheme) => {
+    runUndoableAction('setPointsScheme', admin => setPointsScheme({ ...admin, scheme }));
+  }, [runUndoableAction, setPointsScheme]);
+
+  const handleSetRound = useCallback((roundIndex: number, details: RoundDetails) => {
+    runUndoableAction('setRound', admin => setRound({ ...admin, roundIndex, details }));
+  }, [runUndoableAction, setRound]);
+
+  const handleSetRoundCancelled = useCallback((roundIndex: number, cancelled: boolean) => {
+    runUndoableAction('setRoundCancelled', admin => setRoundCancelled({ ...admin, roundIndex, cancelled }));
+  }, [runUndoableAction, setRoundCancelled]);
+
+  // Registration decisions change the registrations table, which restoring a state would not
+  // put back, so they stay out of the undo history
+  const handleSetRegistrationSettings = useCallback((settings: RegistrationSettings) => {
+    runAdminAction(admin => setRegistrationSettings({ ...admin, settings }));
+  }, [runAdminAction, setRegistrationSettings]);
+
+  const handleApproveRegistration = useCallback((registrationId: string) => {
+    runAdminAction(admin => approveRegistration({ ...admin, registrationId }));
+  }, [runAdminAction, approveRegistration]);
+
+  const handleRejectRegistration = useCallback((registrationId: string) => {
+    runAdminAction(admin => rejectRegistration({ ...admin, registrationId }));
+  }, [runAdminAction, rejectRegistration]);
+
+  const handleMergeRegistration = useCallback((registrationId: string, participantId: number) => {
+    runAdminAction(admin => mergeRegistration({ ...admin, registrationId, participantId }));
+  }, [runAdminAction, mergeRegistration]);
+
+  const handleCreateCredential = useCallback((credentialRole: Exclude<Role, 'OWNER'>, label: string) => {
+    runAdminAction(admin => createCredential({ ...admin, role: credentialRole, label }));
+  }, [runAdminAction, createCredential]);
+
+  const handleRevokeCredential = useCallback((credentialId: number) => {
+    runAdminAction(admin => revokeCredential({ ...admin, credentialId }));
+  }, [runAdminAction, revokeCredential]);
 
   if (sessionParam) {
     return <RegistrationPage sessionId={sessionParam} />;
@@ -374,44 +434,164 @@ const App: React.FC = () => {
     return <LiveResultsView sessionId={liveParam} />;
   }
 
-  return (
-    <div className="min-h-screen bg-gray-900 text-gray-200 font-sans p-4 sm:p-6 lg:p-8">
-      <header className="text-center mb-8">
-        <h1 className="text-4xl sm:text-5xl font-bold text-white tracking-tight">
-          Salajase pleistaühingu DMEC
-        </h1>
-      </header>
-      <main>
+  if (judgeParam) {
+    return <JudgePage sessionId={judgeParam} token={tokenParam ?? ''} />;
+  }
+
+  let content: React.ReactNode;
+  if (!credentials) {
+    content = isFirstVisit.current || isCreatingSession.current ? (
+      <p className="text-center text-gray-400">Loon uut võistlust...</p>
+    ) : (
+      <SessionPicker
+        knownSessions={knownSessions}
+        onOpen={openSession}
+        onForget={handleForgetSession}
+        onCreate={handleCreateSession}
+      />
+    );
+  } else if (role === null) {
+    content = (
+      <div className="max-w-md mx-auto bg-gray-800 p-8 rounded-xl shadow-2xl text-center">
+        <h2 className="text-2xl font-bold text-red-400 mb-2">Halduri link ei kehti</h2>
+        <p className="text-gray-400 mb-6">Võistlust ei leitud või halduri võti on vale. Kontrolli linki ja proovi uuesti.</p>
+        <button onClick={handleInvalidSession} className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-6 rounded-md">
+          Tagasi
+        </button>
+      </div>
+    );
+  } else if (!appState || !sessionId || !adminSecret) {
+    content = <p className="text-center text-gray-400">Laen võistlust...</p>;
+  } else {
+    const { phase, standings, competitionParticipants, bracketFormat, bracket, thirdPlaceMatch, losersBracket, grandFinals, grandFinalReset, qualificationRule, bracketSize, pointsScheme, totalCompetitions, competitionsHeld, checkedInIds, rounds } = appState;
+    content = (
+      <>
         {phase === AppPhase.CHAMPIONSHIP_VIEW && (
             <ChampionshipView
                 standings={standings}
-                setStandings={setStandings}
-                onStartCompetition={handleStartCompetition}
+                onAddParticipant={can('addParticipant') ? handleAddParticipant : undefined}
+                onRemoveParticipant={can('removeParticipant') ? handleRemoveParticipant : undefined}
+                onSetParticipantProfile={can('setParticipantProfile') ? handleSetParticipantProfile : undefined}
+                onStartCompetition={can('startCheckIn') ? handleStartCheckIn : undefined}
                 totalCompetitions={totalCompetitions}
-                setTotalCompetitions={handleSetTotalCompetitions}
+                setTotalCompetitions={can('setTotalCompetitions') ? handleSetTotalCompetitions : undefined}
+                pointsScheme={pointsScheme}
+                onSetPointsScheme={can('setPointsScheme') ? handleSetPointsScheme : undefined}
                 competitionsHeld={competitionsHeld}
-                onResetChampionship={handleResetChampionship}
+                rounds={rounds}
+                onSetRound={can('setRound') ? handleSetRound : undefined}
+                onSetRoundCancelled={can('setRoundCancelled') ? handleSetRoundCancelled : undefined}
+                onResetChampionship={can('resetChampionship') ? handleResetChampionship : undefined}
                 sessionId={sessionId}
-                onEnableLiveView={handleEnableLiveView}
+                adminSecret={role === 'OWNER' ? adminSecret : undefined}
+                pendingRegistrations={pendingRegistrations ?? undefined}
+                registrationSettings={registrationSettings}
+                onSetRegistrationSettings={can('setRegistrationSettings') ? handleSetRegistrationSettings : undefined}
+                onApproveRegistration={can('approveRegistration') ? handleApproveRegistration : undefined}
+                onRejectRegistration={can('rejectRegistration') ? handleRejectRegistration : undefined}
+                onMergeRegistration={can('mergeRegistration') ? handleMergeRegistration : undefined}
+                pastCompetitions={pastCompetitions ?? undefined}
+                onAmendCompetition={can('amendCompetition') ? handleAmendCompetition : undefined}
             />
         )}
+        {phase === AppPhase.CHECK_IN && (
+          <CheckInView
+            standings={standings}
+            checkedInIds={checkedInIds}
+            onSetCheckedIn={can('setCheckedIn') ? handleSetCheckedIn : undefined}
+            onStartQualification={can('startCompetition') ? handleStartCompetition : undefined}
+          />
+        )}
         {phase === AppPhase.QUALIFICATION && (
           <QualificationView
             participants={competitionParticipants}
-            setParticipants={setCompetitionParticipants}
-            onStartBracket={handleStartBracket}
+            onSetRunScore={can('setQualificationScore') ? handleSetRunScore : undefined}
+            onSetRunStatus={can('setQualificationRunStatus') ? handleSetRunStatus : undefined}
+            qualificationRule={qualificationRule}
+            onSetQualificationRule={can('setQualificationRule') ? handleSetQualificationRule : undefined}
+            bracketSize={bracketSize}
+            onSetBracketSize={can('setBracketSize') ? handleSetBracketSize : undefined}
+            bracketFormat={bracketFormat}
+            onSetBracketFormat={can('setBracketFormat') ? handleSetBracketFormat : undefined}
+            grandFinalReset={grandFinalReset}
+            onSetGrandFinalReset={can('setGrandFinalReset') ? handleSetGrandFinalReset : undefined}
+            onStartBracket={can('generateBracket') ? handleStartBracket : undefined}
           />
         )}
         {(phase === AppPhase.BRACKET || phase === AppPhase.FINISHED) && (
           <TournamentBracket
             participants={competitionParticipants}
+            qualificationRule={qualificationRule}
             bracketData={bracket}
             thirdPlaceMatch={thirdPlaceMatch}
+            bracketFormat={bracketFormat}
+            losersBracket={losersBracket}
+            grandFinals={grandFinals}
             onSetWinner={handleSetWinner}
+            onClearWinner={can('clearMatchWinner') ? handleClearWinner : undefined}
+            onJudgeVote={can('setJudgeVote') ? handleJudgeVote : undefined}
+            onSetBattleStatus={can('setBattleStatus') ? handleSetBattleStatus : undefined}
+            onWithdraw={can('withdrawParticipant') ? handleWithdraw : undefined}
             phase={phase}
-            onReturnToChampionship={handleReturnToChampionship}
+            onReturnToChampionship={can('finishCompetition') ? handleReturnToChampionship : undefined}
+            isReadOnly={!can('setMatchWinner')}
           />
         )}
+        <HistoryPanel sessionId={sessionId} adminSecret={adminSecret} appState={appState} />
+        {role === 'OWNER' && (
+          <AccessPanel
+            sessionId={sessionId}
+            adminSecret={adminSecret}
+            onCreateCredential={handleCreateCredential}
+            onRevokeCredential={handleRevokeCredential}
+          />
+        )}
+      </>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-gray-200 font-sans p-4 sm:p-6 lg:p-8">
+      <header className="text-center mb-8">
+        <h1 className="text-4xl sm:text-5xl font-bold text-white tracking-tight">
+          Salajase pleistaühingu DMEC
+        </h1>
+        {role && role !== 'OWNER' && (
+          <p className="mt-2 text-gray-400">Roll: {ROLES.find(r => r.role === role)?.label}</p>
+        )}
+        {credentials && (
+          <button onClick={closeSession} className="mt-2 text-sm text-gray-400 hover:text-white underline">
+            Kõik võistlused
+          </button>
+        )}
+      </header>
+      {conflict && (
+        <ConflictBanner
+          rejectedCount={conflict.actions.length}
+          hasLatest={(convexSession?.version ?? 0) >= conflict.version}
+          onRebase={handleRebase}
+          onDiscard={() => setConflict(null)}
+        />
+      )}
+      {actionError && (
+        <div className="max-w-4xl mx-auto mb-4 bg-red-900/50 border border-red-700 text-red-300 px-4 py-2 rounded-md flex justify-between gap-4">
+          <span>{actionError}</span>
+          <button onClick={() => setActionError('')} className="text-red-300 hover:text-white" aria-label="Sulge">×</button>
+        </div>
+      )}
+      {appState && (
+        <UndoBar
+          undoLabel={undoEntry?.label}
+          redoLabel={redoEntry?.label}
+          canUndo={canUndo}
+          canRedo={canRedo}
+          onUndo={handleUndo}
+          onRedo={handleRedo}
+          onRestoreReset={resetBackup !== null ? handleRestoreReset : undefined}
+        />
+      )}
+      <main>
+        {content}
       </main>
     </div>
   );
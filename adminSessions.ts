@@ -0,0 +1,56 @@
+// Sessions this device has administered, kept in localStorage so the admin can reopen a
+// championship after a refresh or on the next day without keeping the admin link around.
+
+import type { Role } from './types';
+
+export interface KnownSession {
+  sessionId: string;
+  // The owner's admin secret or a credential for another role
+  adminSecret: string;
+  role?: Role;
+  createdAt: number;
+  lastOpenedAt: number;
+}
+
+const STORAGE_KEY = 'dmec-admin-sessions';
+
+export const loadKnownSessions = (): KnownSession[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
+const saveKnownSessions = (sessions: KnownSession[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(sessions));
+  } catch (e) {
+    // Private browsing or a full storage only costs the convenience of reopening later
+    console.error("Failed to remember admin sessions:", e);
+  }
+};
+
+// Adds the session or marks it as opened now; the most recently opened comes first.
+export const rememberSession = (sessionId: string, adminSecret: string, role: Role): KnownSession[] => {
+  const now = Date.now();
+  const known = loadKnownSessions();
+  const existing = known.find(s => s.sessionId === sessionId);
+  const sessions = [
+    { sessionId, adminSecret, role, createdAt: existing?.createdAt ?? now, lastOpenedAt: now },
+    ...known.filter(s => s.sessionId !== sessionId),
+  ];
+  saveKnownSessions(sessions);
+  return sessions;
+};
+
+export const forgetSession = (sessionId: string): KnownSession[] => {
+  const sessions = loadKnownSessions().filter(s => s.sessionId !== sessionId);
+  saveKnownSessions(sessions);
+  return sessions;
+};
+
+// Link that reopens a session with the secret's role
+export const getAdminLink = (sessionId: string, adminSecret: string) =>
+  `${window.location.origin}${window.location.pathname}?admin=${encodeURIComponent(sessionId)}&key=${encodeURIComponent(adminSecret)}`;
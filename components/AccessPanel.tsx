@@ -0,0 +1,121 @@
+import React, { useEffect, useState } from 'react';
+import { useQuery } from "convex/react";
+import { api } from "../convex/_generated/api";
+import { deriveCredentialSecret } from '../convex/secrets';
+import { getAdminLink } from '../adminSessions';
+import { ROLES } from '../constants';
+import type { Role } from '../types';
+import LinkSharer from './LinkSharer';
+
+type StaffRole = Exclude<Role, 'OWNER'>;
+
+interface AccessPanelProps {
+  sessionId: string;
+  // The owner's admin secret; credential links are derived from it
+  adminSecret: string;
+  onCreateCredential: (role: StaffRole, label: string) => void;
+  onRevokeCredential: (credentialId: number) => void;
+}
+
+const STAFF_ROLES = ROLES.filter(r => r.role !== 'OWNER') as { role: StaffRole; label: string; description: string }[];
+
+// Owner's panel for handing out links to helpers in other roles and revoking them
+const AccessPanel: React.FC<AccessPanelProps> = ({ sessionId, adminSecret, onCreateCredential, onRevokeCredential }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [role, setRole] = useState<StaffRole>('SCOREKEEPER');
+  const [label, setLabel] = useState('');
+  const credentials = useQuery(api.credentials.listCredentials, { sessionId, adminSecret });
+
+  // Links of the current credentials, derived again from the admin secret
+  const [links, setLinks] = useState<Record<number, string>>({});
+  useEffect(() => {
+    if (!credentials) return;
+    let cancelled = false;
+    Promise.all(credentials.map(async c => [c.id, getAdminLink(sessionId, await deriveCredentialSecret(adminSecret, c.id))] as const))
+      .then(entries => {
+        if (!cancelled) setLinks(Object.fromEntries(entries));
+      });
+    return () => { cancelled = true; };
+  }, [credentials, sessionId, adminSecret]);
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!label.trim()) return;
+    onCreateCredential(role, label.trim());
+    setLabel('');
+  };
+
+  const handleRevoke = (credentialId: number, credentialLabel: string) => {
+    if (window.confirm(`Kas tühistada ligipääs "${credentialLabel}"? Selle link lakkab kohe töötamast.`)) {
+      onRevokeCredential(credentialId);
+    }
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto mt-8 bg-gray-800 rounded-lg shadow-xl overflow-hidden">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full p-4 flex items-center justify-between hover:bg-gray-700/50 transition-colors"
+      >
+        <h3 className="text-lg font-semibold text-gray-200">Ligipääsud</h3>
+        <span className={`text-gray-400 transition-transform ${isOpen ? 'rotate-180' : ''}`}>▼</span>
+      </button>
+      {isOpen && (
+        <div className="p-4 pt-0 space-y-4">
+          <ul className="text-sm text-gray-400 space-y-1">
+            {STAFF_ROLES.map(r => (
+              <li key={r.role}><span className="font-semibold text-gray-300">{r.label}:</span> {r.description}</li>
+            ))}
+          </ul>
+
+          <form onSubmit={handleCreate} className="flex flex-col sm:flex-row gap-2">
+            <select
+              value={role}
+              onChange={e => setRole(e.target.value as StaffRole)}
+              className="bg-gray-700 text-white border border-gray-600 rounded-md px-3 py-2 focus:outline-none focus:ring-1 focus:ring-blue-500"
+              aria-label="Roll"
+            >
+              {STAFF_ROLES.map(r => (
+                <option key={r.role} value={r.role}>{r.label}</option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={label}
+              onChange={e => setLabel(e.target.value)}
+              placeholder="Kellele (nt Mari, stardiala)"
+              className="flex-grow bg-gray-700 text-white placeholder-gray-400 border border-gray-600 rounded-md px-4 py-2 focus:outline-none focus:ring-2 focus:ring-yellow-500"
+            />
+            <button type="submit" className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-6 rounded-md">
+              Loo link
+            </button>
+          </form>
+
+          {credentials === undefined && <p className="text-gray-400 text-sm">Laen ligipääse...</p>}
+          {credentials?.length === 0 && <p className="text-gray-400 text-sm">Teistele rollidele pole veel linke loodud.</p>}
+          {credentials?.map(c => (
+            <div key={c.id} className="flex items-end gap-2">
+              <div className="flex-grow">
+                {links[c.id] && (
+                  <LinkSharer
+                    label={`${c.label} – ${ROLES.find(r => r.role === c.role)?.label ?? c.role}`}
+                    description="Isiklik link selle rolli toimingute jaoks. Ära jaga seda teistega."
+                    link={links[c.id]}
+                  />
+                )}
+              </div>
+              <button
+                onClick={() => handleRevoke(c.id, c.label)}
+                className="bg-red-700 hover:bg-red-600 text-white font-bold py-2 px-3 rounded-md text-sm"
+              >
+                Tühista
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AccessPanel;
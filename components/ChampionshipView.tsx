@@ -1,127 +1,118 @@
-import React, { useState } from 'react';
-import type { ChampionshipStanding } from '../types';
+import React, { useEffect, useState } from 'react';
+import type { ChampionshipStanding, CompetitionCorrection, CompetitionRecord, DriverProfile, PendingRegistration, PointsScheme, RegistrationSettings, RoundDetails, SeasonRound } from '../types';
+import DriverName from './DriverName';
+import ParticipantProfileEditor from './ParticipantProfileEditor';
+import PointsSchemeEditor from './PointsSchemeEditor';
+import LinkSharer from './LinkSharer';
+import PastCompetitions from './PastCompetitions';
+import RegistrationQueue from './RegistrationQueue';
+import SeasonCalendar from './SeasonCalendar';
+import { getAdminLink } from '../adminSessions';
+import { deriveJudgeSecrets } from '../convex/secrets';
+import { DEFAULT_REGISTRATION_SETTINGS, JUDGE_COUNT } from '../constants';
+import { formatRoundDate, getCompetitionName, getCompetitionRound, getNextRoundIndex, isSeasonFinished as getIsSeasonFinished } from '../engine/rounds';
 
+// Actions the current role may not run are left out, which hides their controls
 interface ChampionshipViewProps {
   standings: ChampionshipStanding[];
-  setStandings: React.Dispatch<React.SetStateAction<ChampionshipStanding[]>>;
-  onStartCompetition: () => void;
+  onAddParticipant?: (name: string) => void;
+  onRemoveParticipant?: (id: number) => void;
+  onSetParticipantProfile?: (id: number, profile: DriverProfile) => void;
+  onStartCompetition?: () => void;
   totalCompetitions: number | null;
-  setTotalCompetitions: (count: number) => void;
+  setTotalCompetitions?: (count: number) => void;
+  pointsScheme: PointsScheme;
+  onSetPointsScheme?: (scheme: PointsScheme) => void;
   competitionsHeld: number;
-  onResetChampionship: () => void;
-  sessionId: string | null;
-  onEnableLiveView: () => void;
+  // The season calendar; its details are the owner's to set
+  rounds: SeasonRound[];
+  onSetRound?: (roundIndex: number, details: RoundDetails) => void;
+  onSetRoundCancelled?: (roundIndex: number, cancelled: boolean) => void;
+  onResetChampionship?: () => void;
+  // Left out when showing a past state, which has no links to share
+  sessionId?: string;
+  // Owner only: the judge and admin links are derived from it
+  adminSecret?: string;
+  // Self-registrations waiting for approval; left out where the queue is not shown
+  pendingRegistrations?: PendingRegistration[];
+  registrationSettings?: RegistrationSettings;
+  onSetRegistrationSettings?: (settings: RegistrationSettings) => void;
+  onApproveRegistration?: (registrationId: string) => void;
+  onRejectRegistration?: (registrationId: string) => void;
+  onMergeRegistration?: (registrationId: string, participantId: number) => void;
+  // Archived competitions of the season; left out when showing a past state
+  pastCompetitions?: CompetitionRecord[];
+  onAmendCompetition?: (recordId: string, corrections: CompetitionCorrection[]) => void;
 }
 
-const PointsTable: React.FC<{ title: string; data: Record<string, string | number> }> = ({ title, data }) => (
-    <div className="w-full">
-        <h3 className="text-lg font-bold text-blue-300 mb-3 text-center">{title}</h3>
-        <table className="w-full text-sm text-left text-gray-300 bg-gray-700/50 rounded-lg overflow-hidden">
-            <thead className="bg-gray-700 text-xs text-gray-400 uppercase">
-                <tr>
-                    <th scope="col" className="px-4 py-2">Koht</th>
-                    <th scope="col" className="px-4 py-2 text-right">Punktid</th>
-                </tr>
-            </thead>
-            <tbody>
-                {Object.entries(data).map(([rank, points]) => (
-                    <tr key={rank} className="border-b border-gray-700">
-                        <td className="px-4 py-1 font-medium">{rank}</td>
-                        <td className="px-4 py-1 text-right font-semibold text-yellow-400">{points}</td>
-                    </tr>
-                ))}
-            </tbody>
-        </table>
-    </div>
-);
-
-const LinkSharer: React.FC<{ label: string, description: string, link: string }> = ({ label, description, link }) => {
-    const [copied, setCopied] = useState(false);
-    const copyLink = () => {
-        navigator.clipboard.writeText(link).then(() => {
-            setCopied(true);
-            setTimeout(() => setCopied(false), 2000);
-        });
-    };
-
-    return (
-        <div>
-            <h4 className="font-semibold text-blue-300 mb-1">{label}</h4>
-            <p className="text-sm text-gray-400 mb-2">{description}</p>
-            <div className="flex gap-2 items-center bg-gray-900 p-2 rounded-md">
-                <input
-                    type="text"
-                    readOnly
-                    value={link}
-                    className="flex-grow bg-transparent text-gray-300 focus:outline-none"
-                    aria-label={label}
-                />
-                <button
-                    onClick={copyLink}
-                    className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-1 px-3 rounded-md text-sm transition duration-300"
-                >
-                    {copied ? 'Kopeeritud!' : 'Kopeeri'}
-                </button>
-            </div>
-        </div>
-    );
-}
-
-
 const ChampionshipView: React.FC<ChampionshipViewProps> = ({ 
     standings, 
-    setStandings, 
+    onAddParticipant,
+    onRemoveParticipant,
+    onSetParticipantProfile,
     onStartCompetition, 
     totalCompetitions, 
     setTotalCompetitions, 
+    pointsScheme,
+    onSetPointsScheme,
     competitionsHeld, 
+    rounds,
+    onSetRound,
+    onSetRoundCancelled,
     onResetChampionship,
     sessionId,
-    onEnableLiveView
+    adminSecret,
+    pendingRegistrations,
+    registrationSettings = DEFAULT_REGISTRATION_SETTINGS,
+    onSetRegistrationSettings,
+    onApproveRegistration,
+    onRejectRegistration,
+    onMergeRegistration,
+    pastCompetitions = [],
+    onAmendCompetition,
 }) => {
     const [newName, setNewName] = useState('');
     const [seasonLengthInput, setSeasonLengthInput] = useState(totalCompetitions?.toString() || '');
+    const [editingProfileId, setEditingProfileId] = useState<number | null>(null);
     
-    const registrationLink = sessionId 
-        ? `${window.location.origin}${window.location.pathname}?session=${sessionId}`
-        : '';
-    const liveViewLink = sessionId
-        ? `${window.location.origin}${window.location.pathname}?live=${sessionId}`
-        : '';
+    const registrationLink = `${window.location.origin}${window.location.pathname}?session=${sessionId}`;
+    const liveViewLink = `${window.location.origin}${window.location.pathname}?live=${sessionId}`;
+    const adminLink = sessionId && adminSecret ? getAdminLink(sessionId, adminSecret) : null;
+    // Judge tokens are derived from the admin secret (see convex/secrets.ts)
+    const [judgeSecrets, setJudgeSecrets] = useState<string[]>([]);
+    useEffect(() => {
+        if (!adminSecret) return;
+        let cancelled = false;
+        deriveJudgeSecrets(adminSecret, JUDGE_COUNT).then(secrets => {
+            if (!cancelled) setJudgeSecrets(secrets);
+        });
+        return () => { cancelled = true; };
+    }, [adminSecret]);
+    const judgeLinks = judgeSecrets.map(token => `${window.location.origin}${window.location.pathname}?judge=${sessionId}&token=${token}`);
 
     const addParticipant = () => {
-        if (newName.trim()) {
-            const newParticipant: ChampionshipStanding = {
-                id: Date.now(),
-                name: newName.trim(),
-                pointsPerCompetition: Array(competitionsHeld).fill(0),
-            };
-            setStandings(prev => [...prev, newParticipant]);
+        if (onAddParticipant && newName.trim()) {
+            onAddParticipant(newName.trim());
             setNewName('');
         }
     };
 
-    const removeParticipant = (id: number) => {
-        setStandings(prev => prev.filter(p => p.id !== id));
-    };
-
     const handleSetSeasonLength = () => {
         const length = parseInt(seasonLengthInput, 10);
-        if (length > 0) {
+        if (setTotalCompetitions && length > 0) {
             setTotalCompetitions(length);
         }
     };
 
     if (totalCompetitions === null) {
-        const qualificationPointsData = {
-            "1.": 12, "2.": 10, "3.": 8, "4.": 6,
-            "5.-6.": 4, "7.-8.": 3, "9.-12.": 2, "13.-16.": 1,
-            "17.-24.": 0.5, "25.-32.": 0.25,
-        };
-        const mainCompetitionPointsData = {
-            "1.": 100, "2.": 88, "3.": 76, "4.": 64,
-            "5.-8.": 48, "9.-16.": 32, "17.-32.": 16, "33.-64.": 10,
-        };
+        if (!setTotalCompetitions) {
+            return (
+                <div className="max-w-4xl mx-auto bg-gray-800 p-8 rounded-lg shadow-xl text-center">
+                    <h2 className="text-2xl font-bold mb-4 text-yellow-300">Hooaja seadistamine</h2>
+                    <p className="text-gray-400">Võistluse omanik ei ole hooaega veel seadistanud.</p>
+                </div>
+            );
+        }
 
         return (
              <div className="max-w-4xl mx-auto bg-gray-800 p-8 rounded-lg shadow-xl">
@@ -147,17 +138,19 @@ const ChampionshipView: React.FC<ChampionshipViewProps> = ({
                     </div>
                 </div>
                 
-                <hr className="border-gray-700 my-8" />
+                {onSetPointsScheme && (
+                    <>
+                        <hr className="border-gray-700 my-8" />
 
-                <div className="flex flex-col md:flex-row gap-8">
-                    <PointsTable title="Kvalifikatsiooni punktid" data={qualificationPointsData} />
-                    <PointsTable title="Põhivõistluse punktid" data={mainCompetitionPointsData} />
-                </div>
+                        <PointsSchemeEditor scheme={pointsScheme} onChange={onSetPointsScheme} />
+                    </>
+                )}
             </div>
         );
     }
     
-    const isSeasonFinished = competitionsHeld >= totalCompetitions;
+    const isSeasonFinished = getIsSeasonFinished({ rounds, totalCompetitions });
+    const nextRoundIndex = getNextRoundIndex(rounds);
     const sortedStandings = [...standings].sort((a, b) => {
         const totalA = a.pointsPerCompetition.reduce((sum, p) => sum + p, 0);
         const totalB = b.pointsPerCompetition.reduce((sum, p) => sum + p, 0);
@@ -168,32 +161,72 @@ const ChampionshipView: React.FC<ChampionshipViewProps> = ({
 
     const getTotalPoints = (p: ChampionshipStanding) => p.pointsPerCompetition.reduce((sum, pts) => sum + pts, 0);
 
+    // Both wipe season points, so ask first
+    const handleRemove = (p: ChampionshipStanding) => {
+        const points = getTotalPoints(p);
+        const message = points > 0
+            ? `Kas eemaldada ${p.name} sarjast? Koos temaga kustuvad tema ${points} hooaja punkti.`
+            : `Kas eemaldada ${p.name} sarjast?`;
+        if (window.confirm(message)) onRemoveParticipant?.(p.id);
+    };
+
+    const handleReset = () => {
+        if (window.confirm('Kas alustada uut hooaega? Kõik osalejad ja nende punktid kustutatakse. Eelmise hooaja saab taastada seni, kuni see leht on avatud.')) {
+            onResetChampionship?.();
+        }
+    };
+
+    const hasRemoveColumn = !isSeasonFinished && !!onRemoveParticipant;
+
     const TableHeader = () => (
         <thead className="bg-gray-700/50">
             <tr>
                 <th className="p-3 text-left text-sm font-semibold text-gray-400 tracking-wider w-16">Koht</th>
                 <th className="p-3 text-left text-sm font-semibold text-gray-400 tracking-wider">Nimi</th>
                 {Array.from({ length: competitionsHeld }, (_, i) => (
-                    <th key={i} className="p-3 text-center text-sm font-semibold text-gray-400 tracking-wider w-24">Etapp {i + 1}</th>
+                    <th key={i} className="p-3 text-center text-sm font-semibold text-gray-400 tracking-wider w-24">
+                        {getCompetitionName(rounds, i)}
+                        {pastCompetitions.some(c => c.index === i && c.amendedAt !== undefined) && (
+                            <span className="ml-1 text-orange-400" title="Tulemusi on parandatud">*</span>
+                        )}
+                        <div className="text-xs font-normal text-gray-500">{formatRoundDate(getCompetitionRound(rounds, i)?.date ?? null)}</div>
+                    </th>
                 ))}
                 <th className="p-3 text-center text-sm font-semibold text-yellow-300 tracking-wider w-24">Kokku</th>
-                {!isSeasonFinished && <th className="w-12 p-3"></th>}
+                {hasRemoveColumn && <th className="w-12 p-3"></th>}
             </tr>
         </thead>
     );
 
     const TableRow = ({ p, index }: { p: ChampionshipStanding; index: number }) => (
+        <>
         <tr className="border-b border-gray-700 hover:bg-gray-700/50">
             <td className="p-3 font-bold text-center">{index + 1}.</td>
-            <td className="p-3 font-semibold">{p.name}</td>
+            <td className="p-3 font-semibold">
+                <div className="flex items-center justify-between gap-2">
+                    <DriverName name={p.name} profile={p.profile} showDetails />
+                    {onSetParticipantProfile && (
+                        <button
+                            onClick={() => setEditingProfileId(editingProfileId === p.id ? null : p.id)}
+                            className="text-gray-500 hover:text-gray-200 text-sm"
+                            title="Muuda osaleja andmeid"
+                            aria-label={`Muuda osaleja ${p.name} andmeid`}
+                        >
+                            ✎
+                        </button>
+                    )}
+                </div>
+            </td>
             {Array.from({ length: competitionsHeld }, (_, i) => (
-                <td key={i} className="p-3 text-center text-gray-400">{p.pointsPerCompetition[i] ?? 0}</td>
+                p.absences?.includes(i)
+                    ? <td key={i} className="p-3 text-center text-gray-600" title="Puudus">–</td>
+                    : <td key={i} className="p-3 text-center text-gray-400">{p.pointsPerCompetition[i] ?? 0}</td>
             ))}
             <td className="p-3 text-center font-bold text-yellow-400">{getTotalPoints(p)}</td>
-            {!isSeasonFinished && (
+            {hasRemoveColumn && (
                 <td className="p-3 text-center">
                     <button
-                        onClick={() => removeParticipant(p.id)}
+                        onClick={() => handleRemove(p)}
                         className="text-red-500 hover:text-red-400 font-bold"
                         title="Eemalda osaleja sarjast"
                     >
@@ -202,6 +235,22 @@ const ChampionshipView: React.FC<ChampionshipViewProps> = ({
                 </td>
             )}
         </tr>
+        {editingProfileId === p.id && onSetParticipantProfile && (
+            <tr className="border-b border-gray-700">
+                <td colSpan={3 + competitionsHeld + (hasRemoveColumn ? 1 : 0)} className="p-3">
+                    <ParticipantProfileEditor
+                        name={p.name}
+                        profile={p.profile}
+                        onSave={profile => {
+                            onSetParticipantProfile(p.id, profile);
+                            setEditingProfileId(null);
+                        }}
+                        onCancel={() => setEditingProfileId(null)}
+                    />
+                </td>
+            </tr>
+        )}
+        </>
     );
 
     return (
@@ -211,7 +260,9 @@ const ChampionshipView: React.FC<ChampionshipViewProps> = ({
                     {isSeasonFinished ? 'Hooaja lõplik edetabel' : 'Meistrivõistluste edetabel'}
                 </h2>
                 <div className="text-lg font-semibold text-gray-400 bg-gray-700 px-4 py-1 rounded-md">
-                   Võistlus {Math.min(competitionsHeld + 1, totalCompetitions)} / {totalCompetitions}
+                   {nextRoundIndex === -1
+                       ? `${competitionsHeld} etappi peetud`
+                       : `${rounds[nextRoundIndex].name} (${nextRoundIndex + 1} / ${rounds.length})`}
                 </div>
             </div>
 
@@ -261,40 +312,46 @@ const ChampionshipView: React.FC<ChampionshipViewProps> = ({
                 </div>
             ) : (
                 <>
-                    <div className="flex flex-col sm:flex-row gap-4 mb-6">
-                        <input
-                            type="text"
-                            value={newName}
-                            onChange={(e) => setNewName(e.target.value)}
-                            onKeyDown={(e) => e.key === 'Enter' && addParticipant()}
-                            placeholder="Sisesta osaleja nimi sarja lisamiseks"
-                            className="flex-grow bg-gray-700 text-white placeholder-gray-400 border border-gray-600 rounded-md px-4 py-2 focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                    {onAddParticipant && (
+                        <div className="flex flex-col sm:flex-row gap-4 mb-6">
+                            <input
+                                type="text"
+                                value={newName}
+                                onChange={(e) => setNewName(e.target.value)}
+                                onKeyDown={(e) => e.key === 'Enter' && addParticipant()}
+                                placeholder="Sisesta osaleja nimi sarja lisamiseks"
+                                className="flex-grow bg-gray-700 text-white placeholder-gray-400 border border-gray-600 rounded-md px-4 py-2 focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                            />
+                            <button
+                                onClick={addParticipant}
+                                className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-6 rounded-md transition duration-300"
+                            >
+                                Lisa osaleja
+                            </button>
+                        </div>
+                    )}
+
+                    {pendingRegistrations && (
+                        <RegistrationQueue
+                            registrations={pendingRegistrations}
+                            standings={sortedStandings}
+                            settings={registrationSettings}
+                            onSetSettings={onSetRegistrationSettings}
+                            onApprove={onApproveRegistration}
+                            onReject={onRejectRegistration}
+                            onMerge={onMergeRegistration}
                         />
-                        <button
-                            onClick={addParticipant}
-                            className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-6 rounded-md transition duration-300"
-                        >
-                            Lisa osaleja
-                        </button>
-                    </div>
+                    )}
 
-                    <div className="my-6 p-4 bg-gray-700/50 rounded-lg border border-gray-600">
-                        <h3 className="text-lg font-semibold mb-3">Reaalajas jagamine</h3>
-                        {!sessionId ? (
-                            <>
-                                <p className="text-sm text-gray-400 mb-3">Loo unikaalsed lingid, et lubada osalejatel registreeruda ja pealtvaatajatel võistlust jälgida.</p>
-                                <button
-                                    onClick={onEnableLiveView}
-                                    className="bg-purple-600 hover:bg-purple-700 text-white font-bold py-2 px-4 rounded-md transition duration-300"
-                                >
-                                    Luba registreerimine ja reaalajas vaade
-                                </button>
-                            </>
-                        ) : (
+                    {sessionId && (
+                        <div className="my-6 p-4 bg-gray-700/50 rounded-lg border border-gray-600">
+                            <h3 className="text-lg font-semibold mb-3">Reaalajas jagamine</h3>
                             <div className="space-y-4">
                                <LinkSharer 
                                     label="Registreerimise link"
-                                    description="Jaga seda linki osalejatega. Uued registreerujad ilmuvad automaatselt tabelisse."
+                                    description={registrationSettings.requireApproval
+                                        ? 'Jaga seda linki osalejatega. Uued registreerujad ootavad kinnitamist ülal.'
+                                        : 'Jaga seda linki osalejatega. Uued registreerujad ilmuvad automaatselt tabelisse.'}
                                     link={registrationLink}
                                />
                                <LinkSharer
@@ -302,9 +359,24 @@ const ChampionshipView: React.FC<ChampionshipViewProps> = ({
                                     description="Jaga seda linki pealtvaatajatega, et nad saaksid võistlust reaalajas jälgida."
                                     link={liveViewLink}
                                />
+                               {judgeLinks.map((link, index) => (
+                                   <LinkSharer
+                                        key={link}
+                                        label={`Kohtuniku ${index + 1} link`}
+                                        description="Isiklik link kohtunikule tulemuste ja battle'i häälte sisestamiseks. Ära jaga seda teistega."
+                                        link={link}
+                                   />
+                               ))}
+                               {adminLink && (
+                                   <LinkSharer
+                                        label="Halduri link"
+                                        description="Selle lingiga saad võistlust hallata ka teises seadmes või pärast lehe sulgemist. Ära jaga seda teistega."
+                                        link={adminLink}
+                                   />
+                               )}
                             </div>
-                        )}
-                    </div>
+                        </div>
+                    )}
 
                     <div className="overflow-x-auto">
                         {standings.length > 0 ? (
@@ -323,16 +395,28 @@ const ChampionshipView: React.FC<ChampionshipViewProps> = ({
                 </>
             )}
 
+            <div className="mt-8">
+                <SeasonCalendar rounds={rounds} onSetRound={onSetRound} onSetRoundCancelled={onSetRoundCancelled} />
+            </div>
+
+            {pastCompetitions.length > 0 && (
+                <div className="mt-8">
+                    <PastCompetitions competitions={pastCompetitions} onAmend={onAmendCompetition} />
+                </div>
+            )}
+
             <div className="mt-8 text-center">
                 {isSeasonFinished ? (
-                    <button
-                        onClick={onResetChampionship}
-                        className="bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-3 px-8 rounded-lg text-xl transition duration-300 shadow-lg opacity-0 animate-podium-item"
-                        style={{ animationDelay: '1.0s' }}
-                    >
-                        Alusta uut hooaega
-                    </button>
-                ) : (
+                    onResetChampionship && (
+                        <button
+                            onClick={handleReset}
+                            className="bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-3 px-8 rounded-lg text-xl transition duration-300 shadow-lg opacity-0 animate-podium-item"
+                            style={{ animationDelay: '1.0s' }}
+                        >
+                            Alusta uut hooaega
+                        </button>
+                    )
+                ) : onStartCompetition && (
                     <>
                         <button
                             onClick={onStartCompetition}
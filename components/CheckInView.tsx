@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import type { ChampionshipStanding } from '../types';
+import { MIN_PARTICIPANTS } from '../constants';
+import DriverName from './DriverName';
+
+// Actions the current role may not run are left out, which disables their checkboxes or
+// hides their buttons
+interface CheckInViewProps {
+  standings: ChampionshipStanding[];
+  checkedInIds: number[];
+  onSetCheckedIn?: (participantIds: number[], present: boolean) => void;
+  onStartQualification?: () => void;
+}
+
+// Competition day check-in: only the drivers marked present here enter qualification, the
+// rest are recorded as absent. Drivers can also check in from their registration page.
+const CheckInView: React.FC<CheckInViewProps> = ({ standings, checkedInIds, onSetCheckedIn, onStartQualification }) => {
+  const [filter, setFilter] = useState('');
+
+  const presentCount = standings.filter(p => checkedInIds.includes(p.id)).length;
+  const visible = standings.filter(p => p.name.toLocaleLowerCase('et').includes(filter.trim().toLocaleLowerCase('et')));
+
+  const handleStart = () => {
+    const absentCount = standings.length - presentCount;
+    if (absentCount === 0 || window.confirm(`${absentCount} osalejat ei ole kohal ja märgitakse sellelt võistluselt puudujaks. Kas alustada kvalifikatsiooni?`)) {
+      onStartQualification?.();
+    }
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto bg-gray-800 p-6 rounded-lg shadow-xl">
+      <div className="flex justify-between items-center mb-4 flex-wrap gap-4">
+        <h2 className="text-2xl font-bold text-green-300">Kohalolek</h2>
+        <div className="text-lg font-semibold text-gray-400 bg-gray-700 px-4 py-1 rounded-md">
+          Kohal {presentCount} / {standings.length}
+        </div>
+      </div>
+      <p className="text-gray-400 text-sm mb-4">
+        Märgi kohal olevad sõitjad. Sõitjad saavad end ise kohalolevaks märkida oma registreerimise lingilt.
+      </p>
+
+      <div className="flex flex-col sm:flex-row gap-3 mb-4">
+        <input
+          type="text"
+          value={filter}
+          onChange={e => setFilter(e.target.value)}
+          placeholder="Otsi nime järgi"
+          className="flex-grow bg-gray-700 text-white placeholder-gray-400 border border-gray-600 rounded-md px-4 py-2 focus:outline-none focus:ring-2 focus:ring-green-500"
+        />
+        {onSetCheckedIn && (
+          <div className="flex gap-2">
+            <button
+              onClick={() => onSetCheckedIn(standings.map(p => p.id), true)}
+              className="bg-gray-600 hover:bg-gray-500 text-gray-200 py-2 px-4 rounded-md text-sm"
+            >
+              Märgi kõik kohalolevaks
+            </button>
+            <button
+              onClick={() => onSetCheckedIn(standings.map(p => p.id), false)}
+              className="bg-gray-600 hover:bg-gray-500 text-gray-200 py-2 px-4 rounded-md text-sm"
+            >
+              Tühista kõik
+            </button>
+          </div>
+        )}
+      </div>
+
+      <ul className="space-y-2">
+        {visible.map(p => {
+          const isPresent = checkedInIds.includes(p.id);
+          return (
+            <li key={p.id}>
+              <label className={`flex items-center gap-4 p-3 rounded-md transition-colors duration-300 ${isPresent ? 'bg-green-900/40' : 'bg-gray-700'} ${onSetCheckedIn ? 'cursor-pointer' : ''}`}>
+                <input
+                  type="checkbox"
+                  checked={isPresent}
+                  disabled={!onSetCheckedIn}
+                  onChange={e => onSetCheckedIn?.([p.id], e.target.checked)}
+                  className="h-5 w-5 accent-green-500"
+                />
+                <span className="flex-grow min-w-0"><DriverName name={p.name} profile={p.profile} className="font-semibold text-lg" /></span>
+                <span className={`text-sm ${isPresent ? 'text-green-400' : 'text-gray-500'}`}>{isPresent ? 'Kohal' : 'Pole märgitud'}</span>
+              </label>
+            </li>
+          );
+        })}
+        {visible.length === 0 && <p className="text-center text-gray-400 py-4">Ühtegi osalejat ei leitud.</p>}
+      </ul>
+
+      {onStartQualification && (
+        <div className="mt-8 text-center">
+          <button
+            onClick={handleStart}
+            disabled={presentCount < MIN_PARTICIPANTS}
+            className="bg-green-600 hover:bg-green-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-bold py-3 px-8 rounded-lg text-xl transition duration-300 shadow-lg"
+          >
+            Alusta kvalifikatsiooni
+          </button>
+          {presentCount < MIN_PARTICIPANTS && (
+            <p className="text-sm mt-2 text-gray-500">Kvalifikatsiooni alustamiseks peab kohal olema vähemalt {MIN_PARTICIPANTS} osalejat.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CheckInView;
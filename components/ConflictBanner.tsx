@@ -0,0 +1,37 @@
+import React from 'react';
+
+interface ConflictBannerProps {
+  // Number of admin changes the server rejected
+  rejectedCount: number;
+  // Whether the newer session version has reached this tab yet
+  hasLatest: boolean;
+  onRebase: () => void;
+  onDiscard: () => void;
+}
+
+// Shown when the session changed elsewhere (another admin tab, a registration or a judge)
+// after this tab last saw it, so the server rejected the admin's change instead of applying
+// it to a state they have not seen.
+const ConflictBanner: React.FC<ConflictBannerProps> = ({ rejectedCount, hasLatest, onRebase, onDiscard }) => (
+  <div className="max-w-4xl mx-auto mb-4 bg-yellow-900/40 border border-yellow-700 text-yellow-200 px-4 py-3 rounded-md" role="alert">
+    <p className="font-bold">Võistlust muudeti vahepeal mujal</p>
+    <p className="text-sm mb-3">
+      {rejectedCount === 1 ? 'Sinu viimast muudatust' : `Sinu viimast ${rejectedCount} muudatust`} ei salvestatud, sest see põhines vanemal seisul.
+      Vaata uusim seis üle ja rakenda muudatus sellele uuesti või loobu sellest.
+    </p>
+    <div className="flex gap-3 flex-wrap">
+      <button
+        onClick={onRebase}
+        disabled={!hasLatest}
+        className="bg-yellow-600 hover:bg-yellow-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-bold py-1 px-4 rounded-md"
+      >
+        {hasLatest ? 'Rakenda uusimale seisule' : 'Laen uusimat seisu...'}
+      </button>
+      <button onClick={onDiscard} className="bg-gray-700 hover:bg-gray-600 text-gray-200 font-bold py-1 px-4 rounded-md">
+        Loobu ja näita uusimat seisu
+      </button>
+    </div>
+  </div>
+);
+
+export default ConflictBanner;
@@ -0,0 +1,35 @@
+import React from 'react';
+import type { DriverProfile } from '../types';
+import { formatProfileDetails, getCountryName, getFlag } from '../engine/profile';
+
+interface DriverNameProps {
+  name: string;
+  profile?: DriverProfile;
+  // Car, team and handle on a line below the name; otherwise they show on hover
+  showDetails?: boolean;
+  className?: string;
+}
+
+// A driver's name with their competition number and flag, wherever drivers are listed
+const DriverName: React.FC<DriverNameProps> = ({ name, profile, showDetails = false, className = '' }) => {
+  const details = profile ? formatProfileDetails(profile) : '';
+  const nationality = profile?.nationality ?? '';
+  const country = nationality ? getCountryName(nationality) : undefined;
+
+  return (
+    <span className="inline-flex flex-col min-w-0" title={!showDetails && details ? details : undefined}>
+      <span className="inline-flex items-center gap-2 min-w-0">
+        {profile?.carNumber != null && (
+          <span className="shrink-0 text-xs font-mono font-bold bg-gray-900 text-yellow-300 px-1.5 py-0.5 rounded" title="Võistlusnumber">
+            #{profile.carNumber}
+          </span>
+        )}
+        {country && <span className="shrink-0" title={country} aria-label={country}>{getFlag(nationality)}</span>}
+        <span className={`truncate ${className}`}>{name}</span>
+      </span>
+      {showDetails && details && <span className="text-xs font-normal text-gray-400 truncate">{details}</span>}
+    </span>
+  );
+};
+
+export default DriverName;
@@ -0,0 +1,185 @@
+import React, { useMemo, useState } from 'react';
+import { useQuery } from "convex/react";
+import { api } from "../convex/_generated/api";
+import { toAppState } from "../convex/sessionState";
+import { ACTION_LABELS, AppPhase, BATTLE_STATUSES, HISTORY_PAGE_SIZE, ROLES } from '../constants';
+import type { ActorRole, AppState } from '../types';
+import ChampionshipView from './ChampionshipView';
+import CheckInView from './CheckInView';
+import QualificationView from './QualificationView';
+import TournamentBracket from './TournamentBracket';
+
+interface HistoryPanelProps {
+  sessionId: string;
+  adminSecret: string;
+  // Current state, for naming the participants events refer to
+  appState: AppState;
+}
+
+const getRoleLabel = (role: ActorRole) => {
+  if (role === 'JUDGE') return 'Kohtunik';
+  if (role === 'PARTICIPANT') return 'Osaleja';
+  return ROLES.find(r => r.role === role)?.label ?? role;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+// One line summary of an event's arguments, e.g. "Mari · 2. sõit · tulemus 78". Events keep
+// the arguments of whichever mutation made them, so each field is checked before it is used.
+const describeArgs = (args: Record<string, unknown>, nameOf: (id: number) => string) => {
+  const parts: string[] = [];
+  if (typeof args.participantId === 'number') parts.push(nameOf(args.participantId));
+  else if (Array.isArray(args.participantIds)) {
+    parts.push(args.participantIds.filter((id): id is number => typeof id === 'number').map(nameOf).join(', '));
+  } else if (typeof args.name === 'string') parts.push(args.name);
+  if (isRecord(args.profile) && typeof args.profile.carNumber === 'number') parts.push(`#${args.profile.carNumber}`);
+  if (typeof args.roundIndex === 'number') parts.push(`${args.roundIndex + 1}. etapp`);
+  if (isRecord(args.details) && typeof args.details.name === 'string') parts.push(args.details.name);
+  if (typeof args.cancelled === 'boolean') parts.push(args.cancelled ? 'ära jäetud' : 'taastatud');
+  if (typeof args.matchId === 'number') parts.push(`battle #${args.matchId}`);
+  if (typeof args.runIndex === 'number') parts.push(`${args.runIndex + 1}. sõit`);
+  if ('score' in args) parts.push(`tulemus ${typeof args.score === 'number' ? args.score : '–'}`);
+  if ('status' in args) parts.push(BATTLE_STATUSES.find(s => s.status === args.status)?.label ?? 'staatus eemaldatud');
+  if (typeof args.winnerId === 'number') parts.push(`võitja ${nameOf(args.winnerId)}`);
+  if (typeof args.judgeIndex === 'number') parts.push(`kohtunik ${args.judgeIndex + 1}`);
+  if ('vote' in args) {
+    const { vote } = args;
+    parts.push(vote === 'OMT' ? 'hääl OMT' : typeof vote === 'number' ? `hääl ${nameOf(vote)}` : 'hääl tühistatud');
+  }
+  if (typeof args.totalCompetitions === 'number') parts.push(`${args.totalCompetitions} võistlust`);
+  if (typeof args.bracketSize === 'number') parts.push(`Top ${args.bracketSize}`);
+  if (typeof args.bracketFormat === 'string') parts.push(args.bracketFormat === 'DOUBLE_ELIMINATION' ? 'Topeltväljalangemine' : 'Ühekordne väljalangemine');
+  if (typeof args.grandFinalReset === 'boolean') parts.push(args.grandFinalReset ? 'sees' : 'väljas');
+  if (typeof args.role === 'string') parts.push(getRoleLabel(args.role as ActorRole));
+  if (typeof args.label === 'string') parts.push(args.label);
+  if (Array.isArray(args.corrections)) parts.push(args.corrections.length === 1 ? '1 parandus' : `${args.corrections.length} parandust`);
+  if (typeof args.present === 'boolean') parts.push(args.present ? 'kohal' : 'ei ole kohal');
+  if (typeof args.version === 'number') parts.push(`versioon ${args.version}`);
+  return parts.join(' · ');
+};
+
+// A past state in the admin views, with every control left out
+const StateSnapshot: React.FC<{ state: AppState }> = ({ state }) => {
+  switch (state.phase) {
+    case AppPhase.CHAMPIONSHIP_VIEW:
+      return (
+        <ChampionshipView
+          standings={state.standings}
+          totalCompetitions={state.totalCompetitions}
+          pointsScheme={state.pointsScheme}
+          competitionsHeld={state.competitionsHeld}
+          rounds={state.rounds}
+        />
+      );
+    case AppPhase.CHECK_IN:
+      return <CheckInView standings={state.standings} checkedInIds={state.checkedInIds} />;
+    case AppPhase.QUALIFICATION:
+      return (
+        <QualificationView
+          participants={state.competitionParticipants}
+          qualificationRule={state.qualificationRule}
+          bracketSize={state.bracketSize}
+          bracketFormat={state.bracketFormat}
+          grandFinalReset={state.grandFinalReset}
+        />
+      );
+    default:
+      return (
+        <TournamentBracket
+          participants={state.competitionParticipants}
+          qualificationRule={state.qualificationRule}
+          bracketData={state.bracket}
+          thirdPlaceMatch={state.thirdPlaceMatch}
+          bracketFormat={state.bracketFormat}
+          losersBracket={state.losersBracket}
+          grandFinals={state.grandFinals}
+          onSetWinner={() => {}} // Read-only, so no-op
+          phase={state.phase}
+          isReadOnly={true}
+        />
+      );
+  }
+};
+
+// Admins' log of every change to the session, for settling disputes. Any event can be opened
+// to see the session as it was right after it.
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ sessionId, adminSecret, appState }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
+  const [limit, setLimit] = useState(HISTORY_PAGE_SIZE);
+  const events = useQuery(api.events.listEvents, isOpen ? { sessionId, adminSecret, limit } : "skip");
+  const selectedState = useQuery(
+    api.events.getEventState,
+    selectedVersion !== null ? { sessionId, adminSecret, version: selectedVersion } : "skip"
+  );
+
+  const names = useMemo(() => {
+    const map = new Map<number, string>();
+    appState.standings.forEach(p => map.set(p.id, p.name));
+    appState.competitionParticipants.forEach(p => map.set(p.id, p.name));
+    return map;
+  }, [appState]);
+  const nameOf = (id: number) => names.get(id) ?? `#${id}`;
+
+  return (
+    <div className="max-w-4xl mx-auto mt-8 bg-gray-800 rounded-lg shadow-xl overflow-hidden">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full p-4 flex items-center justify-between hover:bg-gray-700/50 transition-colors"
+      >
+        <h3 className="text-lg font-semibold text-gray-200">Ajalugu</h3>
+        <span className={`text-gray-400 transition-transform ${isOpen ? 'rotate-180' : ''}`}>▼</span>
+      </button>
+      {isOpen && (
+        <div className="p-4 pt-0">
+          {events === undefined && <p className="text-gray-400 text-sm">Laen ajalugu...</p>}
+          {events?.length === 0 && <p className="text-gray-400 text-sm">Muudatusi pole veel tehtud.</p>}
+          <ul className="max-h-96 overflow-y-auto divide-y divide-gray-700">
+            {events?.map(event => (
+              <li key={event._id} className={`py-2 flex items-center gap-3 text-sm ${selectedVersion === event.version ? 'bg-gray-700/50' : ''}`}>
+                <span className="w-20 shrink-0 text-gray-500 font-mono">
+                  {new Date(event.createdAt).toLocaleTimeString('et-EE')}
+                </span>
+                <div className="flex-grow min-w-0">
+                  <p className="text-gray-200">
+                    <span className="font-semibold">{ACTION_LABELS[event.action as keyof typeof ACTION_LABELS] ?? event.action}</span>
+                    {describeArgs(event.args, nameOf) && <span className="text-gray-400"> · {describeArgs(event.args, nameOf)}</span>}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {getRoleLabel(event.role)}{event.actor ? ` (${event.actor})` : ''} · versioon {event.version}
+                  </p>
+                </div>
+                <button
+                  onClick={() => setSelectedVersion(selectedVersion === event.version ? null : event.version)}
+                  className="shrink-0 text-blue-400 hover:text-blue-300 underline"
+                >
+                  {selectedVersion === event.version ? 'Peida seis' : 'Vaata seisu'}
+                </button>
+              </li>
+            ))}
+          </ul>
+          {events?.length === limit && (
+            <button
+              onClick={() => setLimit(limit + HISTORY_PAGE_SIZE)}
+              className="mt-2 text-sm text-blue-400 hover:text-blue-300 underline"
+            >
+              Näita varasemaid
+            </button>
+          )}
+          {selectedVersion !== null && (
+            <div className="mt-4 border-t border-gray-700 pt-4">
+              <p className="text-sm text-yellow-300 mb-4">Seis pärast versiooni {selectedVersion} muudatust. Seda seisu ei saa siin muuta.</p>
+              {selectedState ? (
+                <StateSnapshot state={toAppState(selectedState)} />
+              ) : (
+                <p className="text-gray-400 text-sm">{selectedState === null ? 'Seisu ei leitud.' : 'Laen seisu...'}</p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,208 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../convex/_generated/api";
+import type { JudgeVote, Match, Participant, RunStatus } from '../types';
+import { AppPhase, DEFAULT_QUALIFICATION_RULE, RUN_STATUSES } from '../constants';
+import { getAllMatches } from '../engine/bracket';
+import { getCurrentRun } from '../engine/judging';
+import { getRunScores, getRunStatuses } from '../engine/seeding';
+
+interface JudgePageProps {
+  sessionId: string;
+  token: string;
+}
+
+interface BattleVoteCardProps {
+  match: Match;
+  judgeIndex: number;
+  onVote: (matchId: number, vote: JudgeVote | null) => Promise<void>;
+}
+
+// One open battle with big buttons for the judge's vote on the run in progress.
+const BattleVoteCard: React.FC<BattleVoteCardProps> = ({ match, judgeIndex, onVote }) => {
+  const [sending, setSending] = useState<JudgeVote | null>(null);
+  const currentVote = getCurrentRun(match)?.votes[judgeIndex] ?? null;
+  const runNumber = Math.max(match.runs?.length ?? 0, 1);
+
+  const vote = async (value: JudgeVote) => {
+    setSending(value);
+    try {
+      await onVote(match.id, currentVote === value ? null : value);
+    } finally {
+      setSending(null);
+    }
+  };
+
+  const buttonClass = (value: JudgeVote) =>
+    `w-full py-4 rounded-lg text-lg font-bold transition duration-200 disabled:opacity-50 ${
+      currentVote === value ? 'bg-green-600 text-white' : sending === value ? 'bg-gray-500 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-200'
+    }`;
+
+  return (
+    <div className="bg-gray-800 p-4 rounded-xl shadow-lg space-y-3">
+      <div className="text-sm text-gray-400 text-center">Sõit {runNumber}</div>
+      <button onClick={() => vote(match.participant1!.id)} disabled={sending !== null} className={buttonClass(match.participant1!.id)}>
+        {match.participant1!.name}
+      </button>
+      <button onClick={() => vote('OMT')} disabled={sending !== null} className={buttonClass('OMT')}>
+        OMT
+      </button>
+      <button onClick={() => vote(match.participant2!.id)} disabled={sending !== null} className={buttonClass(match.participant2!.id)}>
+        {match.participant2!.name}
+      </button>
+    </div>
+  );
+};
+
+interface ScoreRowProps {
+  participant: Participant;
+  // Score of the selected run as applied by the admin
+  runScore: number | null;
+  runStatus: RunStatus | null;
+  // Resolves to whether the score was accepted
+  onSubmit: (participantId: number, score: number | null) => Promise<boolean>;
+}
+
+// Qualification score entry for one driver and the selected run.
+const ScoreRow: React.FC<ScoreRowProps> = ({ participant, runScore, runStatus, onSubmit }) => {
+  const [value, setValue] = useState('');
+  const [sent, setSent] = useState(false);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const parsed = parseFloat(value);
+    const accepted = await onSubmit(participant.id, value.trim() === '' || isNaN(parsed) ? null : parsed);
+    // A rejected score stays in the input to be corrected and sent again
+    if (accepted) setValue('');
+    setSent(accepted);
+  };
+
+  return (
+    <form onSubmit={submit} className="flex items-center gap-3 bg-gray-800 p-3 rounded-lg">
+      <div className="flex-grow">
+        <div className="font-semibold text-lg">{participant.name}</div>
+        <div className="text-sm text-gray-400">
+          {runStatus ? RUN_STATUSES.find(s => s.status === runStatus)?.label
+            : runScore !== null ? `Tulemus: ${runScore}` : sent ? 'Saadetud' : 'Tulemus puudub'}
+        </div>
+      </div>
+      <input
+        type="number"
+        inputMode="decimal"
+        step="0.01"
+        min="0"
+        value={value}
+        onChange={(e) => {
+          setValue(e.target.value);
+          setSent(false);
+        }}
+        placeholder="Punktid"
+        className="w-24 bg-gray-700 text-white placeholder-gray-400 border border-gray-600 rounded-md px-3 py-2 text-lg focus:outline-none focus:ring-2 focus:ring-yellow-500"
+        aria-label={`${participant.name} tulemus`}
+      />
+      <button type="submit" className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded-md">
+        Saada
+      </button>
+    </form>
+  );
+};
+
+// Phone-friendly page for one judge: qualification scores during qualification and battle
+// votes during the bracket. Each input is applied to the competition as soon as it arrives.
+const JudgePage: React.FC<JudgePageProps> = ({ sessionId, token }) => {
+  const [error, setError] = useState('');
+  const [runIndex, setRunIndex] = useState(0);
+  const assignment = useQuery(api.judges.getJudgeAssignment, { sessionId, token });
+  const session = useQuery(api.sessions.getSession, { sessionId });
+  const submitJudgeVote = useMutation(api.judges.submitJudgeVote);
+  const submitJudgeScore = useMutation(api.judges.submitJudgeScore);
+
+  // Sends one input, showing the error if it fails. Resolves to whether it was accepted.
+  const run = async (action: () => Promise<unknown>) => {
+    setError('');
+    try {
+      await action();
+      return true;
+    } catch (err: any) {
+      console.error("Judge input failed:", err);
+      setError(err.message || 'Saatmine ebaõnnestus. Proovi uuesti.');
+      return false;
+    }
+  };
+
+  let content: React.ReactNode;
+  if (assignment === undefined || session === undefined) {
+    content = <p className="text-center text-gray-400">Laen...</p>;
+  } else if (assignment === null || session === null) {
+    content = <p className="text-center text-red-400">Kohtuniku link ei kehti. Küsi korraldajalt uus link.</p>;
+  } else if (session.phase === AppPhase.QUALIFICATION) {
+    const rule = session.qualificationRule ?? DEFAULT_QUALIFICATION_RULE;
+    const participants = [...session.competitionParticipants].sort((a, b) => (a.runOrder ?? 0) - (b.runOrder ?? 0));
+    content = (
+      <div className="space-y-3">
+        <h2 className="text-xl font-bold text-blue-300">Kvalifikatsioon</h2>
+        {rule.runCount > 1 && (
+          <div className="flex gap-2">
+            {Array.from({ length: rule.runCount }).map((_, i) => (
+              <button
+                key={i}
+                onClick={() => setRunIndex(i)}
+                className={`flex-1 py-2 rounded-md font-bold ${runIndex === i ? 'bg-yellow-500 text-gray-900' : 'bg-gray-700 text-gray-300'}`}
+              >
+                {i + 1}. sõit
+              </button>
+            ))}
+          </div>
+        )}
+        {participants.map(p => (
+          <ScoreRow
+            key={`${p.id}-${runIndex}`}
+            participant={p}
+            runScore={getRunScores(p, rule)[runIndex] ?? null}
+            runStatus={getRunStatuses(p, rule)[runIndex] ?? null}
+            onSubmit={(participantId, score) => run(() => submitJudgeScore({ sessionId, token, participantId, runIndex, score }))}
+          />
+        ))}
+      </div>
+    );
+  } else if (session.phase === AppPhase.BRACKET) {
+    const openBattles = getAllMatches({
+      bracketFormat: session.bracketFormat ?? 'SINGLE_ELIMINATION',
+      grandFinalReset: session.grandFinalReset ?? false,
+      bracket: session.bracket,
+      thirdPlaceMatch: session.thirdPlaceMatch,
+      losersBracket: session.losersBracket ?? [],
+      grandFinals: session.grandFinals ?? [],
+    }).filter(m => m.participant1 && m.participant2 && !m.winner);
+    content = (
+      <div className="space-y-4">
+        <h2 className="text-xl font-bold text-blue-300">Battle'id</h2>
+        {openBattles.length === 0 && <p className="text-center text-gray-400">Avatud battle'eid pole. Oota järgmist paari.</p>}
+        {openBattles.map(match => (
+          <BattleVoteCard
+            key={match.id}
+            match={match}
+            judgeIndex={assignment.judgeIndex}
+            onVote={(matchId, vote) => run(() => submitJudgeVote({ sessionId, token, matchId, vote }))}
+          />
+        ))}
+      </div>
+    );
+  } else {
+    content = <p className="text-center text-gray-400">Praegu pole midagi hinnata.</p>;
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-gray-200 font-sans p-4">
+      <div className="max-w-md mx-auto space-y-4">
+        <h1 className="text-2xl font-bold text-yellow-300 text-center">
+          {assignment ? `Kohtunik ${assignment.judgeIndex + 1}` : 'Kohtunik'}
+        </h1>
+        {error && <p className="text-red-400 text-sm text-center">{error}</p>}
+        {content}
+      </div>
+    </div>
+  );
+};
+
+export default JudgePage;
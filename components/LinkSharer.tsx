@@ -0,0 +1,35 @@
+import React, { useState } from 'react';
+
+const LinkSharer: React.FC<{ label: string, description: string, link: string }> = ({ label, description, link }) => {
+    const [copied, setCopied] = useState(false);
+    const copyLink = () => {
+        navigator.clipboard.writeText(link).then(() => {
+            setCopied(true);
+            setTimeout(() => setCopied(false), 2000);
+        });
+    };
+
+    return (
+        <div>
+            <h4 className="font-semibold text-blue-300 mb-1">{label}</h4>
+            <p className="text-sm text-gray-400 mb-2">{description}</p>
+            <div className="flex gap-2 items-center bg-gray-900 p-2 rounded-md">
+                <input
+                    type="text"
+                    readOnly
+                    value={link}
+                    className="flex-grow bg-transparent text-gray-300 focus:outline-none"
+                    aria-label={label}
+                />
+                <button
+                    onClick={copyLink}
+                    className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-1 px-3 rounded-md text-sm transition duration-300"
+                >
+                    {copied ? 'Kopeeritud!' : 'Kopeeri'}
+                </button>
+            </div>
+        </div>
+    );
+}
+
+export default LinkSharer;
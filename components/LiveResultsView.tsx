@@ -1,19 +1,20 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState } from 'react';
 import { useQuery } from "convex/react";
 import { api } from "../convex/_generated/api";
-import type { ChampionshipStanding, Participant } from '../types';
-import { AppPhase } from '../constants';
+import { toAppState } from "../convex/sessionState";
+import type { ChampionshipStanding, CompetitionRecord, Participant, QualificationRule, SeasonRound } from '../types';
+import { AppPhase, DEFAULT_BRACKET_SIZE, DEFAULT_QUALIFICATION_RULE } from '../constants';
 import TournamentBracket from './TournamentBracket';
+import QualificationRanking from './QualificationRanking';
+import PastCompetitions from './PastCompetitions';
+import DriverName from './DriverName';
+import SeasonCalendar from './SeasonCalendar';
+import { formatRoundDate, getCompetitionName, getCompetitionRound } from '../engine/rounds';
 
 type ConnectionStatus = 'connecting' | 'live' | 'error';
 
-const LiveQualificationResults: React.FC<{ participants: Participant[], defaultCollapsed?: boolean }> = ({ participants, defaultCollapsed = false }) => {
+const LiveQualificationResults: React.FC<{ participants: Participant[], bracketSize: number, qualificationRule: QualificationRule, defaultCollapsed?: boolean }> = ({ participants, bracketSize, qualificationRule, defaultCollapsed = false }) => {
     const [isCollapsed, setIsCollapsed] = useState(defaultCollapsed);
-    const sortedParticipants = useMemo(() =>
-        [...participants]
-        .filter(p => p.score !== null)
-        .sort((a, b) => (b.score ?? 0) - (a.score ?? 0)),
-     [participants]);
 
     return (
         <div className="max-w-4xl mx-auto bg-gray-800 rounded-lg shadow-xl overflow-hidden">
@@ -27,27 +28,15 @@ const LiveQualificationResults: React.FC<{ participants: Participant[], defaultC
                 </span>
              </button>
              {!isCollapsed && (
-                <div className="px-6 pb-6 space-y-2 max-h-96 overflow-y-auto">
-                    {sortedParticipants.length === 0 ? (
-                        <p className="text-center text-gray-500 py-8">Kvalifikatsioon pole veel alanud või tulemusi pole sisestatud.</p>
-                    ) : (
-                        sortedParticipants.map((p, index) => (
-                            <div key={p.id} className="flex items-center justify-between gap-4 p-3 rounded-md bg-gray-700">
-                                <div className="flex items-center gap-4">
-                                    <span className="font-bold text-lg w-8 text-center">{index + 1}.</span>
-                                    <span className="font-semibold text-lg">{p.name}</span>
-                                </div>
-                                <span className="font-bold text-xl text-yellow-400">{p.score}</span>
-                            </div>
-                        ))
-                    )}
+                <div className="px-6 pb-6 max-h-96 overflow-y-auto">
+                    <QualificationRanking participants={participants} bracketSize={bracketSize} qualificationRule={qualificationRule} />
                 </div>
              )}
         </div>
     );
 };
 
-const LiveStandingsTable: React.FC<{ standings: ChampionshipStanding[], competitionsHeld: number }> = ({ standings, competitionsHeld }) => {
+const LiveStandingsTable: React.FC<{ standings: ChampionshipStanding[], competitionsHeld: number, rounds: SeasonRound[], pastCompetitions: CompetitionRecord[] }> = ({ standings, competitionsHeld, rounds, pastCompetitions }) => {
     const getTotalPoints = (p: ChampionshipStanding) => p.pointsPerCompetition.reduce((sum, pts) => sum + pts, 0);
     const sortedStandings = [...standings].sort((a, b) => getTotalPoints(b) - getTotalPoints(a));
 
@@ -62,7 +51,13 @@ const LiveStandingsTable: React.FC<{ standings: ChampionshipStanding[], competit
                                 <th className="p-3 text-left text-sm font-semibold text-gray-400 tracking-wider w-16">Koht</th>
                                 <th className="p-3 text-left text-sm font-semibold text-gray-400 tracking-wider">Nimi</th>
                                 {Array.from({ length: competitionsHeld }, (_, i) => (
-                                    <th key={i} className="p-3 text-center text-sm font-semibold text-gray-400 tracking-wider w-24">Etapp {i + 1}</th>
+                                    <th key={i} className="p-3 text-center text-sm font-semibold text-gray-400 tracking-wider w-24">
+                                        {getCompetitionName(rounds, i)}
+                                        {pastCompetitions.some(c => c.index === i && c.amendedAt !== undefined) && (
+                                            <span className="ml-1 text-orange-400" title="Tulemusi on parandatud">*</span>
+                                        )}
+                                        <div className="text-xs font-normal text-gray-500">{formatRoundDate(getCompetitionRound(rounds, i)?.date ?? null)}</div>
+                                    </th>
                                 ))}
                                 <th className="p-3 text-center text-sm font-semibold text-yellow-300 tracking-wider w-24">Kokku</th>
                             </tr>
@@ -71,9 +66,11 @@ const LiveStandingsTable: React.FC<{ standings: ChampionshipStanding[], competit
                             {sortedStandings.map((p, index) => (
                                 <tr key={p.id} className="border-b border-gray-700">
                                     <td className="p-3 font-bold text-center">{index + 1}.</td>
-                                    <td className="p-3 font-semibold">{p.name}</td>
+                                    <td className="p-3 font-semibold"><DriverName name={p.name} profile={p.profile} showDetails /></td>
                                     {Array.from({ length: competitionsHeld }, (_, i) => (
-                                        <td key={i} className="p-3 text-center text-gray-400">{p.pointsPerCompetition[i] ?? 0}</td>
+                                        p.absences?.includes(i)
+                                            ? <td key={i} className="p-3 text-center text-gray-600" title="Puudus">–</td>
+                                            : <td key={i} className="p-3 text-center text-gray-400">{p.pointsPerCompetition[i] ?? 0}</td>
                                     ))}
                                     <td className="p-3 text-center font-bold text-yellow-400">{getTotalPoints(p)}</td>
                                 </tr>
@@ -110,6 +107,7 @@ const LiveResultsView: React.FC<{ sessionId: string }> = ({ sessionId }) => {
     // This ONE line replaces all SSE/fetch/reconnection logic from ntfy.sh!
     // Convex handles real-time subscriptions, reconnection, and state sync automatically.
     const session = useQuery(api.sessions.getSession, { sessionId });
+    const pastCompetitions = useQuery(api.archive.listCompetitions, { sessionId });
 
     const [showEasterEgg, setShowEasterEgg] = useState(false);
     const [easterEggPosition, setEasterEggPosition] = useState({ x: 50, y: 50 });
@@ -174,30 +172,56 @@ const LiveResultsView: React.FC<{ sessionId: string }> = ({ sessionId }) => {
         }
 
         const { phase, competitionParticipants, bracket, thirdPlaceMatch, standings, competitionsHeld } = session;
+        const bracketSize = session.bracketSize ?? DEFAULT_BRACKET_SIZE;
+        const { rounds } = toAppState(session);
+        const runningRound = rounds.find(r => r.status === 'RUNNING');
 
         const showBracket = phase === AppPhase.BRACKET || phase === AppPhase.FINISHED;
 
         return (
             <div className="space-y-8">
+                { runningRound &&
+                    <div className="max-w-4xl mx-auto text-center">
+                        <h2 className="text-3xl font-bold text-yellow-300">{runningRound.name}</h2>
+                        {(runningRound.date || runningRound.venue) && (
+                            <p className="text-gray-400 mt-1">{[formatRoundDate(runningRound.date), runningRound.venue].filter(Boolean).join(' · ')}</p>
+                        )}
+                    </div>
+                }
                 { (phase === AppPhase.QUALIFICATION || showBracket) &&
                     <LiveQualificationResults
                         participants={competitionParticipants}
+                        bracketSize={bracketSize}
+                        qualificationRule={session.qualificationRule ?? DEFAULT_QUALIFICATION_RULE}
                         defaultCollapsed={showBracket}
                     />
                 }
                 { showBracket &&
                     <TournamentBracket
                         participants={competitionParticipants}
+                        qualificationRule={session.qualificationRule ?? DEFAULT_QUALIFICATION_RULE}
                         bracketData={bracket}
                         thirdPlaceMatch={thirdPlaceMatch}
+                        bracketFormat={session.bracketFormat}
+                        losersBracket={session.losersBracket}
+                        grandFinals={session.grandFinals}
                         onSetWinner={() => {}} // Read-only, so no-op
                         phase={phase as any}
-                        onReturnToChampionship={() => {}} // Not applicable
                         isReadOnly={true}
                     />
                 }
-                { (phase === AppPhase.CHAMPIONSHIP_VIEW || phase === AppPhase.FINISHED) &&
-                    <LiveStandingsTable standings={standings} competitionsHeld={competitionsHeld} />
+                { (phase === AppPhase.CHAMPIONSHIP_VIEW || phase === AppPhase.CHECK_IN || phase === AppPhase.FINISHED) &&
+                    <LiveStandingsTable standings={standings} competitionsHeld={competitionsHeld} rounds={rounds} pastCompetitions={pastCompetitions ?? []} />
+                }
+                { rounds.length > 0 &&
+                    <div className="max-w-7xl mx-auto bg-gray-800 p-6 rounded-lg shadow-xl">
+                        <SeasonCalendar rounds={rounds} />
+                    </div>
+                }
+                { pastCompetitions && pastCompetitions.length > 0 &&
+                    <div className="max-w-7xl mx-auto bg-gray-800 p-6 rounded-lg shadow-xl">
+                        <PastCompetitions competitions={pastCompetitions} />
+                    </div>
                 }
             </div>
         );
@@ -0,0 +1,52 @@
+import React, { useState } from 'react';
+import type { DriverProfile } from '../types';
+import { EMPTY_DRIVER_PROFILE } from '../constants';
+import { validateProfile } from '../engine/profile';
+import ProfileFields from './ProfileFields';
+
+interface ParticipantProfileEditorProps {
+  name: string;
+  profile?: DriverProfile;
+  onSave: (profile: DriverProfile) => void;
+  onCancel: () => void;
+}
+
+// The admin's editor for a driver's profile in the standings
+const ParticipantProfileEditor: React.FC<ParticipantProfileEditorProps> = ({ name, profile, onSave, onCancel }) => {
+  const [draft, setDraft] = useState(profile ?? EMPTY_DRIVER_PROFILE);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = () => {
+    const validationError = validateProfile(draft);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    onSave(draft);
+  };
+
+  return (
+    <div className="p-3 bg-gray-900/50 rounded-md space-y-3">
+      <p className="text-sm font-semibold text-gray-300">{name}: osaleja andmed</p>
+      <ProfileFields
+        profile={draft}
+        onChange={next => {
+          setDraft(next);
+          setError(null);
+        }}
+        hasError={!!error}
+      />
+      {error && <p className="text-red-400 text-sm">{error}</p>}
+      <div className="flex gap-2">
+        <button onClick={handleSave} className="bg-green-600 hover:bg-green-700 text-white text-sm font-bold py-1 px-4 rounded-md">
+          Salvesta
+        </button>
+        <button onClick={onCancel} className="bg-gray-600 hover:bg-gray-500 text-gray-200 text-sm py-1 px-4 rounded-md">
+          Loobu
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ParticipantProfileEditor;
@@ -0,0 +1,248 @@
+import React, { useMemo, useState } from 'react';
+import type { AwardedPoints, CompetitionCorrection, CompetitionRecord } from '../types';
+import { AppPhase } from '../constants';
+import { applyCompetitionCorrections, createCompetitionRecord } from '../engine/archive';
+import { getPodium } from '../engine/points';
+import QualificationRanking from './QualificationRanking';
+import QualificationView from './QualificationView';
+import TournamentBracket from './TournamentBracket';
+
+interface PastCompetitionsProps {
+  competitions: CompetitionRecord[];
+  // Owner only: stores corrections to a competition's results
+  onAmend?: (recordId: string, corrections: CompetitionCorrection[]) => void;
+}
+
+const formatDate = (time: number) => new Date(time).toLocaleDateString('et-EE');
+
+// A score typed digit by digit is one correction, not one per keystroke
+const addCorrection = (corrections: CompetitionCorrection[], correction: CompetitionCorrection) => {
+  const last = corrections[corrections.length - 1];
+  const isSameRun = (correction.kind === 'score' || correction.kind === 'runStatus')
+    && last?.kind === correction.kind
+    && last.participantId === correction.participantId
+    && last.runIndex === correction.runIndex;
+  return isSameRun ? [...corrections.slice(0, -1), correction] : [...corrections, correction];
+};
+
+// Points a competition gave, with what they were before while corrections are previewed
+const PointsTable: React.FC<{ points: AwardedPoints[]; previous?: AwardedPoints[] }> = ({ points, previous }) => (
+  <div className="overflow-x-auto">
+    <table className="w-full min-w-max">
+      <thead className="bg-gray-700/50">
+        <tr>
+          <th className="p-3 text-left text-sm font-semibold text-gray-400 tracking-wider w-16">Koht</th>
+          <th className="p-3 text-left text-sm font-semibold text-gray-400 tracking-wider">Nimi</th>
+          <th className="p-3 text-center text-sm font-semibold text-yellow-300 tracking-wider w-24">Punktid</th>
+        </tr>
+      </thead>
+      <tbody>
+        {points.map((p, index) => {
+          const before = previous?.find(b => b.participantId === p.participantId)?.points ?? 0;
+          return (
+            <tr key={p.participantId} className="border-b border-gray-700">
+              <td className="p-3 font-bold text-center">{index + 1}.</td>
+              <td className="p-3 font-semibold">{p.name}</td>
+              <td className="p-3 text-center font-bold text-yellow-400">
+                {previous && before !== p.points && <span className="text-gray-500 font-normal line-through mr-2">{before}</span>}
+                {p.points}
+              </td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  </div>
+);
+
+// Corrections to one archived competition, previewed by the same rules the server applies
+// them with and stored together
+const CompetitionEditor: React.FC<{
+  competition: CompetitionRecord;
+  onSave: (corrections: CompetitionCorrection[]) => void;
+  onCancel: () => void;
+}> = ({ competition, onSave, onCancel }) => {
+  const [corrections, setCorrections] = useState<CompetitionCorrection[]>([]);
+  const preview = useMemo(() => applyCompetitionCorrections(competition, corrections), [competition, corrections]);
+  const previewRecord = useMemo(() => createCompetitionRecord(preview, competition.heldAt), [preview, competition.heldAt]);
+
+  const add = (correction: CompetitionCorrection) => setCorrections(prev => addCorrection(prev, correction));
+
+  const handleSave = () => {
+    if (window.confirm(`Kas salvestada etapi ${competition.name} parandatud tulemused? Etapi punktid arvutatakse uuesti ja hooaja edetabel muutub.`)) {
+      onSave(corrections);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <p className="bg-yellow-900/40 border border-yellow-700 text-yellow-200 px-4 py-2 rounded-md text-sm">
+        Parandad etapi tulemusi. Battle'i tulemuse muutmine tühistab sellest sõltunud hilisemad tulemused, mis tuleb uuesti määrata.
+        Edetabel muutub alles salvestamisel.
+      </p>
+
+      {previewRecord ? (
+        <PointsTable points={previewRecord.points} previous={competition.points} />
+      ) : (
+        <p className="text-center text-gray-400">Määra tühistatud battle'ite võitjad, et näha uusi punkte.</p>
+      )}
+
+      <QualificationView
+        participants={preview.competitionParticipants}
+        onSetRunScore={(participantId, runIndex, score) => add({ kind: 'score', participantId, runIndex, score })}
+        onSetRunStatus={(participantId, runIndex, status) => add({ kind: 'runStatus', participantId, runIndex, status })}
+        qualificationRule={preview.qualificationRule}
+        bracketSize={preview.bracketSize}
+        bracketFormat={preview.bracketFormat}
+        grandFinalReset={preview.grandFinalReset}
+      />
+
+      <TournamentBracket
+        participants={preview.competitionParticipants}
+        qualificationRule={preview.qualificationRule}
+        bracketData={preview.bracket}
+        thirdPlaceMatch={preview.thirdPlaceMatch}
+        bracketFormat={preview.bracketFormat}
+        losersBracket={preview.losersBracket}
+        grandFinals={preview.grandFinals}
+        onSetWinner={(matchId, winner) => add({ kind: 'winner', matchId, winnerId: winner.id })}
+        onClearWinner={matchId => add({ kind: 'clearWinner', matchId })}
+        phase={preview.phase}
+      />
+
+      <div className="flex justify-center gap-3">
+        <button
+          onClick={handleSave}
+          disabled={corrections.length === 0 || !previewRecord}
+          className="bg-green-600 hover:bg-green-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-bold py-2 px-6 rounded-md"
+        >
+          Salvesta parandus
+        </button>
+        <button onClick={onCancel} className="bg-gray-600 hover:bg-gray-500 text-gray-200 font-bold py-2 px-6 rounded-md">
+          Loobu
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// One archived competition: the points it gave, its qualification and its bracket
+const CompetitionDetails: React.FC<{
+  competition: CompetitionRecord;
+  onAmend?: (corrections: CompetitionCorrection[]) => void;
+}> = ({ competition, onAmend }) => {
+  const [showQualification, setShowQualification] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+
+  if (isEditing && onAmend) {
+    return (
+      <CompetitionEditor
+        competition={competition}
+        onSave={corrections => {
+          onAmend(corrections);
+          setIsEditing(false);
+        }}
+        onCancel={() => setIsEditing(false)}
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {(competition.amendedAt !== undefined || onAmend) && (
+        <div className="flex items-center justify-between gap-4 flex-wrap">
+          {competition.amendedAt !== undefined ? (
+            <p className="text-sm text-orange-300">Tulemusi parandati {new Date(competition.amendedAt).toLocaleString('et-EE')}.</p>
+          ) : <span />}
+          {onAmend && (
+            <button
+              onClick={() => setIsEditing(true)}
+              className="bg-gray-600 hover:bg-gray-500 text-gray-200 text-sm py-1 px-3 rounded-md"
+            >
+              Paranda tulemusi
+            </button>
+          )}
+        </div>
+      )}
+
+      <PointsTable points={competition.points} />
+
+      <div>
+        <button
+          onClick={() => setShowQualification(!showQualification)}
+          className="w-full flex items-center justify-between text-left text-lg font-semibold text-blue-300 hover:text-blue-200"
+        >
+          Kvalifikatsiooni tulemused
+          <span className={`text-gray-400 transition-transform ${showQualification ? 'rotate-180' : ''}`}>▼</span>
+        </button>
+        {showQualification && (
+          <div className="mt-3 max-h-96 overflow-y-auto">
+            <QualificationRanking
+              participants={competition.participants}
+              bracketSize={competition.bracketSize}
+              qualificationRule={competition.qualificationRule}
+            />
+          </div>
+        )}
+      </div>
+
+      <TournamentBracket
+        participants={competition.participants}
+        qualificationRule={competition.qualificationRule}
+        bracketData={competition.bracket}
+        thirdPlaceMatch={competition.thirdPlaceMatch}
+        bracketFormat={competition.bracketFormat}
+        losersBracket={competition.losersBracket}
+        grandFinals={competition.grandFinals}
+        onSetWinner={() => {}} // Read-only, so no-op
+        phase={AppPhase.FINISHED}
+        isReadOnly={true}
+      />
+    </div>
+  );
+};
+
+// The season's finished competitions from the archive, newest first, one opened at a time.
+// Shown in the admin standings and the live view.
+const PastCompetitions: React.FC<PastCompetitionsProps> = ({ competitions, onAmend }) => {
+  // By position in the season, which stays the same when a correction replaces the record
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+
+  if (competitions.length === 0) return null;
+
+  const open = competitions.find(c => c.index === openIndex);
+
+  return (
+    <section>
+      <h3 className="text-xl font-bold text-gray-200 mb-3">Varasemad etapid</h3>
+      <div className="flex flex-wrap gap-2 mb-4">
+        {[...competitions].reverse().map(competition => {
+          const winner = getPodium(competition)[0];
+          return (
+            <button
+              key={competition.id}
+              onClick={() => setOpenIndex(openIndex === competition.index ? null : competition.index)}
+              className={`py-2 px-4 rounded-md text-sm transition-colors ${openIndex === competition.index ? 'bg-yellow-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-200'}`}
+            >
+              <span className="font-semibold">{competition.name}</span>
+              <span className="ml-2 text-xs opacity-75">{formatDate(competition.heldAt)}</span>
+              {winner && <span className="ml-2 text-xs opacity-75">🏆 {winner.name}</span>}
+              {competition.amendedAt !== undefined && (
+                <span className="ml-2 text-xs bg-orange-600 text-white px-2 py-0.5 rounded-full">Parandatud</span>
+              )}
+            </button>
+          );
+        })}
+      </div>
+      {open && (
+        <CompetitionDetails
+          key={open.id}
+          competition={open}
+          onAmend={onAmend ? corrections => onAmend(open.id, corrections) : undefined}
+        />
+      )}
+    </section>
+  );
+};
+
+export default PastCompetitions;
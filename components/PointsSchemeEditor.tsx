@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import type { PointsBand, PointsScheme } from '../types';
+import { POINTS_SCHEME_PRESETS } from '../constants';
+import { validatePointsScheme } from '../engine/points';
+
+const CUSTOM_SCHEME_NAME = 'Kohandatud';
+
+const formatPlaces = (band: PointsBand) =>
+    band.fromPlace === band.toPlace ? `${band.fromPlace}.` : `${band.fromPlace}.-${band.toPlace}.`;
+
+interface PointsTableProps {
+    title: string;
+    bands: PointsBand[];
+    onChange?: (bands: PointsBand[]) => void;
+}
+
+// Points per finishing place. Read-only unless onChange is given.
+export const PointsTable: React.FC<PointsTableProps> = ({ title, bands, onChange }) => {
+    const updateBand = (index: number, field: keyof PointsBand, value: string) => {
+        const parsed = parseFloat(value);
+        onChange?.(bands.map((band, i) => (i === index ? { ...band, [field]: isNaN(parsed) ? 0 : parsed } : band)));
+    };
+
+    const addBand = () => {
+        const nextPlace = (bands[bands.length - 1]?.toPlace ?? 0) + 1;
+        onChange?.([...bands, { fromPlace: nextPlace, toPlace: nextPlace, points: 0 }]);
+    };
+
+    const inputClass = "w-16 bg-gray-600 text-white border border-gray-500 rounded-md px-2 py-0.5 focus:outline-none focus:ring-1 focus:ring-yellow-500";
+
+    return (
+        <div className="w-full">
+            <h3 className="text-lg font-bold text-blue-300 mb-3 text-center">{title}</h3>
+            <table className="w-full text-sm text-left text-gray-300 bg-gray-700/50 rounded-lg overflow-hidden">
+                <thead className="bg-gray-700 text-xs text-gray-400 uppercase">
+                    <tr>
+                        <th scope="col" className="px-4 py-2">Koht</th>
+                        <th scope="col" className="px-4 py-2 text-right">Punktid</th>
+                        {onChange && <th scope="col" className="w-8"></th>}
+                    </tr>
+                </thead>
+                <tbody>
+                    {bands.map((band, index) => (
+                        <tr key={index} className="border-b border-gray-700">
+                            {onChange ? (
+                                <>
+                                    <td className="px-4 py-1">
+                                        <input type="number" min="1" value={band.fromPlace} onChange={(e) => updateBand(index, 'fromPlace', e.target.value)} className={inputClass} aria-label="Koht alates" />
+                                        <span className="mx-1">–</span>
+                                        <input type="number" min="1" value={band.toPlace} onChange={(e) => updateBand(index, 'toPlace', e.target.value)} className={inputClass} aria-label="Koht kuni" />
+                                    </td>
+                                    <td className="px-4 py-1 text-right">
+                                        <input type="number" min="0" step="0.25" value={band.points} onChange={(e) => updateBand(index, 'points', e.target.value)} className={`${inputClass} text-right text-yellow-400 font-semibold`} aria-label="Punktid" />
+                                    </td>
+                                    <td className="px-2 py-1 text-center">
+                                        <button
+                                            onClick={() => onChange(bands.filter((_, i) => i !== index))}
+                                            className="text-red-500 hover:text-red-400 font-bold"
+                                            title="Eemalda rida"
+                                        >
+                                            ×
+                                        </button>
+                                    </td>
+                                </>
+                            ) : (
+                                <>
+                                    <td className="px-4 py-1 font-medium">{formatPlaces(band)}</td>
+                                    <td className="px-4 py-1 text-right font-semibold text-yellow-400">{band.points}</td>
+                                </>
+                            )}
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+            {onChange && (
+                <button onClick={addBand} className="mt-2 text-sm text-blue-400 hover:text-blue-300">
+                    + Lisa rida
+                </button>
+            )}
+        </div>
+    );
+};
+
+interface PointsSchemeEditorProps {
+    scheme: PointsScheme;
+    onChange: (scheme: PointsScheme) => void;
+}
+
+// Preset picker plus editable tables. Edits are kept as a draft until they form a valid scheme.
+const PointsSchemeEditor: React.FC<PointsSchemeEditorProps> = ({ scheme, onChange }) => {
+    const [draft, setDraft] = useState<PointsScheme>(scheme);
+    const error = validatePointsScheme(draft);
+
+    const updateDraft = (next: PointsScheme) => {
+        setDraft(next);
+        if (!validatePointsScheme(next)) onChange(next);
+    };
+
+    const selectPreset = (name: string) => {
+        const preset = POINTS_SCHEME_PRESETS.find(p => p.name === name);
+        if (preset) updateDraft(preset);
+    };
+
+    return (
+        <div>
+            <div className="flex items-center justify-center gap-3 mb-6">
+                <label htmlFor="points-preset" className="text-gray-400">Punktisüsteem</label>
+                <select
+                    id="points-preset"
+                    value={draft.name}
+                    onChange={(e) => selectPreset(e.target.value)}
+                    className="bg-gray-700 text-white border border-gray-600 rounded-md px-3 py-1 focus:outline-none focus:ring-1 focus:ring-yellow-500"
+                >
+                    {POINTS_SCHEME_PRESETS.map(preset => (
+                        <option key={preset.name} value={preset.name}>{preset.name}</option>
+                    ))}
+                    {!POINTS_SCHEME_PRESETS.some(p => p.name === draft.name) && (
+                        <option value={draft.name}>{draft.name}</option>
+                    )}
+                </select>
+            </div>
+            {error && <p className="text-red-400 text-sm text-center mb-4">{error}</p>}
+            <div className="flex flex-col md:flex-row gap-8">
+                <PointsTable
+                    title="Kvalifikatsiooni punktid"
+                    bands={draft.qualification}
+                    onChange={(bands) => updateDraft({ ...draft, name: CUSTOM_SCHEME_NAME, qualification: bands })}
+                />
+                <PointsTable
+                    title="Põhivõistluse punktid"
+                    bands={draft.mainEvent}
+                    onChange={(bands) => updateDraft({ ...draft, name: CUSTOM_SCHEME_NAME, mainEvent: bands })}
+                />
+            </div>
+        </div>
+    );
+};
+
+export default PointsSchemeEditor;
@@ -0,0 +1,71 @@
+import React from 'react';
+import type { DriverProfile } from '../types';
+import { CAR_NUMBER_MAX, COUNTRIES, PROFILE_TEXT_MAX_LENGTH, SOCIAL_HANDLE_MAX_LENGTH } from '../constants';
+
+interface ProfileFieldsProps {
+  profile: DriverProfile;
+  onChange: (profile: DriverProfile) => void;
+  hasError?: boolean;
+}
+
+const inputClass = 'w-full bg-gray-700 text-white placeholder-gray-400 border rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-yellow-500';
+
+// Inputs of a driver profile, on the registration page and in the admin's participant editor.
+// Every field can be left empty.
+const ProfileFields: React.FC<ProfileFieldsProps> = ({ profile, onChange, hasError = false }) => {
+  const border = hasError ? 'border-red-500' : 'border-gray-600';
+  const set = (fields: Partial<DriverProfile>) => onChange({ ...profile, ...fields });
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-left">
+      <input
+        type="number"
+        value={profile.carNumber ?? ''}
+        onChange={e => set({ carNumber: e.target.value === '' ? null : Number(e.target.value) })}
+        placeholder="Võistlusnumber"
+        aria-label="Võistlusnumber"
+        min={1}
+        max={CAR_NUMBER_MAX}
+        className={`${inputClass} ${border}`}
+      />
+      <select
+        value={profile.nationality}
+        onChange={e => set({ nationality: e.target.value })}
+        aria-label="Riik"
+        className={`${inputClass} ${border}`}
+      >
+        <option value="">Riik</option>
+        {COUNTRIES.map(c => <option key={c.code} value={c.code}>{c.name}</option>)}
+      </select>
+      <input
+        type="text"
+        value={profile.car}
+        onChange={e => set({ car: e.target.value })}
+        placeholder="Auto, nt Nissan 200SX"
+        aria-label="Auto"
+        maxLength={PROFILE_TEXT_MAX_LENGTH}
+        className={`${inputClass} ${border}`}
+      />
+      <input
+        type="text"
+        value={profile.team}
+        onChange={e => set({ team: e.target.value })}
+        placeholder="Tiim"
+        aria-label="Tiim"
+        maxLength={PROFILE_TEXT_MAX_LENGTH}
+        className={`${inputClass} ${border}`}
+      />
+      <input
+        type="text"
+        value={profile.social}
+        onChange={e => set({ social: e.target.value })}
+        placeholder="Sotsiaalmeedia, nt @kasutaja"
+        aria-label="Sotsiaalmeedia kasutajanimi"
+        maxLength={SOCIAL_HANDLE_MAX_LENGTH + 1}
+        className={`${inputClass} ${border} sm:col-span-2`}
+      />
+    </div>
+  );
+};
+
+export default ProfileFields;
@@ -0,0 +1,96 @@
+import React, { useMemo } from 'react';
+import type { Participant, QualificationRule } from '../types';
+import { getQualificationCut, getRunScores, getRunStatuses } from '../engine/seeding';
+import DriverName from './DriverName';
+import RunStatusBadge from './RunStatusBadge';
+
+interface QualificationRankingProps {
+  participants: Participant[];
+  bracketSize: number;
+  qualificationRule: QualificationRule;
+}
+
+// Every run of a driver, the counting one highlighted and runs with a status labelled.
+// Nothing is shown for single-run qualifying unless the run has a status.
+const RunScores: React.FC<{ participant: Participant; rule: QualificationRule }> = ({ participant, rule }) => {
+  const runs = getRunScores(participant, rule);
+  const statuses = getRunStatuses(participant, rule);
+  if (rule.runCount < 2 && !statuses[0]) return null;
+  const bestIndex = runs.indexOf(participant.score);
+  return (
+    <span className="flex items-center gap-2 text-sm text-gray-400">
+      {runs.map((run, i) => {
+        const status = statuses[i];
+        return status ? (
+          <RunStatusBadge key={i} status={status} />
+        ) : (
+          <span key={i} className={i === bestIndex ? 'text-gray-200 font-semibold' : ''} title={`${i + 1}. sõit`}>
+            {run ?? '–'}
+          </span>
+        );
+      })}
+    </span>
+  );
+};
+
+// Qualification order with the bracket cut line. Used by the admin qualification view and
+// the live results page, so both show the same drivers in and on the bubble.
+const QualificationRanking: React.FC<QualificationRankingProps> = ({ participants, bracketSize, qualificationRule }) => {
+  const cut = useMemo(
+    () => getQualificationCut(participants, bracketSize, qualificationRule),
+    [participants, bracketSize, qualificationRule]
+  );
+  const unranked = useMemo(() => {
+    const rankedIds = new Set(cut.map(entry => entry.participant.id));
+    return participants.filter(p => p.score !== null && !rankedIds.has(p.id));
+  }, [participants, cut]);
+
+  if (cut.length === 0 && unranked.length === 0) {
+    return <p className="text-center text-gray-500 py-8">Kvalifikatsioon pole veel alanud või tulemusi pole sisestatud.</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {cut.map(({ participant, rank, isQualified, isOnBubble }) => (
+        <React.Fragment key={participant.id}>
+          <div
+            className={`flex items-center justify-between gap-4 p-3 rounded-md ${
+              isOnBubble ? 'bg-yellow-900/30 border border-yellow-700/60' : isQualified ? 'bg-gray-700' : 'bg-gray-700/40 text-gray-400'
+            }`}
+          >
+            <div className="flex items-center gap-4">
+              <span className="font-bold text-lg w-8 text-center">{rank}.</span>
+              <DriverName name={participant.name} profile={participant.profile} showDetails className="font-semibold text-lg" />
+              {isOnBubble && <span className="text-xs font-bold uppercase text-yellow-400">Mullil</span>}
+            </div>
+            <div className="flex items-center gap-4">
+              <RunScores participant={participant} rule={qualificationRule} />
+              <span className={`font-bold text-xl ${isQualified ? 'text-yellow-400' : 'text-gray-400'}`}>{participant.score}</span>
+            </div>
+          </div>
+          {rank === bracketSize && cut.length > bracketSize && (
+            <div className="flex items-center gap-3 py-1" aria-label="Tabeli piir">
+              <div className="flex-grow border-t-2 border-dashed border-red-500"></div>
+              <span className="text-xs font-bold uppercase text-red-400">Top {bracketSize} piir</span>
+              <div className="flex-grow border-t-2 border-dashed border-red-500"></div>
+            </div>
+          )}
+        </React.Fragment>
+      ))}
+      {unranked.map(p => (
+        <div key={p.id} className="flex items-center justify-between gap-4 p-3 rounded-md bg-gray-700/40 text-gray-500">
+          <div className="flex items-center gap-4">
+            <span className="font-bold text-lg w-8 text-center">–</span>
+            <DriverName name={p.name} profile={p.profile} showDetails className="font-semibold text-lg" />
+          </div>
+          <div className="flex items-center gap-4">
+            <RunScores participant={p} rule={qualificationRule} />
+            <span className="font-bold text-xl">{p.score}</span>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default QualificationRanking;
@@ -1,32 +1,86 @@
-import React, { useMemo } from 'react';
-import type { Participant } from '../types';
-import { MIN_PARTICIPANTS } from '../constants';
+import React, { useMemo, useState } from 'react';
+import type { BracketFormat, Participant, QualificationRule, RunStatus } from '../types';
+import { BRACKET_SIZE_OPTIONS, MIN_PARTICIPANTS, QUALIFICATION_RUN_OPTIONS, QUALIFICATION_TIEBREAK_OPTIONS, RUN_STATUSES } from '../constants';
+import { getRunScores, getRunStatuses } from '../engine/seeding';
+import DriverName from './DriverName';
+import QualificationRanking from './QualificationRanking';
 
+// Actions the current role may not run are left out, which disables their inputs or hides
+// their buttons
 interface QualificationViewProps {
   participants: Participant[];
-  setParticipants: React.Dispatch<React.SetStateAction<Participant[]>>;
-  onStartBracket: (participants: Participant[]) => void;
+  onSetRunScore?: (participantId: number, runIndex: number, score: number | null) => void;
+  onSetRunStatus?: (participantId: number, runIndex: number, status: RunStatus | null) => void;
+  qualificationRule: QualificationRule;
+  onSetQualificationRule?: (rule: QualificationRule) => void;
+  bracketSize: number;
+  onSetBracketSize?: (size: number) => void;
+  bracketFormat: BracketFormat;
+  onSetBracketFormat?: (format: BracketFormat) => void;
+  grandFinalReset: boolean;
+  onSetGrandFinalReset?: (enabled: boolean) => void;
+  onStartBracket?: (participants: Participant[]) => void;
 }
 
+// A run's score input. What is typed stays a local draft and is saved once on blur or Enter, so
+// a slow save cannot overwrite digits typed after it and each entered score is one undo step.
+// Escape drops the draft.
+const RunScoreInput: React.FC<{
+  score: number | null;
+  placeholder: string;
+  label: string;
+  disabled: boolean;
+  onSave: (score: number | null) => void;
+}> = ({ score, placeholder, label, disabled, onSave }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const commit = () => {
+    if (draft === null) return;
+    setDraft(null);
+    const parsed = parseFloat(draft);
+    const next = draft && !isNaN(parsed) ? parsed : null;
+    if (next !== score) onSave(next);
+  };
+
+  return (
+    <input
+      type="number"
+      step="0.01"
+      placeholder={placeholder}
+      value={draft ?? (score === null ? '' : score)}
+      disabled={disabled}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') commit();
+        if (e.key === 'Escape') setDraft(null);
+      }}
+      className="w-28 bg-gray-600 text-white placeholder-gray-400 border border-gray-500 rounded-l-md px-3 py-1 disabled:opacity-50 focus:outline-none focus:ring-1 focus:ring-blue-500"
+      aria-label={label}
+    />
+  );
+};
+
 const QualificationView: React.FC<QualificationViewProps> = ({ 
     participants, 
-    setParticipants, 
+    onSetRunScore, 
+    onSetRunStatus,
+    qualificationRule,
+    onSetQualificationRule,
+    bracketSize,
+    onSetBracketSize,
+    bracketFormat,
+    onSetBracketFormat,
+    grandFinalReset,
+    onSetGrandFinalReset,
     onStartBracket, 
 }) => {
 
-  const updateScore = (id: number, score: string) => {
-    let scoreValue: number | null = null;
-    if (score) {
-      const parsed = parseFloat(score);
-      if (!isNaN(parsed)) {
-        // Round to 2 decimal places
-        scoreValue = Math.round(parsed * 100) / 100;
-      }
-    }
-    setParticipants(prev =>
-      prev.map(p => (p.id === id ? { ...p, score: scoreValue } : p))
-    );
-  };
+  const runningOrder = useMemo(
+    () => [...participants].sort((a, b) => (a.runOrder ?? 0) - (b.runOrder ?? 0) || a.name.localeCompare(b.name)),
+    [participants]
+  );
+  const tiebreakKey = qualificationRule.tiebreakers.join(',');
 
   const qualifiedCount = useMemo(() => {
     return participants.filter(p => p.score !== null && p.score > 0).length;
@@ -38,35 +92,134 @@ const QualificationView: React.FC<QualificationViewProps> = ({
     <div className="max-w-4xl mx-auto bg-gray-800 p-6 rounded-lg shadow-xl">
       <div className="flex justify-between items-center mb-4 flex-wrap gap-4">
         <h2 className="text-2xl font-bold text-blue-300">Kvalifikatsioon</h2>
+        <div className="flex items-center gap-4 flex-wrap">
+        <label className="flex items-center gap-2 text-gray-400">
+          Sõite
+          <select
+            value={qualificationRule.runCount}
+            onChange={(e) => onSetQualificationRule?.({ ...qualificationRule, runCount: parseInt(e.target.value, 10) })}
+            disabled={!onSetQualificationRule}
+            className="bg-gray-700 text-white border border-gray-600 rounded-md px-3 py-1 focus:outline-none focus:ring-1 focus:ring-blue-500"
+          >
+            {QUALIFICATION_RUN_OPTIONS.map(count => (
+              <option key={count} value={count}>{count}</option>
+            ))}
+          </select>
+        </label>
+        {qualificationRule.runCount > 1 && (
+          <label className="flex items-center gap-2 text-gray-400">
+            Viigi korral
+            <select
+              value={tiebreakKey}
+              onChange={(e) => {
+                const option = QUALIFICATION_TIEBREAK_OPTIONS.find(o => o.tiebreakers.join(',') === e.target.value);
+                if (option) onSetQualificationRule?.({ ...qualificationRule, tiebreakers: option.tiebreakers });
+              }}
+              disabled={!onSetQualificationRule}
+              className="bg-gray-700 text-white border border-gray-600 rounded-md px-3 py-1 focus:outline-none focus:ring-1 focus:ring-blue-500"
+            >
+              {QUALIFICATION_TIEBREAK_OPTIONS.map(option => (
+                <option key={option.label} value={option.tiebreakers.join(',')}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+        )}
+        <label className="flex items-center gap-2 text-gray-400">
+          Formaat
+          <select
+            value={bracketFormat}
+            onChange={(e) => onSetBracketFormat?.(e.target.value as BracketFormat)}
+            disabled={!onSetBracketFormat}
+            className="bg-gray-700 text-white border border-gray-600 rounded-md px-3 py-1 focus:outline-none focus:ring-1 focus:ring-blue-500"
+          >
+            <option value="SINGLE_ELIMINATION">Ühekordne väljalangemine</option>
+            <option value="DOUBLE_ELIMINATION">Topeltväljalangemine</option>
+          </select>
+        </label>
+        {bracketFormat === 'DOUBLE_ELIMINATION' && (
+          <label className="flex items-center gap-2 text-gray-400" title="Kui alumise tabeli võitja võidab suurfinaali, sõidetakse otsustav teine finaal">
+            <input
+              type="checkbox"
+              checked={grandFinalReset}
+              onChange={(e) => onSetGrandFinalReset?.(e.target.checked)}
+              disabled={!onSetGrandFinalReset}
+              className="accent-blue-500"
+            />
+            Suurfinaali lähtestus
+          </label>
+        )}
+        <label className="flex items-center gap-2 text-gray-400">
+          Tabeli suurus
+          <select
+            value={bracketSize}
+            onChange={(e) => onSetBracketSize?.(parseInt(e.target.value, 10))}
+            disabled={!onSetBracketSize}
+            className="bg-gray-700 text-white border border-gray-600 rounded-md px-3 py-1 focus:outline-none focus:ring-1 focus:ring-blue-500"
+          >
+            {BRACKET_SIZE_OPTIONS.map(size => (
+              <option key={size} value={size}>Top {size}</option>
+            ))}
+          </select>
+        </label>
+        </div>
       </div>
       
-      <p className="mb-6 text-gray-400">Sisesta selle võistluse kvalifikatsiooni tulemused. Uusi osalejaid saab sarja lisada edetabeli vaates.</p>
+      <p className="mb-6 text-gray-400">Sisesta selle võistluse kvalifikatsiooni tulemused stardijärjekorras. Arvesse läheb parim sõit; DNS, DNF ja nullsõit annavad 0 punkti ning DSQ kõrvaldab sõitja kvalifikatsioonist. Uusi osalejaid saab sarja lisada edetabeli vaates.</p>
 
       <div className="space-y-3 max-h-96 overflow-y-auto pr-2">
         {participants.length === 0 && (
           <p className="text-center text-gray-500 py-8">Osalejaid pole veel. Lisa neid edetabeli vaates.</p>
         )}
-        {participants.sort((a,b) => a.name.localeCompare(b.name)).map((p) => {
+        {runningOrder.map((p) => {
           const isMissingScore = p.score === null;
+          const statuses = getRunStatuses(p, qualificationRule);
           return (
             <div key={p.id} className={`flex items-center gap-4 p-3 rounded-md transition-colors duration-300 ${isMissingScore ? 'bg-red-900/50' : 'bg-gray-700'}`}>
-              <span className="flex-grow font-semibold text-lg">{p.name}</span>
-              <input
-                type="number"
-                step="0.01"
-                placeholder="Tulemus"
-                value={p.score === null ? '' : p.score}
-                onChange={(e) => updateScore(p.id, e.target.value)}
-                className="w-32 bg-gray-600 text-white placeholder-gray-400 border border-gray-500 rounded-md px-3 py-1 focus:outline-none focus:ring-1 focus:ring-blue-500"
-              />
+              <span className="w-8 text-sm text-gray-400">{p.runOrder ? `#${p.runOrder}` : ''}</span>
+              <span className="flex-grow min-w-0"><DriverName name={p.name} profile={p.profile} showDetails className="font-semibold text-lg" /></span>
+              {getRunScores(p, qualificationRule).map((run, runIndex) => (
+                <div key={runIndex} className="flex">
+                  <RunScoreInput
+                    score={run}
+                    placeholder={`${runIndex + 1}. sõit`}
+                    label={`${p.name} ${runIndex + 1}. sõit`}
+                    disabled={!onSetRunScore || statuses[runIndex] !== null}
+                    onSave={(score) => onSetRunScore?.(p.id, runIndex, score)}
+                  />
+                  <select
+                    value={statuses[runIndex] ?? ''}
+                    onChange={(e) => onSetRunStatus?.(p.id, runIndex, (e.target.value || null) as RunStatus | null)}
+                    disabled={!onSetRunStatus}
+                    className="bg-gray-600 text-white border border-l-0 border-gray-500 rounded-r-md px-1 py-1 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                    aria-label={`${p.name} ${runIndex + 1}. sõidu staatus`}
+                  >
+                    <option value="">–</option>
+                    {RUN_STATUSES.map(({ status, short, label }) => (
+                      <option key={status} value={status} title={label}>{short}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
             </div>
           );
         })}
       </div>
 
+      {qualifiedCount > 0 && (
+        <div className="mt-8">
+          <h3 className="text-lg font-bold text-blue-300 mb-3">Paremusjärjestus</h3>
+          <div className="max-h-96 overflow-y-auto pr-2">
+            <QualificationRanking participants={participants} bracketSize={bracketSize} qualificationRule={qualificationRule} />
+          </div>
+        </div>
+      )}
+
       <div className="mt-8 text-center">
         <p className="mb-4 text-lg">
           <span className={`font-bold ${canStart ? 'text-green-400' : 'text-yellow-400'}`}>{qualifiedCount}</span> osalejal on tulemus suurem kui 0.
+          {qualifiedCount > bracketSize && (
+            <span className="block text-sm text-gray-400 mt-1">Tabelisse pääsevad {bracketSize} paremat, ülejäänud saavad kvalifikatsiooni punktid.</span>
+          )}
         </p>
         {!canStart && (
           <div className="bg-yellow-900/30 border border-yellow-700 text-yellow-300 px-4 py-3 rounded-md mb-4 text-left">
@@ -77,13 +230,15 @@ const QualificationView: React.FC<QualificationViewProps> = ({
             </p>
           </div>
         )}
-        <button
-          onClick={() => onStartBracket(participants)}
-          disabled={!canStart}
-          className="bg-green-600 hover:bg-green-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-bold py-3 px-8 rounded-lg text-xl transition duration-300 shadow-lg"
-        >
-          Genereeri tabel
-        </button>
+        {onStartBracket && (
+          <button
+            onClick={() => onStartBracket(participants)}
+            disabled={!canStart}
+            className="bg-green-600 hover:bg-green-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-bold py-3 px-8 rounded-lg text-xl transition duration-300 shadow-lg"
+          >
+            Genereeri tabel
+          </button>
+        )}
       </div>
     </div>
   );
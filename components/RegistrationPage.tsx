@@ -1,18 +1,105 @@
-import React, { useState, useEffect } from 'react';
-import { useMutation } from "convex/react";
+import React, { useState, useEffect, useRef } from 'react';
+import { useMutation, useQuery } from "convex/react";
+import { ConvexError } from "convex/values";
 import { api } from "../convex/_generated/api";
+import type { RegistrationError } from "../convex/registrations";
+import { EMPTY_DRIVER_PROFILE, NAME_MAX_LENGTH, REGISTRATION_CLOSED_MESSAGES } from '../constants';
+import { validateProfile } from '../engine/profile';
+import { getRegistrationClosedReason, validateName } from '../engine/registration';
+import ProfileFields from './ProfileFields';
 
 interface RegistrationPageProps {
   sessionId: string;
 }
 
+// The registration is remembered on the device, so the registrant can close the page and come
+// back to see whether it went through, and to check in on competition day
+const storageKey = (sessionId: string) => `dmec-registration-${sessionId}`;
+
+const loadRegistration = (sessionId: string) => {
+  try {
+    return localStorage.getItem(storageKey(sessionId));
+  } catch {
+    return null;
+  }
+};
+
+const saveRegistration = (sessionId: string, registrationId: string | null) => {
+  try {
+    if (registrationId) localStorage.setItem(storageKey(sessionId), registrationId);
+    else localStorage.removeItem(storageKey(sessionId));
+  } catch (e) {
+    console.error("Failed to remember registration:", e);
+  }
+};
+
+const isRegistrationError = (e: unknown): e is ConvexError<RegistrationError> =>
+  e instanceof ConvexError && (e.data as RegistrationError | undefined)?.kind === 'REGISTRATION_ERROR';
+
 const RegistrationPage: React.FC<RegistrationPageProps> = ({ sessionId }) => {
   const [name, setName] = useState('');
+  const [profile, setProfile] = useState(EMPTY_DRIVER_PROFILE);
   const [isRegistered, setIsRegistered] = useState(false);
+  // Errors about the name and the profile, shown by their fields, and about the registration as a whole
+  const [nameError, setNameError] = useState('');
+  const [profileError, setProfileError] = useState('');
   const [error, setError] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
+  // The registrant's registration, followed live while waiting for an admin and during check-in
+  const [registrationId, setRegistrationId] = useState(() => loadRegistration(sessionId));
+  const [now, setNow] = useState(Date.now);
 
   const registerParticipant = useMutation(api.sessions.registerParticipant);
+  const checkIn = useMutation(api.registrations.checkIn);
+  const registration = useQuery(
+    api.registrations.getRegistration,
+    registrationId ? { sessionId, registrationId } : "skip"
+  );
+  const lastStatus = useRef(registration?.status);
+  const info = useQuery(api.registrations.getRegistrationInfo, { sessionId });
+  const closedReason = info ? getRegistrationClosedReason(info.settings, info.phase, now) : null;
+
+  // Opening and closing times pass without the server telling, so follow the clock while set
+  const hasSchedule = !!info && (info.settings.opensAt !== null || info.settings.closesAt !== null);
+  useEffect(() => {
+    if (!hasSchedule) return;
+    const timer = setInterval(() => setNow(Date.now()), 15000);
+    return () => clearInterval(timer);
+  }, [hasSchedule]);
+
+  useEffect(() => {
+    if (!registrationId || registration === undefined) return;
+    if (registration === null) {
+      // Gone, e.g. the session was deleted
+      setRegistrationId(null);
+      saveRegistration(sessionId, null);
+      return;
+    }
+    // Celebrate an approval that comes in while the page is open, not every later visit
+    const wasQueued = lastStatus.current === 'PENDING' || lastStatus.current === 'WAITLISTED';
+    if (wasQueued && (registration.status === 'APPROVED' || registration.status === 'MERGED')) {
+      setIsRegistered(true);
+    }
+    lastStatus.current = registration.status;
+  }, [registrationId, registration, sessionId]);
+
+  const handleRegisterAgain = () => {
+    saveRegistration(sessionId, null);
+    setRegistrationId(null);
+    setName('');
+    setProfile(EMPTY_DRIVER_PROFILE);
+  };
+
+  const handleCheckIn = async (present: boolean) => {
+    if (!registrationId) return;
+    setError('');
+    try {
+      await checkIn({ sessionId, registrationId, present });
+    } catch (err) {
+      console.error("Check-in failed:", err);
+      setError('Kohaloleku märkimine ebaõnnestus. Proovi uuesti.');
+    }
+  };
 
   useEffect(() => {
     if (isRegistered) {
@@ -30,21 +117,36 @@ const RegistrationPage: React.FC<RegistrationPageProps> = ({ sessionId }) => {
       return;
     }
     setError('');
+    // The server checks the name and profile by the same rules; checking here saves a round trip
+    const validationError = validateName(name);
+    const profileValidationError = validateProfile(profile);
+    setNameError(validationError ? `${validationError}.` : '');
+    setProfileError(profileValidationError ? `${profileValidationError}.` : '');
+    if (validationError || profileValidationError) {
+      return;
+    }
     setIsSubmitting(true);
 
     try {
-      await registerParticipant({
+      const result = await registerParticipant({
         sessionId,
-        name: name.trim(),
+        name,
+        profile,
       });
-      setIsRegistered(true);
+      saveRegistration(sessionId, result.registrationId);
+      lastStatus.current = result.status;
+      setRegistrationId(result.registrationId);
+      if (result.status === 'PENDING' || result.status === 'WAITLISTED') {
+        setIsSubmitting(false);
+      } else {
+        setIsRegistered(true);
+      }
     } catch (err: any) {
       console.error("Registration failed:", err);
-      // Handle specific error messages from Convex
-      if (err.message?.includes('juba registreeritud') || err.message?.includes('juba olemas')) {
-        setError('See nimi on juba registreeritud. Proovi teist nime.');
-      } else if (err.message?.includes('not found')) {
-        setError('Võistlust ei leitud. Kontrolli linki ja proovi uuesti.');
+      if (isRegistrationError(err)) {
+        if (err.data.field === 'name') setNameError(`${err.data.message}. Proovi teist nime.`);
+        else if (err.data.field === 'profile') setProfileError(`${err.data.message}.`);
+        else setError(`${err.data.message}.`);
       } else {
         setError('Registreerimine ebaõnnestus. Proovi uuesti.');
       }
@@ -75,25 +177,144 @@ const RegistrationPage: React.FC<RegistrationPageProps> = ({ sessionId }) => {
               className="mx-auto h-24 w-24 leks-success rounded-full"
             />
             <h1 className="text-3xl font-bold text-white mt-4">Edukalt registreeritud!</h1>
-            <p className="text-gray-400 mt-2">Sinu nimi on lisatud võistluse nimekirja. Sind suunatakse tulemuste lehele 3 sekundi pärast...</p>
+            <p className="text-gray-400 mt-2">
+              {registration?.status === 'MERGED' && registration.mergedIntoName
+                ? `Sinu registreerimine liideti osalejaga ${registration.mergedIntoName}.`
+                : 'Sinu nimi on lisatud võistluse nimekirja.'}
+              {' '}Sind suunatakse tulemuste lehele 3 sekundi pärast...
+            </p>
+          </div>
+        ) : registration && registration.checkedIn !== null ? (
+          <div>
+            <h1 className="text-3xl font-bold text-yellow-300 mb-2">Kohalolek</h1>
+            <p className="text-gray-400">
+              {registration.mergedIntoName ?? registration.name}, võistluspäev on alanud. Märgi, kas oled kohal.
+              Kvalifikatsioonis sõidavad ainult kohalolevaks märgitud sõitjad.
+            </p>
+            <p className={`text-2xl font-bold my-6 ${registration.checkedIn ? 'text-green-400' : 'text-gray-500'}`}>
+              {registration.checkedIn ? 'Oled kohal' : 'Ei ole kohalolevaks märgitud'}
+            </p>
+            {registration.checkedIn ? (
+              <button
+                onClick={() => handleCheckIn(false)}
+                className="bg-gray-600 hover:bg-gray-500 text-gray-200 font-bold py-2 px-6 rounded-md"
+              >
+                Ma ei tule
+              </button>
+            ) : (
+              <button
+                onClick={() => handleCheckIn(true)}
+                className="w-full bg-green-600 hover:bg-green-700 text-white font-bold py-3 px-8 rounded-lg text-xl transition duration-300 shadow-lg"
+              >
+                Olen kohal
+              </button>
+            )}
+            {error && <p className="text-red-400 mt-2 text-sm">{error}</p>}
+          </div>
+        ) : registration?.status === 'PENDING' ? (
+          <div>
+            <div className="mx-auto h-16 w-16 rounded-full border-4 border-yellow-500 border-t-transparent animate-spin" aria-hidden="true" />
+            <h1 className="text-3xl font-bold text-white mt-4">Ootab kinnitamist</h1>
+            <p className="text-gray-400 mt-2">
+              {registration.name}, sinu registreerimine on vastu võetud ja ootab korraldaja kinnitust.
+              See leht uueneb ise, kui otsus on tehtud.
+            </p>
+          </div>
+        ) : registration?.status === 'REJECTED' ? (
+          <div>
+            <h1 className="text-3xl font-bold text-red-400">Registreerimine lükati tagasi</h1>
+            <p className="text-gray-400 mt-2">
+              Korraldaja ei kinnitanud registreerimist nimega {registration.name}. Küsimuste korral pöördu korraldaja poole.
+            </p>
+            <button
+              onClick={handleRegisterAgain}
+              className="mt-6 bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-6 rounded-md"
+            >
+              Registreeri uuesti
+            </button>
+          </div>
+        ) : registration?.status === 'WAITLISTED' ? (
+          <div>
+            <h1 className="text-3xl font-bold text-white">Oled ootenimekirjas</h1>
+            <p className="text-5xl font-bold text-yellow-300 my-6">{registration.waitlistPosition}.</p>
+            <p className="text-gray-400">
+              {registration.name}, võistlus on täis ja oled ootenimekirjas {registration.waitlistPosition}. kohal.
+              Kui koht vabaneb ja korraldaja sind lisab, uueneb see leht ise.
+            </p>
+          </div>
+        ) : registration?.status === 'APPROVED' || registration?.status === 'MERGED' ? (
+          <div>
+            <h1 className="text-3xl font-bold text-white">Oled registreeritud</h1>
+            <p className="text-gray-400 mt-2">
+              {registration.mergedIntoName ?? registration.name}, oled võistluse nimekirjas. Võistluspäeval saad siin end kohalolevaks märkida.
+            </p>
+            <a
+              href={`${window.location.origin}${window.location.pathname}?live=${sessionId}`}
+              className="inline-block mt-6 bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-6 rounded-md"
+            >
+              Vaata tulemusi
+            </a>
+            <button onClick={handleRegisterAgain} className="block mx-auto mt-4 text-sm text-gray-400 hover:text-white underline">
+              Registreeri keegi teine
+            </button>
+          </div>
+        ) : (registrationId && registration === undefined) || info === undefined ? (
+          <p className="text-gray-400">Laen registreerimist...</p>
+        ) : info === null ? (
+          <p className="text-gray-400">Võistlust ei leitud. Kontrolli linki ja proovi uuesti.</p>
+        ) : closedReason ? (
+          <div>
+            <h1 className="text-3xl font-bold text-yellow-300 mb-2">{REGISTRATION_CLOSED_MESSAGES[closedReason]}</h1>
+            {closedReason === 'NOT_OPEN_YET' && info.settings.opensAt !== null && (
+              <p className="text-gray-400 mt-2">
+                Registreerimine avaneb {new Date(info.settings.opensAt).toLocaleString('et-EE')}. See leht avaneb siis ise.
+              </p>
+            )}
+            {closedReason === 'ENDED' && info.settings.closesAt !== null && (
+              <p className="text-gray-400 mt-2">Registreerimine sulgus {new Date(info.settings.closesAt).toLocaleString('et-EE')}.</p>
+            )}
           </div>
         ) : (
           <>
             <h1 className="text-3xl font-bold text-yellow-300 mb-2">Võistlusele registreerimine</h1>
-            <p className="text-gray-400 mb-8">Sisesta oma nimi, et osalejate nimekirjaga liituda.</p>
+            <p className="text-gray-400 mb-8">
+              Sisesta oma nimi, et osalejate nimekirjaga liituda.
+              {info.settings.closesAt !== null && ` Registreerimine sulgub ${new Date(info.settings.closesAt).toLocaleString('et-EE')}.`}
+            </p>
+            {info.isFull && (
+              <p className="mb-6 bg-yellow-900/40 border border-yellow-700 text-yellow-200 px-4 py-2 rounded-md text-sm">
+                Võistlus on täis. Registreerudes lisatakse sind ootenimekirja.
+              </p>
+            )}
             <form onSubmit={handleSubmit}>
               <input
                 type="text"
                 value={name}
                 onChange={(e) => {
                   setName(e.target.value);
+                  setNameError('');
                   setError('');
                 }}
                 placeholder="Sinu nimi"
-                className="w-full bg-gray-700 text-white placeholder-gray-400 border border-gray-600 rounded-md px-4 py-3 text-lg focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                maxLength={NAME_MAX_LENGTH}
+                className={`w-full bg-gray-700 text-white placeholder-gray-400 border rounded-md px-4 py-3 text-lg focus:outline-none focus:ring-2 focus:ring-yellow-500 ${nameError ? 'border-red-500' : 'border-gray-600'}`}
                 aria-label="Participant Name"
+                aria-invalid={!!nameError}
+                aria-describedby={nameError ? 'name-error' : undefined}
                 autoFocus
               />
+              {nameError && <p id="name-error" className="text-red-400 mt-2 text-sm text-left">{nameError}</p>}
+              <p className="mt-6 mb-2 text-sm text-gray-400 text-left">Võistlusnumber, auto ja muu info (valikuline)</p>
+              <ProfileFields
+                profile={profile}
+                onChange={next => {
+                  setProfile(next);
+                  setProfileError('');
+                  setError('');
+                }}
+                hasError={!!profileError}
+              />
+              {profileError && <p className="text-red-400 mt-2 text-sm text-left">{profileError}</p>}
               {error && <p className="text-red-400 mt-2 text-sm">{error}</p>}
               <button
                 type="submit"
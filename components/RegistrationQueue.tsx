@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import type { ChampionshipStanding, PendingRegistration, RegistrationSettings } from '../types';
+import DriverName from './DriverName';
+import RegistrationSettingsPanel from './RegistrationSettingsPanel';
+
+// Actions the current role may not run are left out, which hides their controls
+interface RegistrationQueueProps {
+  registrations: PendingRegistration[];
+  // Participants a registration can be merged into
+  standings: ChampionshipStanding[];
+  settings: RegistrationSettings;
+  onSetSettings?: (settings: RegistrationSettings) => void;
+  onApprove?: (registrationId: string) => void;
+  onReject?: (registrationId: string) => void;
+  onMerge?: (registrationId: string, participantId: number) => void;
+}
+
+// Self-registrations waiting for approval or on the waitlist, and the owner's registration settings
+const RegistrationQueue: React.FC<RegistrationQueueProps> = ({
+  registrations,
+  standings,
+  settings,
+  onSetSettings,
+  onApprove,
+  onReject,
+  onMerge,
+}) => {
+  // Registration being merged, and the participant picked for it
+  const [merging, setMerging] = useState<{ registrationId: string; participantId: number | null } | null>(null);
+
+  if (!onSetSettings && registrations.length === 0) return null;
+
+  const waitlist = registrations.filter(r => r.status === 'WAITLISTED');
+
+  const handleReject = (registration: PendingRegistration) => {
+    if (window.confirm(`Kas lükata ${registration.name} registreerimine tagasi?`)) onReject?.(registration.id);
+  };
+
+  const handleMerge = () => {
+    if (!merging || merging.participantId === null) return;
+    onMerge?.(merging.registrationId, merging.participantId);
+    setMerging(null);
+  };
+
+  return (
+    <div className="my-6 p-4 bg-gray-700/50 rounded-lg border border-gray-600">
+      <div className="flex items-center justify-between gap-4 flex-wrap mb-3">
+        <h3 className="text-lg font-semibold">
+          Registreerimised
+          {registrations.length > 0 && (
+            <span className="ml-2 text-sm bg-yellow-600 text-white px-2 py-0.5 rounded-full">{registrations.length}</span>
+          )}
+        </h3>
+        {settings.capacity !== null && (
+          <span className="text-sm text-gray-400">
+            Osalejaid {standings.length} / {settings.capacity}
+          </span>
+        )}
+      </div>
+
+      {onSetSettings && <RegistrationSettingsPanel settings={settings} onChange={onSetSettings} />}
+
+      {registrations.length === 0 ? (
+        <p className="text-sm text-gray-400">
+          {settings.requireApproval ? 'Kinnitamist ootavaid registreerimisi pole.' : 'Registreerujad lisatakse otse edetabelisse.'}
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-600">
+          {registrations.map(registration => (
+            <li key={registration.id} className="py-2 flex items-center gap-3 flex-wrap">
+              <div className="flex-grow min-w-0">
+                <p className="font-semibold text-gray-200">
+                  <DriverName name={registration.name} profile={registration.profile} showDetails />
+                  {registration.status === 'WAITLISTED' && (
+                    <span className="ml-2 text-xs font-normal bg-gray-600 text-gray-200 px-2 py-0.5 rounded-full">
+                      Ootenimekirjas {waitlist.indexOf(registration) + 1}.
+                    </span>
+                  )}
+                </p>
+                <p className="text-xs text-gray-500">{new Date(registration.createdAt).toLocaleString('et-EE')}</p>
+              </div>
+              {merging?.registrationId === registration.id ? (
+                <div className="flex items-center gap-2">
+                  <select
+                    value={merging.participantId ?? ''}
+                    onChange={e => setMerging({ registrationId: registration.id, participantId: e.target.value ? Number(e.target.value) : null })}
+                    className="bg-gray-700 text-white border border-gray-600 rounded-md px-2 py-1 text-sm"
+                  >
+                    <option value="">Vali osaleja...</option>
+                    {standings.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                  </select>
+                  <button
+                    onClick={handleMerge}
+                    disabled={merging.participantId === null}
+                    className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white text-sm py-1 px-3 rounded-md"
+                  >
+                    Liida
+                  </button>
+                  <button onClick={() => setMerging(null)} className="text-sm text-gray-400 hover:text-white underline">
+                    Loobu
+                  </button>
+                </div>
+              ) : (
+                <div className="flex gap-2">
+                  {onApprove && (
+                    <button
+                      onClick={() => onApprove(registration.id)}
+                      className="bg-green-600 hover:bg-green-700 text-white text-sm py-1 px-3 rounded-md"
+                    >
+                      Kinnita
+                    </button>
+                  )}
+                  {onMerge && standings.length > 0 && (
+                    <button
+                      onClick={() => setMerging({ registrationId: registration.id, participantId: null })}
+                      className="bg-gray-600 hover:bg-gray-500 text-gray-200 text-sm py-1 px-3 rounded-md"
+                      title="Registreeruja on juba edetabelis, näiteks teise kirjapildiga"
+                    >
+                      Liida olemasolevaga
+                    </button>
+                  )}
+                  {onReject && (
+                    <button
+                      onClick={() => handleReject(registration)}
+                      className="bg-red-700 hover:bg-red-600 text-white text-sm py-1 px-3 rounded-md"
+                    >
+                      Lükka tagasi
+                    </button>
+                  )}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default RegistrationQueue;
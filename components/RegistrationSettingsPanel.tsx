@@ -0,0 +1,122 @@
+import React, { useEffect, useState } from 'react';
+import type { RegistrationSettings } from '../types';
+import { validateRegistrationSettings } from '../engine/registration';
+
+interface RegistrationSettingsPanelProps {
+  settings: RegistrationSettings;
+  onChange: (settings: RegistrationSettings) => void;
+}
+
+// datetime-local inputs work in local time without a timezone
+const toInputValue = (time: number | null) => {
+  if (time === null) return '';
+  const date = new Date(time);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+const fromInputValue = (value: string) => (value ? new Date(value).getTime() : null);
+
+// Owner's controls for when registration is open, how many it takes and whether registrations
+// need approval. Times and capacity are saved together, so a half-typed time is never applied.
+const RegistrationSettingsPanel: React.FC<RegistrationSettingsPanelProps> = ({ settings, onChange }) => {
+  const [opensAt, setOpensAt] = useState(toInputValue(settings.opensAt));
+  const [closesAt, setClosesAt] = useState(toInputValue(settings.closesAt));
+  const [capacity, setCapacity] = useState(settings.capacity?.toString() ?? '');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    setOpensAt(toInputValue(settings.opensAt));
+    setClosesAt(toInputValue(settings.closesAt));
+    setCapacity(settings.capacity?.toString() ?? '');
+  }, [settings.opensAt, settings.closesAt, settings.capacity]);
+
+  const isDirty = opensAt !== toInputValue(settings.opensAt)
+    || closesAt !== toInputValue(settings.closesAt)
+    || capacity !== (settings.capacity?.toString() ?? '');
+
+  const handleSave = () => {
+    const next = {
+      ...settings,
+      opensAt: fromInputValue(opensAt),
+      closesAt: fromInputValue(closesAt),
+      capacity: capacity.trim() ? Number(capacity) : null,
+    };
+    const validationError = validateRegistrationSettings(next);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    setError('');
+    onChange(next);
+  };
+
+  return (
+    <div className="mb-4 space-y-3 text-sm">
+      <div className="flex flex-wrap gap-x-6 gap-y-2">
+        <label className="flex items-center gap-2 text-gray-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={settings.isOpen}
+            onChange={e => onChange({ ...settings, isOpen: e.target.checked })}
+            className="h-4 w-4 accent-yellow-500"
+          />
+          Registreerimine on avatud
+        </label>
+        <label className="flex items-center gap-2 text-gray-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={settings.requireApproval}
+            onChange={e => onChange({ ...settings, requireApproval: e.target.checked })}
+            className="h-4 w-4 accent-yellow-500"
+          />
+          Registreerimised vajavad kinnitamist
+        </label>
+      </div>
+      <div className="flex flex-wrap items-end gap-3">
+        <label className="flex flex-col gap-1 text-gray-400">
+          Avaneb
+          <input
+            type="datetime-local"
+            value={opensAt}
+            onChange={e => { setOpensAt(e.target.value); setError(''); }}
+            className="bg-gray-700 text-white border border-gray-600 rounded-md px-2 py-1"
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-gray-400">
+          Sulgub
+          <input
+            type="datetime-local"
+            value={closesAt}
+            onChange={e => { setClosesAt(e.target.value); setError(''); }}
+            className="bg-gray-700 text-white border border-gray-600 rounded-md px-2 py-1"
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-gray-400">
+          Osalejate piirarv
+          <input
+            type="number"
+            min="1"
+            value={capacity}
+            onChange={e => { setCapacity(e.target.value); setError(''); }}
+            placeholder="Piiranguta"
+            className="w-28 bg-gray-700 text-white placeholder-gray-500 border border-gray-600 rounded-md px-2 py-1"
+          />
+        </label>
+        <button
+          onClick={handleSave}
+          disabled={!isDirty}
+          className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-bold py-1 px-4 rounded-md"
+        >
+          Salvesta
+        </button>
+      </div>
+      {error && <p className="text-red-400">{error}</p>}
+      <p className="text-gray-500">
+        Tühjaks jäetud aeg või piirarv tähendab, et piirangut pole. Täis välja korral lähevad uued registreerujad ootenimekirja.
+      </p>
+    </div>
+  );
+};
+
+export default RegistrationSettingsPanel;
@@ -0,0 +1,18 @@
+import React from 'react';
+import type { BattleStatusCode } from '../types';
+import { BATTLE_STATUSES } from '../constants';
+
+// Short label of a run or battle status (DNS, DNF, 0, DSQ, WD) with its description as a tooltip.
+const RunStatusBadge: React.FC<{ status: BattleStatusCode }> = ({ status }) => {
+  const info = BATTLE_STATUSES.find(s => s.status === status);
+  return (
+    <span
+      className={`text-xs font-bold px-1.5 py-0.5 rounded ${status === 'DSQ' ? 'bg-red-700 text-white' : 'bg-gray-600 text-gray-200'}`}
+      title={info?.label}
+    >
+      {info?.short ?? status}
+    </span>
+  );
+};
+
+export default RunStatusBadge;
@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import type { RoundDetails, RoundStatus, SeasonRound } from '../types';
+import { ROUND_STATUSES } from '../constants';
+import { formatRoundDate, validateRoundDetails } from '../engine/rounds';
+
+// Owner only; left out, the calendar is read-only
+interface SeasonCalendarProps {
+  rounds: SeasonRound[];
+  onSetRound?: (roundIndex: number, details: RoundDetails) => void;
+  onSetRoundCancelled?: (roundIndex: number, cancelled: boolean) => void;
+}
+
+const STATUS_STYLES: Record<RoundStatus, string> = {
+  PLANNED: 'bg-blue-600 text-white',
+  RUNNING: 'bg-green-600 text-white animate-pulse',
+  DONE: 'bg-gray-600 text-gray-200',
+  CANCELLED: 'bg-red-800 text-red-100',
+};
+
+const inputClass = 'bg-gray-700 text-white placeholder-gray-400 border border-gray-600 rounded-md px-3 py-1 focus:outline-none focus:ring-2 focus:ring-yellow-500';
+
+const RoundEditor: React.FC<{
+  round: SeasonRound;
+  onSave: (details: RoundDetails) => void;
+  onCancel: () => void;
+}> = ({ round, onSave, onCancel }) => {
+  const [name, setName] = useState(round.name);
+  const [date, setDate] = useState(round.date ?? '');
+  const [venue, setVenue] = useState(round.venue);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = () => {
+    const details = { name, date: date || null, venue };
+    const validationError = validateRoundDetails(details);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    onSave(details);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-col sm:flex-row gap-2">
+        <input
+          type="text"
+          value={name}
+          onChange={e => setName(e.target.value)}
+          placeholder="Etapi nimi"
+          aria-label="Etapi nimi"
+          className={`flex-grow ${inputClass}`}
+        />
+        <input type="date" value={date} onChange={e => setDate(e.target.value)} aria-label="Kuupäev" className={inputClass} />
+        <input
+          type="text"
+          value={venue}
+          onChange={e => setVenue(e.target.value)}
+          onKeyDown={e => e.key === 'Enter' && handleSave()}
+          placeholder="Toimumiskoht"
+          aria-label="Toimumiskoht"
+          className={`flex-grow ${inputClass}`}
+        />
+      </div>
+      {error && <p className="text-red-400 text-sm">{error}</p>}
+      <div className="flex gap-2">
+        <button onClick={handleSave} className="bg-green-600 hover:bg-green-700 text-white text-sm font-bold py-1 px-4 rounded-md">
+          Salvesta
+        </button>
+        <button onClick={onCancel} className="bg-gray-600 hover:bg-gray-500 text-gray-200 text-sm py-1 px-4 rounded-md">
+          Loobu
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// The season's rounds in order with their date, venue and status. Shown to admins in the
+// standings and to spectators in the live view.
+const SeasonCalendar: React.FC<SeasonCalendarProps> = ({ rounds, onSetRound, onSetRoundCancelled }) => {
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+
+  if (rounds.length === 0) return null;
+
+  const handleCancelRound = (round: SeasonRound, index: number) => {
+    if (window.confirm(`Kas jätta etapp ${round.name} ära? Hooaeg jätkub järgmise etapiga.`)) {
+      onSetRoundCancelled?.(index, true);
+    }
+  };
+
+  return (
+    <section>
+      <h3 className="text-xl font-bold text-gray-200 mb-3">Hooaja kalender</h3>
+      <ol className="space-y-2">
+        {rounds.map((round, index) => {
+          const status = ROUND_STATUSES.find(s => s.status === round.status);
+          const isEditing = editingIndex === index && onSetRound !== undefined;
+          return (
+            <li key={index} className={`p-3 rounded-md bg-gray-700/50 ${round.status === 'CANCELLED' ? 'opacity-60' : ''}`}>
+              {isEditing ? (
+                <RoundEditor
+                  round={round}
+                  onSave={details => {
+                    onSetRound?.(index, details);
+                    setEditingIndex(null);
+                  }}
+                  onCancel={() => setEditingIndex(null)}
+                />
+              ) : (
+                <div className="flex items-center gap-4 flex-wrap">
+                  <span className="text-gray-500 font-bold w-6 text-right">{index + 1}.</span>
+                  <div className="flex-grow">
+                    <div className={`font-semibold ${round.status === 'CANCELLED' ? 'line-through' : ''}`}>{round.name}</div>
+                    <div className="text-sm text-gray-400">
+                      {[formatRoundDate(round.date), round.venue].filter(Boolean).join(' · ') || 'Aeg ja koht täpsustamisel'}
+                    </div>
+                  </div>
+                  <span className={`text-xs font-bold px-2 py-1 rounded-full ${STATUS_STYLES[round.status]}`}>{status?.label}</span>
+                  {onSetRound && round.status !== 'DONE' && (
+                    <button
+                      onClick={() => setEditingIndex(index)}
+                      className="bg-gray-600 hover:bg-gray-500 text-gray-200 text-sm py-1 px-3 rounded-md"
+                    >
+                      Muuda
+                    </button>
+                  )}
+                  {onSetRoundCancelled && round.status === 'PLANNED' && (
+                    <button
+                      onClick={() => handleCancelRound(round, index)}
+                      className="bg-gray-600 hover:bg-gray-500 text-red-300 text-sm py-1 px-3 rounded-md"
+                    >
+                      Jäta ära
+                    </button>
+                  )}
+                  {onSetRoundCancelled && round.status === 'CANCELLED' && (
+                    <button
+                      onClick={() => onSetRoundCancelled(index, false)}
+                      className="bg-gray-600 hover:bg-gray-500 text-gray-200 text-sm py-1 px-3 rounded-md"
+                    >
+                      Taasta
+                    </button>
+                  )}
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    </section>
+  );
+};
+
+export default SeasonCalendar;
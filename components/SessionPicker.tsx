@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import type { KnownSession } from '../adminSessions';
+import { ROLES } from '../constants';
+
+interface SessionPickerProps {
+  knownSessions: KnownSession[];
+  onOpen: (sessionId: string, adminSecret: string) => void;
+  onForget: (sessionId: string) => void;
+  onCreate: () => void;
+}
+
+// Reads the session ID and secret out of a pasted admin link
+const parseAdminLink = (text: string) => {
+  try {
+    const params = new URL(text.trim()).searchParams;
+    const sessionId = params.get('admin');
+    const adminSecret = params.get('key');
+    return sessionId && adminSecret ? { sessionId, adminSecret } : null;
+  } catch {
+    return null;
+  }
+};
+
+// Start page of the admin when this device already administers championships: reopen one of
+// them, open another with its admin link or ID and key, or start a new one.
+const SessionPicker: React.FC<SessionPickerProps> = ({ knownSessions, onOpen, onForget, onCreate }) => {
+  const [sessionIdInput, setSessionIdInput] = useState('');
+  const [secretInput, setSecretInput] = useState('');
+  const [error, setError] = useState('');
+
+  const handleLogin = (e: React.FormEvent) => {
+    e.preventDefault();
+    const fromLink = parseAdminLink(sessionIdInput);
+    if (fromLink) {
+      onOpen(fromLink.sessionId, fromLink.adminSecret);
+    } else if (sessionIdInput.trim() && secretInput.trim()) {
+      onOpen(sessionIdInput.trim(), secretInput.trim());
+    } else {
+      setError('Sisesta halduri link või võistluse ID koos halduri võtmega.');
+    }
+  };
+
+  const handleForget = (sessionId: string) => {
+    if (window.confirm('Kas unustada see võistlus selles seadmes? Võistlus ise jääb alles ja seda saab halduri lingiga uuesti avada.')) {
+      onForget(sessionId);
+    }
+  };
+
+  return (
+    <div className="max-w-2xl mx-auto space-y-6">
+      {knownSessions.length > 0 && (
+        <div className="bg-gray-800 p-6 rounded-xl shadow-2xl">
+          <h2 className="text-2xl font-bold text-white mb-4">Sinu võistlused</h2>
+          <ul className="space-y-2">
+            {knownSessions.map(s => (
+              <li key={s.sessionId} className="flex items-center justify-between gap-4 bg-gray-700/50 p-3 rounded-md">
+                <div className="min-w-0">
+                  <p className="font-mono text-sm text-gray-200 truncate">{s.sessionId}</p>
+                  <p className="text-xs text-gray-400">
+                    {s.role && `${ROLES.find(r => r.role === s.role)?.label} · `}
+                    Viimati avatud {new Date(s.lastOpenedAt).toLocaleString('et-EE')}
+                  </p>
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  <button
+                    onClick={() => onOpen(s.sessionId, s.adminSecret)}
+                    className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-1 px-4 rounded-md"
+                  >
+                    Ava
+                  </button>
+                  <button
+                    onClick={() => handleForget(s.sessionId)}
+                    className="bg-gray-600 hover:bg-gray-500 text-gray-200 py-1 px-3 rounded-md text-sm"
+                  >
+                    Unusta
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <form onSubmit={handleLogin} className="bg-gray-800 p-6 rounded-xl shadow-2xl space-y-3">
+        <h2 className="text-xl font-bold text-white">Ava olemasolev võistlus</h2>
+        <input
+          type="text"
+          value={sessionIdInput}
+          onChange={e => { setSessionIdInput(e.target.value); setError(''); }}
+          placeholder="Halduri link või võistluse ID"
+          className="w-full bg-gray-700 text-white placeholder-gray-400 border border-gray-600 rounded-md px-4 py-2 focus:outline-none focus:ring-2 focus:ring-yellow-500"
+        />
+        {!parseAdminLink(sessionIdInput) && (
+          <input
+            type="password"
+            value={secretInput}
+            onChange={e => { setSecretInput(e.target.value); setError(''); }}
+            placeholder="Halduri võti"
+            className="w-full bg-gray-700 text-white placeholder-gray-400 border border-gray-600 rounded-md px-4 py-2 focus:outline-none focus:ring-2 focus:ring-yellow-500"
+          />
+        )}
+        {error && <p className="text-red-400 text-sm">{error}</p>}
+        <button type="submit" className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-6 rounded-md">
+          Ava
+        </button>
+      </form>
+
+      <div className="text-center">
+        <button
+          onClick={onCreate}
+          className="bg-yellow-600 hover:bg-yellow-700 text-white font-bold py-2 px-6 rounded-md"
+        >
+          Alusta uut meistrivõistlust
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SessionPicker;
@@ -1,22 +1,100 @@
-import React from 'react';
-import type { BracketData, Match, Participant } from '../types';
-import { AppPhase } from '../constants';
+import React, { useState } from 'react';
+import type { BracketData, BracketFormat, JudgeVote, Match, Participant, QualificationRule, RunStatus } from '../types';
+import { AppPhase, JUDGE_COUNT, RUN_STATUSES } from '../constants';
+import type { BracketProgress } from '../engine/bracket';
+import { getActiveParticipants } from '../engine/bracket';
+import { getPodium } from '../engine/points';
+import { countVotes, getCurrentRun } from '../engine/judging';
+import { rankQualifiers } from '../engine/seeding';
+import DriverName from './DriverName';
+import RunStatusBadge from './RunStatusBadge';
 
 // --- Helper Components defined at top-level ---
 
+interface JudgeVotePanelProps {
+  match: Match;
+  onJudgeVote: (matchId: number, judgeIndex: number, vote: JudgeVote | null) => void;
+  onSetBattleStatus?: (matchId: number, participantId: number, status: RunStatus) => void;
+}
+
+// Vote entry for the run in progress. Picking the selected option again takes the vote back.
+// Below the votes, a status for either driver hands the battle to the other one.
+const JudgeVotePanel: React.FC<JudgeVotePanelProps> = ({ match, onJudgeVote, onSetBattleStatus }) => {
+  const run = getCurrentRun(match);
+  const runNumber = Math.max(match.runs?.length ?? 0, 1);
+  const options: { vote: JudgeVote; label: string }[] = [
+    { vote: match.participant1!.id, label: match.participant1!.name },
+    { vote: 'OMT', label: 'OMT' },
+    { vote: match.participant2!.id, label: match.participant2!.name },
+  ];
+
+  return (
+    <div className="absolute top-full left-0 mt-1 z-20 w-64 p-2 bg-gray-900 border border-gray-600 rounded-lg shadow-xl space-y-1">
+      <div className="text-xs font-bold text-gray-400 uppercase">Sõit {runNumber}</div>
+      {Array.from({ length: JUDGE_COUNT }).map((_, judgeIndex) => {
+        const current = run?.votes[judgeIndex] ?? null;
+        return (
+          <div key={judgeIndex} className="flex items-center gap-1 text-xs">
+            <span className="w-8 text-gray-400" title={`Kohtunik ${judgeIndex + 1}`}>K{judgeIndex + 1}</span>
+            {options.map(({ vote, label }) => (
+              <button
+                key={String(vote)}
+                onClick={() => onJudgeVote(match.id, judgeIndex, current === vote ? null : vote)}
+                className={`flex-1 truncate px-1 py-0.5 rounded ${current === vote ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        );
+      })}
+      {onSetBattleStatus && (
+        <>
+          <div className="pt-1 text-xs font-bold text-gray-400 uppercase">Staatus</div>
+          {[match.participant1!, match.participant2!].map(participant => (
+            <div key={participant.id} className="flex items-center gap-1 text-xs">
+              <span className="flex-1 truncate text-gray-300">{participant.name}</span>
+              {RUN_STATUSES.map(({ status, short, label }) => (
+                <button
+                  key={status}
+                  onClick={() => onSetBattleStatus(match.id, participant.id, status)}
+                  className="w-9 px-1 py-0.5 rounded bg-gray-700 text-gray-300 hover:bg-red-700 hover:text-white"
+                  title={label}
+                >
+                  {short}
+                </button>
+              ))}
+            </div>
+          ))}
+        </>
+      )}
+    </div>
+  );
+};
+
 interface MatchCardProps {
   match: Match;
   onSetWinner: (matchId: number, winner: Participant) => void;
+  onClearWinner?: (matchId: number) => void;
+  onJudgeVote?: (matchId: number, judgeIndex: number, vote: JudgeVote | null) => void;
+  onSetBattleStatus?: (matchId: number, participantId: number, status: RunStatus) => void;
   isReadOnly?: boolean;
 }
 
-const MatchCard: React.FC<MatchCardProps> = ({ match, onSetWinner, isReadOnly = false }) => {
+const MatchCard: React.FC<MatchCardProps> = ({ match, onSetWinner, onClearWinner, onJudgeVote, onSetBattleStatus, isReadOnly = false }) => {
   const { participant1, participant2, winner } = match;
+  const [showVotes, setShowVotes] = useState(false);
+  const run = getCurrentRun(match);
+  const rerunCount = Math.max((match.runs?.length ?? 0) - 1, 0);
 
-  const canSelectWinner = participant1 && participant2 && !winner;
+  const isContested = !!participant1 && !!participant2;
+  const canSelectWinner = isContested && !winner;
+  // A decided battle can be corrected by picking the other driver or cleared altogether
+  const canCorrect = isContested && !!winner && !isReadOnly;
 
   const handleSelectWinner = (selectedParticipant: Participant) => {
-    if (canSelectWinner && !isReadOnly) {
+    if (isReadOnly) return;
+    if (canSelectWinner || (canCorrect && selectedParticipant.id !== winner?.id)) {
       onSetWinner(match.id, selectedParticipant);
     }
   };
@@ -25,30 +103,75 @@ const MatchCard: React.FC<MatchCardProps> = ({ match, onSetWinner, isReadOnly =
     if (!participant) return 'text-gray-500 italic';
     if (!winner && canSelectWinner && !isReadOnly) return 'cursor-pointer hover:bg-blue-600';
     if (isWinner) return 'font-bold text-green-300';
-    if (winner && !isWinner) return 'text-gray-500 line-through';
+    if (winner && !isWinner) return `text-gray-500 line-through ${canCorrect ? 'cursor-pointer hover:bg-orange-800/40' : ''}`;
     return '';
   };
   
   const isP1Winner = winner !== null && winner?.id === participant1?.id;
   const isP2Winner = winner !== null && winner?.id === participant2?.id;
 
+  // Judge votes of the latest run next to each driver, or the status that decided the battle
+  const renderVotes = (participant: Participant | null) => {
+    const status = match.statuses?.find(s => s.participantId === participant?.id)?.status;
+    if (status) return <span className="ml-2"><RunStatusBadge status={status} /></span>;
+    if (!participant || !run) return null;
+    const votes = countVotes(run, participant.id);
+    return (
+      <span className="ml-2 text-xs text-yellow-400 tracking-tighter" title="Kohtunike hääled">
+        {'●'.repeat(votes)}{'○'.repeat(JUDGE_COUNT - votes)}
+      </span>
+    );
+  };
+
   return (
-    <div className="bg-gray-800 rounded-lg shadow-md w-64 h-24 flex flex-col justify-center border border-gray-700">
+    <div className="relative bg-gray-800 rounded-lg shadow-md w-64 h-24 flex flex-col justify-center border border-gray-700">
       <div
         className={`p-2 transition-colors duration-200 rounded-t-lg ${getParticipantClass(participant1, isP1Winner)}`}
         onClick={() => participant1 && handleSelectWinner(participant1)}
+        title={canCorrect && !isP1Winner ? 'Muuda võitjat' : undefined}
       >
         <span className="text-sm text-gray-400 mr-2">{participant1?.seed}</span>
-        {participant1?.name || 'Selgumisel'}
+        {participant1 ? <DriverName name={participant1.name} profile={participant1.profile} /> : 'Selgumisel'}
+        {renderVotes(participant1)}
       </div>
       <div className="border-t border-gray-600"></div>
       <div
         className={`p-2 transition-colors duration-200 rounded-b-lg ${getParticipantClass(participant2, isP2Winner)}`}
         onClick={() => participant2 && handleSelectWinner(participant2)}
+        title={canCorrect && !isP2Winner ? 'Muuda võitjat' : undefined}
       >
         <span className="text-sm text-gray-400 mr-2">{participant2?.seed}</span>
-        {participant2?.name || 'Selgumisel'}
+        {participant2 ? <DriverName name={participant2.name} profile={participant2.profile} /> : 'Selgumisel'}
+        {renderVotes(participant2)}
       </div>
+      {rerunCount > 0 && (
+        <span className="absolute -top-2 left-2 px-1 rounded bg-purple-700 text-white text-xs" title="Kordussõidud">
+          OMT ×{rerunCount}
+        </span>
+      )}
+      {canCorrect && onClearWinner && (
+        <button
+          onClick={() => onClearWinner(match.id)}
+          className="absolute -top-2 -right-2 w-6 h-6 rounded-full bg-gray-700 hover:bg-orange-600 text-gray-300 hover:text-white text-xs border border-gray-500"
+          title="Tühista tulemus"
+          aria-label="Tühista tulemus"
+        >
+          ↺
+        </button>
+      )}
+      {canSelectWinner && !isReadOnly && onJudgeVote && (
+        <button
+          onClick={() => setShowVotes(!showVotes)}
+          className="absolute -bottom-2 -right-2 w-6 h-6 rounded-full bg-gray-700 hover:bg-blue-600 text-gray-300 hover:text-white text-xs border border-gray-500"
+          title="Kohtunike hääled"
+          aria-label="Kohtunike hääled"
+        >
+          ⚖
+        </button>
+      )}
+      {showVotes && canSelectWinner && !isReadOnly && onJudgeVote && (
+        <JudgeVotePanel match={match} onJudgeVote={onJudgeVote} onSetBattleStatus={onSetBattleStatus} />
+      )}
     </div>
   );
 };
@@ -74,25 +197,20 @@ const Connector: React.FC = () => {
 
 
 interface WinnerDisplayProps {
-    bracketData: BracketData;
-    thirdPlaceMatch: Match | null;
+    progress: BracketProgress;
     participants: Participant[];
-    onReturnToChampionship: () => void;
+    qualificationRule: QualificationRule;
+    onReturnToChampionship?: () => void;
 }
 
-const WinnerDisplay: React.FC<WinnerDisplayProps> = ({ bracketData, thirdPlaceMatch, participants, onReturnToChampionship }) => {
-    const finalMatch = bracketData[bracketData.length - 1]?.[0];
-    const winner = finalMatch?.winner;
+const WinnerDisplay: React.FC<WinnerDisplayProps> = ({ progress, participants, qualificationRule, onReturnToChampionship }) => {
+    const [winner, runnerUp, thirdPlace] = getPodium(progress);
 
-    const qualificationWinner = participants
-        .filter(p => p.score !== null && p.score > 0)
-        .sort((a, b) => (b.score as number) - (a.score as number))[0];
+    // Ranked like seeding and points, so a tied best run goes the same way here
+    const [qualificationWinner] = rankQualifiers(participants, qualificationRule);
     
     if (!winner) return null;
 
-    const runnerUp = finalMatch?.participant1?.id === winner.id ? finalMatch.participant2 : finalMatch?.participant1;
-    const thirdPlace = thirdPlaceMatch?.winner;
-
     return (
         <div className="relative flex flex-col items-center justify-center text-center p-4">
             <div className="relative z-10 w-full">
@@ -132,13 +250,15 @@ const WinnerDisplay: React.FC<WinnerDisplayProps> = ({ bracketData, thirdPlaceMa
                   )}
 
               </div>
-              <button
-                  onClick={onReturnToChampionship}
-                  className="mt-12 bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-3 px-8 rounded-lg text-lg transition duration-300 opacity-0 animate-podium-item"
-                  style={{ animationDelay: '1.0s' }}
-              >
-                  Lõpeta võistlus ja vaata edetabelit
-              </button>
+              {onReturnToChampionship && (
+                <button
+                    onClick={onReturnToChampionship}
+                    className="mt-12 bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-3 px-8 rounded-lg text-lg transition duration-300 opacity-0 animate-podium-item"
+                    style={{ animationDelay: '1.0s' }}
+                >
+                    Lõpeta võistlus ja vaata edetabelit
+                </button>
+              )}
             </div>
         </div>
     );
@@ -149,10 +269,20 @@ const WinnerDisplay: React.FC<WinnerDisplayProps> = ({ bracketData, thirdPlaceMa
 interface TournamentBracketProps {
   bracketData: BracketData;
   thirdPlaceMatch: Match | null;
+  // Double elimination only; sessions from before the format existed leave these out
+  bracketFormat?: BracketFormat;
+  losersBracket?: BracketData;
+  grandFinals?: Match[];
   onSetWinner: (matchId: number, winner: Participant) => void;
+  onClearWinner?: (matchId: number) => void;
+  onJudgeVote?: (matchId: number, judgeIndex: number, vote: JudgeVote | null) => void;
+  onSetBattleStatus?: (matchId: number, participantId: number, status: RunStatus) => void;
+  onWithdraw?: (participantId: number) => void;
   phase: AppPhase;
-  onReturnToChampionship: () => void;
+  // Left out where the competition cannot be finished from, like the live view
+  onReturnToChampionship?: () => void;
   participants: Participant[];
+  qualificationRule: QualificationRule;
   isReadOnly?: boolean;
 }
 
@@ -164,97 +294,266 @@ const getRoundName = (numMatches: number) => {
     return `Voor ${numMatches * 2} osalejaga`;
 };
 
+type MatchActions = Pick<TournamentBracketProps, 'onSetWinner' | 'onClearWinner' | 'onJudgeVote' | 'onSetBattleStatus' | 'isReadOnly'>;
+
+type BracketGridProps = MatchActions & Pick<TournamentBracketProps, 'bracketData' | 'thirdPlaceMatch'> & {
+    finalsTitle?: string;
+};
+
+const BracketGrid: React.FC<BracketGridProps> = ({ bracketData, thirdPlaceMatch, finalsTitle = 'Finaalid', onSetWinner, onClearWinner, onJudgeVote, onSetBattleStatus, isReadOnly = false }) => {
+    const finalRound = bracketData[bracketData.length - 1];
+
+    // Card is h-24 (6rem). We'll give it 1rem vertical spacing. Total slot height = 7rem.
+    const MATCH_SLOT_HEIGHT_REM = 7;
+    const totalBracketHeightRem = (bracketData[0]?.length ?? 0) * MATCH_SLOT_HEIGHT_REM;
+
+    return (
+        <div className="p-4 bg-gray-900/50 rounded-xl overflow-x-auto">
+            <div className="flex justify-start items-start">
+                {bracketData.map((round, roundIndex) => {
+                    if (roundIndex === bracketData.length - 1) return null; // Skip final round from this loop
+
+                    const matchSlotHeight = MATCH_SLOT_HEIGHT_REM * Math.pow(2, roundIndex);
+                    const connectorSlotHeight = matchSlotHeight * 2;
+
+                    return (
+                        <React.Fragment key={roundIndex}>
+                            {/* Round Column with Header */}
+                            <div className="flex flex-col px-2">
+                                <div className="h-10 flex items-end justify-center pb-2">
+                                    <h3 className="text-center font-bold text-blue-300">
+                                    {getRoundName(round.length)}
+                                    </h3>
+                                </div>
+                                {round.map((match) => (
+                                    <div key={match.id} style={{ height: `${matchSlotHeight}rem` }} className="flex items-center">
+                                        <MatchCard match={match} onSetWinner={onSetWinner} onClearWinner={onClearWinner} onJudgeVote={onJudgeVote} onSetBattleStatus={onSetBattleStatus} isReadOnly={isReadOnly} />
+                                    </div>
+                                ))}
+                            </div>
+                            {/* Connectors Column */}
+                            <div className="flex flex-col">
+                                {/* Spacer for header */}
+                                <div className="h-10" />
+                                {Array.from({ length: round.length / 2 }).map((_, i) => (
+                                    <div key={i} style={{ height: `${connectorSlotHeight}rem` }} className="flex items-center">
+                                        <Connector />
+                                    </div>
+                                ))}
+                            </div>
+                        </React.Fragment>
+                    );
+                })}
+
+                {/* Finals Column */}
+                <div className="flex flex-col justify-center items-center px-4" style={{ minHeight: `${totalBracketHeightRem}rem`}}>
+                    <div className="h-10 flex items-end justify-center pb-2">
+                        <h3 className="text-center font-bold text-yellow-400">{finalsTitle}</h3>
+                    </div>
+                    {finalRound && finalRound.map((match) => (
+                        <MatchCard key={match.id} match={match} onSetWinner={onSetWinner} onClearWinner={onClearWinner} onJudgeVote={onJudgeVote} onSetBattleStatus={onSetBattleStatus} isReadOnly={isReadOnly} />
+                    ))}
+                    
+                    {thirdPlaceMatch && (
+                        <div className="mt-8">
+                            <div className="text-center font-bold mb-4 text-orange-400">3. koha mäng</div>
+                            <MatchCard match={thirdPlaceMatch} onSetWinner={onSetWinner} onClearWinner={onClearWinner} onJudgeVote={onJudgeVote} onSetBattleStatus={onSetBattleStatus} isReadOnly={isReadOnly} />
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+
+type LosersBracketGridProps = MatchActions & { losersBracket: BracketData };
+
+// Losers bracket rounds alternate between drivers dropping in and the field halving, so the
+// rounds are shown as plain columns instead of a connected tree.
+const LosersBracketGrid: React.FC<LosersBracketGridProps> = ({ losersBracket, onSetWinner, onClearWinner, onJudgeVote, onSetBattleStatus, isReadOnly = false }) => (
+    <div className="p-4 bg-gray-900/50 rounded-xl overflow-x-auto">
+        <div className="flex justify-start items-start gap-4">
+            {losersBracket.map((round, roundIndex) => (
+                <div key={roundIndex} className="flex flex-col gap-4 px-2">
+                    <div className="h-10 flex items-end justify-center pb-2">
+                        <h3 className="text-center font-bold text-red-300">
+                            {roundIndex === losersBracket.length - 1 ? 'Alumise tabeli finaal' : `Alumine voor ${roundIndex + 1}`}
+                        </h3>
+                    </div>
+                    {round.map(match => (
+                        <MatchCard key={match.id} match={match} onSetWinner={onSetWinner} onClearWinner={onClearWinner} onJudgeVote={onJudgeVote} onSetBattleStatus={onSetBattleStatus} isReadOnly={isReadOnly} />
+                    ))}
+                </div>
+            ))}
+        </div>
+    </div>
+);
+
+interface WithdrawalPanelProps {
+    progress: BracketProgress;
+    participants: Participant[];
+    onWithdraw: (participantId: number) => void;
+}
+
+// Withdraws a driver who can no longer continue; their battles become walkovers.
+const WithdrawalPanel: React.FC<WithdrawalPanelProps> = ({ progress, participants, onWithdraw }) => {
+    const [selectedId, setSelectedId] = useState('');
+    const withdrawnIds = new Set(participants.filter(p => p.withdrawn).map(p => p.id));
+    const active = getActiveParticipants(progress)
+        .filter(p => !withdrawnIds.has(p.id))
+        .sort((a, b) => a.seed - b.seed);
+    const withdrawn = participants.filter(p => p.withdrawn);
+
+    const withdraw = () => {
+        const participant = active.find(p => p.id === Number(selectedId));
+        if (!participant) return;
+        if (window.confirm(`Kas ${participant.name} loobub võistlusest? Tema battle'id antakse vastastele loobumisvõiduga.`)) {
+            onWithdraw(participant.id);
+            setSelectedId('');
+        }
+    };
+
+    return (
+        <div className="max-w-xl mx-auto bg-gray-800 p-4 rounded-lg flex flex-wrap items-center gap-3">
+            <span className="font-semibold text-gray-300">Loobumine</span>
+            <select
+                value={selectedId}
+                onChange={(e) => setSelectedId(e.target.value)}
+                className="flex-grow bg-gray-700 text-white border border-gray-600 rounded-md px-3 py-1 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                aria-label="Loobuv sõitja"
+            >
+                <option value="">Vali sõitja</option>
+                {active.map(p => (
+                    <option key={p.id} value={p.id}>{p.seed}. {p.name}</option>
+                ))}
+            </select>
+            <button
+                onClick={withdraw}
+                disabled={!selectedId}
+                className="bg-red-700 hover:bg-red-800 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-bold py-1 px-4 rounded-md"
+            >
+                Loobu
+            </button>
+            {withdrawn.length > 0 && (
+                <p className="w-full text-sm text-gray-400">
+                    Loobunud: {withdrawn.map(p => p.name).join(', ')}
+                </p>
+            )}
+        </div>
+    );
+};
+
+type FullBracketProps = MatchActions & { progress: BracketProgress };
+
+// The whole bracket in the competition's format.
+const FullBracket: React.FC<FullBracketProps> = ({ progress, onSetWinner, onClearWinner, onJudgeVote, onSetBattleStatus, isReadOnly = false }) => {
+    const actions = { onSetWinner, onClearWinner, onJudgeVote, onSetBattleStatus, isReadOnly };
+    if (progress.bracketFormat !== 'DOUBLE_ELIMINATION') {
+        return <BracketGrid bracketData={progress.bracket} thirdPlaceMatch={progress.thirdPlaceMatch} {...actions} />;
+    }
+
+    return (
+        <div className="space-y-6">
+            <div>
+                <h3 className="text-xl font-bold text-blue-300 mb-2">Ülemine tabel</h3>
+                <BracketGrid bracketData={progress.bracket} thirdPlaceMatch={null} finalsTitle="Ülemise tabeli finaal" {...actions} />
+            </div>
+            {progress.losersBracket.length > 0 && (
+                <div>
+                    <h3 className="text-xl font-bold text-red-300 mb-2">Alumine tabel</h3>
+                    <LosersBracketGrid losersBracket={progress.losersBracket} {...actions} />
+                </div>
+            )}
+            <div className="flex flex-col items-center gap-4">
+                <h3 className="text-xl font-bold text-yellow-400">Suurfinaal</h3>
+                <div className="flex flex-wrap justify-center gap-8">
+                    {progress.grandFinals.map((match, index) => (
+                        <div key={match.id} className="flex flex-col items-center gap-2">
+                            <span className="text-sm text-gray-400">{index === 0 ? 'Suurfinaal' : 'Tabeli lähtestus'}</span>
+                            <MatchCard match={match} {...actions} />
+                        </div>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+};
+
 
 const TournamentBracket: React.FC<TournamentBracketProps> = ({ 
     bracketData, 
     thirdPlaceMatch, 
+    bracketFormat,
+    losersBracket = [],
+    grandFinals = [],
     onSetWinner, 
+    onClearWinner,
+    onJudgeVote,
+    onSetBattleStatus,
+    onWithdraw,
     phase, 
     onReturnToChampionship, 
     participants,
+    qualificationRule,
     isReadOnly = false,
 }) => {
+    const [showCorrections, setShowCorrections] = useState(false);
+    // The reset setting only matters when recording results, which happens in the engine
+    const progress: BracketProgress = { bracketFormat: bracketFormat ?? 'SINGLE_ELIMINATION', grandFinalReset: false, bracket: bracketData, thirdPlaceMatch, losersBracket, grandFinals };
+
     if (!bracketData || bracketData.length === 0) {
         return <p>Laen tabelit...</p>;
     }
 
     if (phase === AppPhase.FINISHED) {
         return (
-             <div className="relative p-6 bg-gray-800 rounded-xl shadow-2xl overflow-hidden">
-                <WinnerDisplay 
-                    bracketData={bracketData} 
-                    thirdPlaceMatch={thirdPlaceMatch} 
-                    onReturnToChampionship={onReturnToChampionship}
-                    participants={participants}
-                />
+            <div className="space-y-6">
+                <div className="relative p-6 bg-gray-800 rounded-xl shadow-2xl overflow-hidden">
+                    <WinnerDisplay 
+                        progress={progress}
+                        onReturnToChampionship={onReturnToChampionship}
+                        participants={participants}
+                        qualificationRule={qualificationRule}
+                    />
+                </div>
+                {!isReadOnly && (
+                    <div className="text-center">
+                        <button
+                            onClick={() => setShowCorrections(!showCorrections)}
+                            className="text-sm text-gray-400 hover:text-orange-300 underline"
+                        >
+                            {showCorrections ? 'Peida tabel' : 'Paranda tulemusi'}
+                        </button>
+                    </div>
+                )}
+                {!isReadOnly && showCorrections && (
+                    <FullBracket
+                        progress={progress}
+                        onSetWinner={onSetWinner}
+                        onClearWinner={onClearWinner}
+                        onJudgeVote={onJudgeVote}
+                        onSetBattleStatus={onSetBattleStatus}
+                    />
+                )}
             </div>
         )
     }
 
-    const finalRound = bracketData[bracketData.length - 1];
-
-    // Card is h-24 (6rem). We'll give it 1rem vertical spacing. Total slot height = 7rem.
-    const MATCH_SLOT_HEIGHT_REM = 7;
-    const totalBracketHeightRem = (bracketData[0]?.length ?? 0) * MATCH_SLOT_HEIGHT_REM;
-
     return (
-        <>
-            <div className="p-4 bg-gray-900/50 rounded-xl overflow-x-auto">
-                <div className="flex justify-start items-start">
-                    {bracketData.map((round, roundIndex) => {
-                        if (roundIndex === bracketData.length - 1) return null; // Skip final round from this loop
-
-                        const matchSlotHeight = MATCH_SLOT_HEIGHT_REM * Math.pow(2, roundIndex);
-                        const connectorSlotHeight = matchSlotHeight * 2;
-
-                        return (
-                            <React.Fragment key={roundIndex}>
-                                {/* Round Column with Header */}
-                                <div className="flex flex-col px-2">
-                                    <div className="h-10 flex items-end justify-center pb-2">
-                                        <h3 className="text-center font-bold text-blue-300">
-                                        {getRoundName(round.length)}
-                                        </h3>
-                                    </div>
-                                    {round.map((match) => (
-                                        <div key={match.id} style={{ height: `${matchSlotHeight}rem` }} className="flex items-center">
-                                            <MatchCard match={match} onSetWinner={onSetWinner} isReadOnly={isReadOnly} />
-                                        </div>
-                                    ))}
-                                </div>
-                                {/* Connectors Column */}
-                                <div className="flex flex-col">
-                                    {/* Spacer for header */}
-                                    <div className="h-10" />
-                                    {Array.from({ length: round.length / 2 }).map((_, i) => (
-                                        <div key={i} style={{ height: `${connectorSlotHeight}rem` }} className="flex items-center">
-                                            <Connector />
-                                        </div>
-                                    ))}
-                                </div>
-                            </React.Fragment>
-                        );
-                    })}
-
-                    {/* Finals Column */}
-                    <div className="flex flex-col justify-center items-center px-4" style={{ minHeight: `${totalBracketHeightRem}rem`}}>
-                        <div className="h-10 flex items-end justify-center pb-2">
-                            <h3 className="text-center font-bold text-yellow-400">Finaalid</h3>
-                        </div>
-                        {finalRound && finalRound.map((match) => (
-                            <MatchCard key={match.id} match={match} onSetWinner={onSetWinner} isReadOnly={isReadOnly} />
-                        ))}
-                        
-                        {thirdPlaceMatch && (
-                            <div className="mt-8">
-                                <div className="text-center font-bold mb-4 text-orange-400">3. koha mäng</div>
-                                <MatchCard match={thirdPlaceMatch} onSetWinner={onSetWinner} isReadOnly={isReadOnly} />
-                            </div>
-                        )}
-                    </div>
-                </div>
-            </div>
-        </>
+        <div className="space-y-6">
+            <FullBracket
+                progress={progress}
+                onSetWinner={onSetWinner}
+                onClearWinner={onClearWinner}
+                onJudgeVote={onJudgeVote}
+                onSetBattleStatus={onSetBattleStatus}
+                isReadOnly={isReadOnly}
+            />
+            {!isReadOnly && onWithdraw && (
+                <WithdrawalPanel progress={progress} participants={participants} onWithdraw={onWithdraw} />
+            )}
+        </div>
     );
 };
 
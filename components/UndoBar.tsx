@@ -0,0 +1,59 @@
+import React from 'react';
+
+interface UndoBarProps {
+  // Labels of the changes undo and redo would act on, if any
+  undoLabel?: string;
+  redoLabel?: string;
+  // False when the session has changed elsewhere since, which would be overwritten
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  // Shown after a championship reset, for as long as this page stays open
+  onRestoreReset?: () => void;
+}
+
+const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+const MOD_KEY = isMac ? '⌘' : 'Ctrl';
+
+// Undo and redo for the admin's own changes, also on Ctrl+Z / Ctrl+Shift+Z
+const UndoBar: React.FC<UndoBarProps> = ({ undoLabel, redoLabel, canUndo, canRedo, onUndo, onRedo, onRestoreReset }) => {
+  if (!undoLabel && !redoLabel && !onRestoreReset) return null;
+
+  const changedElsewhere = 'Võistlust on vahepeal mujal muudetud, seega seda ei saa enam tagasi võtta.';
+
+  return (
+    <div className="max-w-4xl mx-auto mb-4 flex flex-wrap items-center justify-center gap-3 text-sm">
+      {undoLabel && (
+        <button
+          onClick={onUndo}
+          disabled={!canUndo}
+          title={canUndo ? `${MOD_KEY}+Z` : changedElsewhere}
+          className="bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed text-gray-200 py-1 px-3 rounded-md"
+        >
+          ↶ Võta tagasi: {undoLabel}
+        </button>
+      )}
+      {redoLabel && (
+        <button
+          onClick={onRedo}
+          disabled={!canRedo}
+          title={canRedo ? `${MOD_KEY}+Shift+Z` : changedElsewhere}
+          className="bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed text-gray-200 py-1 px-3 rounded-md"
+        >
+          ↷ Tee uuesti: {redoLabel}
+        </button>
+      )}
+      {onRestoreReset && (
+        <button
+          onClick={onRestoreReset}
+          className="bg-indigo-700 hover:bg-indigo-600 text-white py-1 px-3 rounded-md"
+        >
+          Taasta lähtestamisele eelnenud hooaeg
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default UndoBar;
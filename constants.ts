@@ -1,8 +1,268 @@
+import type { AdminMutation, BattleStatusCode, DriverProfile, PointsScheme, QualificationRule, QualificationTiebreaker, RegistrationClosedReason, RegistrationSettings, Role, RoundStatus, RunStatus } from './types';
+
 export const MIN_PARTICIPANTS = 2;
 
+// Bracket size options for a competition ("Top 32" is the DMEC default)
+export const BRACKET_SIZE_OPTIONS = [16, 32, 64];
+export const DEFAULT_BRACKET_SIZE = 32;
+
+// Judges deciding every battle; a driver needs the majority of their votes to win a run
+export const JUDGE_COUNT = 3;
+
+// Qualifying gives every driver this many runs; the best one counts
+export const QUALIFICATION_RUN_OPTIONS = [1, 2, 3];
+
+export const DEFAULT_QUALIFICATION_RULE: QualificationRule = {
+  runCount: 2,
+  tiebreakers: ['SECOND_BEST_RUN', 'RUN_ORDER'],
+};
+
+// Tiebreak rules offered in the qualification view
+export const QUALIFICATION_TIEBREAK_OPTIONS: { label: string; tiebreakers: QualificationTiebreaker[] }[] = [
+  { label: 'Teine sõit, siis stardijärjekord', tiebreakers: ['SECOND_BEST_RUN', 'RUN_ORDER'] },
+  { label: 'Teine sõit', tiebreakers: ['SECOND_BEST_RUN'] },
+  { label: 'Stardijärjekord', tiebreakers: ['RUN_ORDER'] },
+];
+
+// Registration is open with no limits, and registrations join the standings right away
+export const DEFAULT_REGISTRATION_SETTINGS: RegistrationSettings = {
+  requireApproval: false,
+  isOpen: true,
+  opensAt: null,
+  closesAt: null,
+  capacity: null,
+};
+
+// Length limits of participant names, in characters after normalization
+export const NAME_MIN_LENGTH = 2;
+export const NAME_MAX_LENGTH = 40;
+
+// Limits of a driver profile: competition numbers run from 1, and text fields are counted in
+// characters after trimming
+export const CAR_NUMBER_MAX = 999;
+export const PROFILE_TEXT_MAX_LENGTH = 40;
+export const SOCIAL_HANDLE_MAX_LENGTH = 30;
+
+export const EMPTY_DRIVER_PROFILE: DriverProfile = {
+  carNumber: null,
+  car: '',
+  team: '',
+  nationality: '',
+  social: '',
+};
+
+// Nationalities a driver can pick, by ISO 3166-1 alpha-2 code
+export const COUNTRIES: { code: string; name: string }[] = [
+  { code: 'EE', name: 'Eesti' },
+  { code: 'LV', name: 'Läti' },
+  { code: 'LT', name: 'Leedu' },
+  { code: 'FI', name: 'Soome' },
+  { code: 'SE', name: 'Rootsi' },
+  { code: 'NO', name: 'Norra' },
+  { code: 'DK', name: 'Taani' },
+  { code: 'PL', name: 'Poola' },
+  { code: 'DE', name: 'Saksamaa' },
+  { code: 'GB', name: 'Suurbritannia' },
+  { code: 'IE', name: 'Iirimaa' },
+  { code: 'NL', name: 'Holland' },
+  { code: 'BE', name: 'Belgia' },
+  { code: 'FR', name: 'Prantsusmaa' },
+  { code: 'IT', name: 'Itaalia' },
+  { code: 'ES', name: 'Hispaania' },
+  { code: 'CZ', name: 'Tšehhi' },
+  { code: 'UA', name: 'Ukraina' },
+  { code: 'US', name: 'Ameerika Ühendriigid' },
+  { code: 'JP', name: 'Jaapan' },
+];
+
+// Self-registrations a session takes per window, against scripted sign-up floods
+export const REGISTRATION_RATE_LIMIT = { count: 10, windowMs: 60 * 1000 };
+
+// What the registration page tells registrants while registration is closed
+export const REGISTRATION_CLOSED_MESSAGES: Record<RegistrationClosedReason, string> = {
+  CLOSED: 'Registreerimine on suletud',
+  NOT_OPEN_YET: 'Registreerimine pole veel alanud',
+  ENDED: 'Registreerimine on lõppenud',
+  COMPETITION_RUNNING: 'Võistlus on käimas, registreerimine avaneb pärast võistlust',
+};
+
+// Length limits of a season round's name and venue
+export const ROUND_NAME_MAX_LENGTH = 60;
+export const ROUND_VENUE_MAX_LENGTH = 80;
+
+// Statuses of a season round. A round is running from check-in until its competition is
+// finished; only planned rounds can be cancelled.
+export const ROUND_STATUSES: { status: RoundStatus; label: string }[] = [
+  { status: 'PLANNED', label: 'Tulemas' },
+  { status: 'RUNNING', label: 'Käimas' },
+  { status: 'DONE', label: 'Toimunud' },
+  { status: 'CANCELLED', label: 'Ära jäetud' },
+];
+
+// Run statuses with their short label and description. In qualification DNS, DNF and zero
+// runs count as 0 and DSQ voids the entry; in a battle any status hands the win to the
+// opponent, and a DSQ also forfeits the main event points.
+export const RUN_STATUSES: { status: RunStatus; short: string; label: string }[] = [
+  { status: 'DNS', short: 'DNS', label: 'Ei startinud' },
+  { status: 'DNF', short: 'DNF', label: 'Ei lõpetanud' },
+  { status: 'ZERO', short: '0', label: 'Nullsõit' },
+  { status: 'DSQ', short: 'DSQ', label: 'Diskvalifitseeritud' },
+];
+
+// Battle statuses: the run statuses plus a walkover against a driver who withdrew
+export const BATTLE_STATUSES: { status: BattleStatusCode; short: string; label: string }[] = [
+  ...RUN_STATUSES,
+  { status: 'WD', short: 'WD', label: 'Loobus' },
+];
+
+// Roles with what each is for. The owner can run every admin mutation.
+export const ROLES: { role: Role; label: string; description: string }[] = [
+  { role: 'OWNER', label: 'Omanik', description: 'Kõik toimingud, sh hooaja seaded, lähtestamine ja ligipääsude haldamine' },
+  { role: 'SCOREKEEPER', label: 'Punktiarvestaja', description: "Kvalifikatsiooni tulemused, battle'i hääled, võitjad ja staatused" },
+  { role: 'BRACKET_OPERATOR', label: 'Tabeli haldur', description: 'Kohaloleku märkimine, võistluse alustamine, tabeli seaded ja loomine, võitjad, loobumised ja võistluse lõpetamine' },
+  { role: 'REGISTRATION_DESK', label: 'Registreerimislaud', description: 'Osalejate lisamine sarja ja nende andmete muutmine, registreerimiste kinnitamine ja kohaloleku märkimine' },
+];
+
+// Admin mutations each role other than the owner may run. Restoring an earlier state is only
+// allowed over changes the role could have made itself (see convex/events.ts).
+export const ROLE_PERMISSIONS: Record<Exclude<Role, 'OWNER'>, AdminMutation[]> = {
+  SCOREKEEPER: [
+    'setQualificationScore',
+    'setQualificationRunStatus',
+    'setJudgeVote',
+    'setMatchWinner',
+    'clearMatchWinner',
+    'setBattleStatus',
+    'restoreState',
+  ],
+  BRACKET_OPERATOR: [
+    'startCheckIn',
+    'setCheckedIn',
+    'startCompetition',
+    'setQualificationRule',
+    'setBracketSize',
+    'setBracketFormat',
+    'setGrandFinalReset',
+    'generateBracket',
+    'setMatchWinner',
+    'clearMatchWinner',
+    'setBattleStatus',
+    'withdrawParticipant',
+    'finishCompetition',
+    'restoreState',
+  ],
+  REGISTRATION_DESK: [
+    'addParticipant',
+    'setParticipantProfile',
+    'setCheckedIn',
+    'approveRegistration',
+    'rejectRegistration',
+    'mergeRegistration',
+    'restoreState',
+  ],
+};
+
+// What each change to a session was, for the history and undo controls. Judge pages and
+// registration make some changes outside the admin mutations.
+export const ACTION_LABELS: Record<AdminMutation | 'createSession' | 'registerParticipant' | 'checkIn' | 'submitJudgeScore' | 'submitJudgeVote', string> = {
+  createSession: 'Võistlus loodi',
+  registerParticipant: 'Registreerus',
+  addParticipant: 'Osaleja lisati',
+  removeParticipant: 'Osaleja eemaldati',
+  setParticipantProfile: 'Osaleja andmed',
+  setTotalCompetitions: 'Hooaja pikkus',
+  setPointsScheme: 'Punktisüsteem muudeti',
+  resetChampionship: 'Meistrivõistlused lähtestati',
+  startCheckIn: 'Kohaloleku märkimine algas',
+  setCheckedIn: 'Kohalolek',
+  checkIn: 'Märkis end kohalolevaks',
+  startCompetition: 'Võistlus algas',
+  setQualificationScore: 'Kvalifikatsiooni tulemus',
+  submitJudgeScore: 'Kvalifikatsiooni tulemus',
+  setQualificationRunStatus: 'Sõidu staatus',
+  setQualificationRule: 'Kvalifikatsiooni reeglid',
+  setBracketSize: 'Tabeli suurus',
+  setBracketFormat: 'Tabeli formaat',
+  setGrandFinalReset: 'Suurfinaali lähtestus',
+  generateBracket: 'Tabel loodi',
+  setMatchWinner: "Battle'i võitja",
+  clearMatchWinner: "Battle'i tulemus tühistati",
+  setJudgeVote: 'Kohtuniku hääl',
+  submitJudgeVote: 'Kohtuniku hääl',
+  setBattleStatus: "Battle'i staatus",
+  withdrawParticipant: 'Loobumine',
+  finishCompetition: 'Võistlus lõpetati',
+  amendCompetition: 'Etapi tulemusi parandati',
+  setRound: 'Etapi andmed',
+  setRoundCancelled: 'Etapi toimumine',
+  createCredential: 'Ligipääs loodi',
+  revokeCredential: 'Ligipääs tühistati',
+  restoreState: 'Seis taastati',
+  setRegistrationSettings: 'Registreerimise seaded',
+  approveRegistration: 'Registreerimine kinnitati',
+  rejectRegistration: 'Registreerimine lükati tagasi',
+  mergeRegistration: 'Registreerimine liideti',
+};
+
+// Admin changes the undo history keeps
+export const UNDO_LIMIT = 50;
+
+// Events the history panel loads at a time
+export const HISTORY_PAGE_SIZE = 50;
+
+// Qualifiers this many places either side of the cut line are shown as on the bubble
+export const BUBBLE_MARGIN = 2;
+
+// Points scheme presets offered during season setup
+export const DMEC_POINTS_SCHEME: PointsScheme = {
+  name: 'DMEC',
+  qualification: [
+    { fromPlace: 1, toPlace: 1, points: 12 },
+    { fromPlace: 2, toPlace: 2, points: 10 },
+    { fromPlace: 3, toPlace: 3, points: 8 },
+    { fromPlace: 4, toPlace: 4, points: 6 },
+    { fromPlace: 5, toPlace: 6, points: 4 },
+    { fromPlace: 7, toPlace: 8, points: 3 },
+    { fromPlace: 9, toPlace: 12, points: 2 },
+    { fromPlace: 13, toPlace: 16, points: 1 },
+    { fromPlace: 17, toPlace: 24, points: 0.5 },
+    { fromPlace: 25, toPlace: 32, points: 0.25 },
+  ],
+  mainEvent: [
+    { fromPlace: 1, toPlace: 1, points: 100 },
+    { fromPlace: 2, toPlace: 2, points: 88 },
+    { fromPlace: 3, toPlace: 3, points: 76 },
+    { fromPlace: 4, toPlace: 4, points: 64 },
+    { fromPlace: 5, toPlace: 8, points: 48 },
+    { fromPlace: 9, toPlace: 16, points: 32 },
+    { fromPlace: 17, toPlace: 32, points: 16 },
+    { fromPlace: 33, toPlace: 64, points: 10 },
+  ],
+};
+
+export const CLUB_POINTS_SCHEME: PointsScheme = {
+  name: 'Klubivõistlus',
+  qualification: [
+    { fromPlace: 1, toPlace: 1, points: 3 },
+    { fromPlace: 2, toPlace: 2, points: 2 },
+    { fromPlace: 3, toPlace: 3, points: 1 },
+  ],
+  mainEvent: [
+    { fromPlace: 1, toPlace: 1, points: 25 },
+    { fromPlace: 2, toPlace: 2, points: 18 },
+    { fromPlace: 3, toPlace: 3, points: 15 },
+    { fromPlace: 4, toPlace: 4, points: 12 },
+    { fromPlace: 5, toPlace: 8, points: 8 },
+    { fromPlace: 9, toPlace: 16, points: 4 },
+  ],
+};
+
+export const POINTS_SCHEME_PRESETS: PointsScheme[] = [DMEC_POINTS_SCHEME, CLUB_POINTS_SCHEME];
+
 export enum AppPhase {
   CHAMPIONSHIP_VIEW = 'CHAMPIONSHIP_VIEW',
+  CHECK_IN = 'CHECK_IN',
   QUALIFICATION = 'QUALIFICATION',
   BRACKET = 'BRACKET',
   FINISHED = 'FINISHED',
-}
\ No newline at end of file
+}
@@ -8,7 +8,17 @@
  * @module
  */
 
+import type * as archive from "../archive.js";
+import type * as competition from "../competition.js";
+import type * as credentials from "../credentials.js";
+import type * as events from "../events.js";
+import type * as judges from "../judges.js";
+import type * as registrations from "../registrations.js";
+import type * as roles from "../roles.js";
+import type * as secrets from "../secrets.js";
+import type * as sessionState from "../sessionState.js";
 import type * as sessions from "../sessions.js";
+import type * as validators from "../validators.js";
 
 import type {
   ApiFromModules,
@@ -17,7 +27,17 @@ import type {
 } from "convex/server";
 
 declare const fullApi: ApiFromModules<{
+  archive: typeof archive;
+  competition: typeof competition;
+  credentials: typeof credentials;
+  events: typeof events;
+  judges: typeof judges;
+  registrations: typeof registrations;
+  roles: typeof roles;
+  secrets: typeof secrets;
+  sessionState: typeof sessionState;
   sessions: typeof sessions;
+  validators: typeof validators;
 }>;
 
 /**
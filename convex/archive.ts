@@ -0,0 +1,84 @@
+import { v } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import type { Doc } from "./_generated/dataModel";
+import type { MutationCtx, QueryCtx } from "./_generated/server";
+import { adminArgs, competitionCorrectionValidator } from "./validators";
+import { applyTransition, getAdminSession, getSessionDoc, toAppState } from "./sessionState";
+import { amendCompetitionRecord, applyArchivedPoints, createCompetitionRecord } from "../engine/archive";
+import type { CompetitionRecord } from "../types";
+
+// The archive of finished competitions (see schema.ts). finishCompetition archives the
+// competition before its points go into the standings and the next one can start. Records
+// are never changed: a correction stores a new record in place of the old one in the state.
+
+const toCompetitionRecord = ({ _id, _creationTime, sessionId, createdAt, ...record }: Doc<"competitions">): CompetitionRecord => ({
+  id: _id as string,
+  ...record,
+});
+
+// Records a session state lists, in its order; ids that no longer resolve are left out
+const getCompetitionRecords = async (ctx: QueryCtx, recordIds: string[]) => {
+  const records = await Promise.all(
+    recordIds.map(async (recordId) => {
+      const id = ctx.db.normalizeId("competitions", recordId);
+      return id ? await ctx.db.get(id) : null;
+    })
+  );
+  return records.filter((record) => record !== null).map(toCompetitionRecord);
+};
+
+// Stores the session's finished competition and returns the row's id, or null while no
+// competition is finished
+export const archiveCompetition = async (ctx: MutationCtx, session: Doc<"sessions">) => {
+  const now = Date.now();
+  const record = createCompetitionRecord(toAppState(session), now);
+  if (!record) return null;
+  const id = await ctx.db.insert("competitions", { sessionId: session.sessionId, ...record, createdAt: now });
+  return id as string;
+};
+
+// ============ QUERIES ============
+
+// Competitions held in the session's season, oldest first (PUBLIC - spectators browse them)
+export const listCompetitions = query({
+  args: { sessionId: v.string() },
+  handler: async (ctx, args): Promise<CompetitionRecord[] | null> => {
+    const session = await getSessionDoc(ctx, args.sessionId);
+    if (!session) return null;
+    return await getCompetitionRecords(ctx, session.competitionRecordIds ?? []);
+  },
+});
+
+// ============ MUTATIONS ============
+
+// Corrects the results of a competition already held (ADMIN ONLY - owner). The corrections
+// are applied to the archived results by the usual rules, its points are recomputed, and every
+// archived competition's points are put back into the standings.
+export const amendCompetition = mutation({
+  args: {
+    ...adminArgs,
+    recordId: v.string(),
+    corrections: v.array(competitionCorrectionValidator),
+  },
+  handler: async (ctx, args) => {
+    const { session, change, baseVersion } = await getAdminSession(ctx, args, "amendCompetition");
+    const recordIds = session.competitionRecordIds ?? [];
+    const [record] = recordIds.includes(args.recordId) ? await getCompetitionRecords(ctx, [args.recordId]) : [];
+    if (!record) throw new Error("Sellist etappi ei leitud");
+    if (args.corrections.length === 0) return baseVersion;
+
+    const now = Date.now();
+    const amended = amendCompetitionRecord(record, args.corrections, now);
+    const amendedId = (await ctx.db.insert("competitions", { sessionId: session.sessionId, ...amended, createdAt: now })) as string;
+    const competitionRecordIds = recordIds.map((id) => (id === args.recordId ? amendedId : id));
+    const records = await getCompetitionRecords(ctx, competitionRecordIds);
+
+    return await applyTransition(
+      ctx,
+      session,
+      (state) => ({ ...state, competitionRecordIds, standings: applyArchivedPoints(state.standings, records) }),
+      { ...change, args: { ...change.args, name: record.name } },
+      baseVersion
+    );
+  },
+});
@@ -0,0 +1,213 @@
+import { v } from "convex/values";
+import { mutation } from "./_generated/server";
+import type { MutationCtx } from "./_generated/server";
+import {
+  adminArgs,
+  bracketFormatValidator,
+  judgeVoteValidator,
+  pointsSchemeValidator,
+  qualificationRuleValidator,
+  roundDetailsValidator,
+  runStatusValidator,
+} from "./validators";
+import { applyTransition, getAdminSession } from "./sessionState";
+import { archiveCompetition } from "./archive";
+import type { AdminMutation, AppState } from "../types";
+import { findProgressMatch } from "../engine/bracket";
+import * as tournament from "../engine/tournament";
+
+// One mutation per admin action. Each runs the same engine transition the rules are tested
+// with, on the stored session, so the server decides what a valid bracket or result is.
+// Every action names the session version it was based on and returns the version after it.
+
+// Applies a transition for the session's admin (ADMIN ONLY - requires a secret whose role may run
+// the mutation, and the current version).
+// Returns the new session version, which the admin bases their next action on.
+const applyAdminTransition = async (
+  ctx: MutationCtx,
+  args: { sessionId: string; adminSecret: string; expectedVersion: number },
+  mutation: AdminMutation,
+  transition: (state: AppState) => AppState
+) => {
+  const { session, change, baseVersion } = await getAdminSession(ctx, args, mutation);
+  return await applyTransition(ctx, session, transition, change, baseVersion);
+};
+
+// ============ SEASON ============
+
+export const setTotalCompetitions = mutation({
+  args: { ...adminArgs, totalCompetitions: v.number() },
+  handler: (ctx, args) =>
+    applyAdminTransition(ctx, args, "setTotalCompetitions", (state) => tournament.setTotalCompetitions(state, args.totalCompetitions)),
+});
+
+export const setPointsScheme = mutation({
+  args: { ...adminArgs, scheme: pointsSchemeValidator },
+  handler: (ctx, args) =>
+    applyAdminTransition(ctx, args, "setPointsScheme", (state) => tournament.setPointsScheme(state, args.scheme)),
+});
+
+// Names a round of the calendar or sets its date and venue
+export const setRound = mutation({
+  args: { ...adminArgs, roundIndex: v.number(), details: roundDetailsValidator },
+  handler: (ctx, args) =>
+    applyAdminTransition(ctx, args, "setRound", (state) => tournament.setRound(state, args.roundIndex, args.details)),
+});
+
+export const setRoundCancelled = mutation({
+  args: { ...adminArgs, roundIndex: v.number(), cancelled: v.boolean() },
+  handler: (ctx, args) =>
+    applyAdminTransition(ctx, args, "setRoundCancelled", (state) => tournament.setRoundCancelled(state, args.roundIndex, args.cancelled)),
+});
+
+// Starts a new season from scratch; the session and its links stay the same
+export const resetChampionship = mutation({
+  args: adminArgs,
+  handler: (ctx, args) => applyAdminTransition(ctx, args, "resetChampionship", () => tournament.createInitialState()),
+});
+
+// ============ CHECK-IN ============
+
+export const startCheckIn = mutation({
+  args: adminArgs,
+  handler: (ctx, args) => applyAdminTransition(ctx, args, "startCheckIn", tournament.startCheckIn),
+});
+
+// Drivers can also check themselves in from the registration page (see registrations.ts)
+export const setCheckedIn = mutation({
+  args: {
+    ...adminArgs,
+    participantIds: v.array(v.number()),
+    present: v.boolean(),
+  },
+  handler: (ctx, args) =>
+    applyAdminTransition(ctx, args, "setCheckedIn", (state) => tournament.setCheckedIn(state, args.participantIds, args.present)),
+});
+
+// ============ QUALIFICATION ============
+
+// Ends check-in and starts qualification with the drivers present
+export const startCompetition = mutation({
+  args: adminArgs,
+  handler: (ctx, args) => applyAdminTransition(ctx, args, "startCompetition", tournament.startCompetition),
+});
+
+export const setQualificationScore = mutation({
+  args: {
+    ...adminArgs,
+    participantId: v.number(),
+    runIndex: v.number(),
+    score: v.union(v.number(), v.null()),
+  },
+  handler: (ctx, args) =>
+    applyAdminTransition(ctx, args, "setQualificationScore", (state) =>
+      tournament.setQualificationScore(state, args.participantId, args.score, args.runIndex)
+    ),
+});
+
+export const setQualificationRunStatus = mutation({
+  args: {
+    ...adminArgs,
+    participantId: v.number(),
+    runIndex: v.number(),
+    status: v.union(runStatusValidator, v.null()),
+  },
+  handler: (ctx, args) =>
+    applyAdminTransition(ctx, args, "setQualificationRunStatus", (state) =>
+      tournament.setQualificationRunStatus(state, args.participantId, args.runIndex, args.status)
+    ),
+});
+
+export const setQualificationRule = mutation({
+  args: { ...adminArgs, rule: qualificationRuleValidator },
+  handler: (ctx, args) =>
+    applyAdminTransition(ctx, args, "setQualificationRule", (state) => tournament.setQualificationRule(state, args.rule)),
+});
+
+export const setBracketSize = mutation({
+  args: { ...adminArgs, bracketSize: v.number() },
+  handler: (ctx, args) =>
+    applyAdminTransition(ctx, args, "setBracketSize", (state) => tournament.setBracketSize(state, args.bracketSize)),
+});
+
+export const setBracketFormat = mutation({
+  args: { ...adminArgs, bracketFormat: bracketFormatValidator },
+  handler: (ctx, args) =>
+    applyAdminTransition(ctx, args, "setBracketFormat", (state) => tournament.setBracketFormat(state, args.bracketFormat)),
+});
+
+export const setGrandFinalReset = mutation({
+  args: { ...adminArgs, grandFinalReset: v.boolean() },
+  handler: (ctx, args) =>
+    applyAdminTransition(ctx, args, "setGrandFinalReset", (state) => tournament.setGrandFinalReset(state, args.grandFinalReset)),
+});
+
+// Seeds the qualifiers into a bracket of the chosen format
+export const generateBracket = mutation({
+  args: adminArgs,
+  handler: (ctx, args) =>
+    applyAdminTransition(ctx, args, "generateBracket", (state) => tournament.startBracket(state)),
+});
+
+// ============ BRACKET ============
+
+export const setMatchWinner = mutation({
+  args: { ...adminArgs, matchId: v.number(), winnerId: v.number() },
+  handler: (ctx, args) =>
+    applyAdminTransition(ctx, args, "setMatchWinner", (state) => {
+      const match = findProgressMatch(state, args.matchId);
+      const winner = [match?.participant1, match?.participant2].find((p) => p?.id === args.winnerId);
+      if (!winner) throw new Error("Sõitja ei osale selles battle'is");
+      return tournament.setMatchWinner(state, args.matchId, winner);
+    }),
+});
+
+export const clearMatchWinner = mutation({
+  args: { ...adminArgs, matchId: v.number() },
+  handler: (ctx, args) =>
+    applyAdminTransition(ctx, args, "clearMatchWinner", (state) => tournament.clearMatchWinner(state, args.matchId)),
+});
+
+// A vote entered by the admin on a judge's behalf
+export const setJudgeVote = mutation({
+  args: { ...adminArgs, matchId: v.number(), judgeIndex: v.number(), vote: judgeVoteValidator },
+  handler: (ctx, args) =>
+    applyAdminTransition(ctx, args, "setJudgeVote", (state) =>
+      tournament.setJudgeVote(state, args.matchId, args.judgeIndex, args.vote)
+    ),
+});
+
+export const setBattleStatus = mutation({
+  args: { ...adminArgs, matchId: v.number(), participantId: v.number(), status: runStatusValidator },
+  handler: (ctx, args) =>
+    applyAdminTransition(ctx, args, "setBattleStatus", (state) =>
+      tournament.setBattleStatus(state, args.matchId, args.participantId, args.status)
+    ),
+});
+
+export const withdrawParticipant = mutation({
+  args: { ...adminArgs, participantId: v.number() },
+  handler: (ctx, args) =>
+    applyAdminTransition(ctx, args, "withdrawParticipant", (state) => tournament.withdrawParticipant(state, args.participantId)),
+});
+
+// Archives a finished competition, awards its points and returns to the standings
+export const finishCompetition = mutation({
+  args: adminArgs,
+  handler: async (ctx, args) => {
+    const { session, change, baseVersion } = await getAdminSession(ctx, args, "finishCompetition");
+    const recordId = await archiveCompetition(ctx, session);
+    if (!recordId) return baseVersion;
+
+    return await applyTransition(
+      ctx,
+      session,
+      (state) => ({
+        ...tournament.finishCompetition(state),
+        competitionRecordIds: [...state.competitionRecordIds, recordId],
+      }),
+      change,
+      baseVersion
+    );
+  },
+});
@@ -0,0 +1,60 @@
+import { v } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import { adminArgs, staffRoleValidator } from "./validators";
+import { getAdminSession, getSessionDoc, patchSession } from "./sessionState";
+import { deriveCredentialSecret, hashSecret } from "./secrets";
+import { getRole } from "./roles";
+
+// Credentials the owner hands out to the other roles. The server keeps only the hash of each
+// credential's secret; the owner's page derives the secret again to show its link.
+
+// ============ QUERIES ============
+
+// Credentials of the session (OWNER ONLY - null for any other secret), without their hashes
+export const listCredentials = query({
+  args: { sessionId: v.string(), adminSecret: v.string() },
+  handler: async (ctx, args) => {
+    const session = await getSessionDoc(ctx, args.sessionId);
+    if (!session || (await getRole(session, args.adminSecret)) !== "OWNER") return null;
+
+    return (session.credentials ?? []).map(({ secretHash, ...credential }) => credential);
+  },
+});
+
+// ============ MUTATIONS ============
+
+// Hand out a credential for a role (OWNER ONLY)
+export const createCredential = mutation({
+  args: { ...adminArgs, role: staffRoleValidator, label: v.string() },
+  handler: async (ctx, args) => {
+    const { session, change } = await getAdminSession(ctx, args, "createCredential");
+
+    const label = args.label.trim();
+    if (!label) throw new Error("Ligipääsul peab olema nimi");
+
+    // Ids only grow, including past revoked credentials, so an old secret never comes back
+    const credentials = session.credentials ?? [];
+    const id = Math.max(Date.now(), (session.lastCredentialId ?? 0) + 1);
+    const secretHash = await hashSecret(await deriveCredentialSecret(args.adminSecret, id));
+
+    return await patchSession(ctx, session, {
+      credentials: [...credentials, { id, role: args.role, label, secretHash, createdAt: Date.now() }],
+      lastCredentialId: id,
+    }, change);
+  },
+});
+
+// Revoke a credential, which stops its link from working at once (OWNER ONLY)
+export const revokeCredential = mutation({
+  args: { ...adminArgs, credentialId: v.number() },
+  handler: async (ctx, args) => {
+    const { session, change } = await getAdminSession(ctx, args, "revokeCredential");
+
+    const credentials = session.credentials ?? [];
+    if (!credentials.some((c) => c.id === args.credentialId)) throw new Error("Ligipääsu ei leitud");
+
+    return await patchSession(ctx, session, {
+      credentials: credentials.filter((c) => c.id !== args.credentialId),
+    }, change);
+  },
+});
@@ -0,0 +1,132 @@
+import { v } from "convex/values";
+import { internalMutation, mutation, query } from "./_generated/server";
+import type { Doc } from "./_generated/dataModel";
+import type { QueryCtx } from "./_generated/server";
+import { adminArgs } from "./validators";
+import { getAdminSession, getSessionDoc, patchSession } from "./sessionState";
+import { canPerform, getRole } from "./roles";
+import { ACTION_LABELS, HISTORY_PAGE_SIZE } from "../constants";
+import type { AdminMutation, Role } from "../types";
+
+// The session's events log (see schema.ts), and restoring the states it keeps. The log is
+// readable by every admin role, which is who needs to look back when a result is disputed.
+
+const getEvent = (ctx: QueryCtx, sessionId: string, version: number) =>
+  ctx.db
+    .query("events")
+    .withIndex("by_sessionId_version", (q) => q.eq("sessionId", sessionId).eq("version", version))
+    .first();
+
+const getStateAfter = async (ctx: QueryCtx, event: Doc<"events">) =>
+  event.stateId ? ((await ctx.db.get(event.stateId))?.state ?? null) : (event.state ?? null);
+
+// Changes that leave the championship state alone, so restoring a state does not undo them
+const NON_STATE_ACTIONS = [
+  "createCredential",
+  "revokeCredential",
+  "setRegistrationSettings",
+  "rejectRegistration",
+  "mergeRegistration",
+];
+const isStateChange = (action: string) => !NON_STATE_ACTIONS.includes(action);
+
+// Whether a change after `version` keeps a role other than the owner from restoring it: a
+// change the role could not have made, or a restore by another role. One indexed lookup per
+// action, so the check does not grow with the number of later events.
+const hasBlockingChangeAfter = async (ctx: QueryCtx, sessionId: string, version: number, role: Role) => {
+  const laterByAction = (action: string) =>
+    ctx.db
+      .query("events")
+      .withIndex("by_sessionId_action_version", (q) =>
+        q.eq("sessionId", sessionId).eq("action", action).gt("version", version)
+      );
+
+  const forbidden = Object.keys(ACTION_LABELS).filter(
+    (action) => isStateChange(action) && action !== "restoreState" && !canPerform(role, action as AdminMutation)
+  );
+  for (const action of forbidden) {
+    if (await laterByAction(action).first()) return true;
+  }
+  const otherRestore = await laterByAction("restoreState")
+    .filter((q) => q.neq(q.field("role"), role))
+    .first();
+  return otherRestore !== null;
+};
+
+// Most events one listing reads, whatever the panel asks for
+const MAX_LISTED_EVENTS = 20 * HISTORY_PAGE_SIZE;
+
+// ============ QUERIES ============
+
+// The latest `limit` events of the session, newest first, without their states
+// (ADMIN ONLY - null for a wrong secret). The history panel asks for more a page at a time.
+export const listEvents = query({
+  args: { sessionId: v.string(), adminSecret: v.string(), limit: v.number() },
+  handler: async (ctx, args) => {
+    const session = await getSessionDoc(ctx, args.sessionId);
+    if (!session || !(await getRole(session, args.adminSecret))) return null;
+
+    const limit = Math.min(Math.max(Math.floor(args.limit) || HISTORY_PAGE_SIZE, 1), MAX_LISTED_EVENTS);
+    const events = await ctx.db
+      .query("events")
+      .withIndex("by_sessionId_version", (q) => q.eq("sessionId", args.sessionId))
+      .order("desc")
+      .take(limit);
+    return events.map(({ state, stateId, ...event }) => event);
+  },
+});
+
+// Championship state right after an event (ADMIN ONLY - null for a wrong secret)
+export const getEventState = query({
+  args: { sessionId: v.string(), adminSecret: v.string(), version: v.number() },
+  handler: async (ctx, args) => {
+    const session = await getSessionDoc(ctx, args.sessionId);
+    if (!session || !(await getRole(session, args.adminSecret))) return null;
+
+    const event = await getEvent(ctx, args.sessionId, args.version);
+    return event ? await getStateAfter(ctx, event) : null;
+  },
+});
+
+// ============ MUTATIONS ============
+
+// Puts the championship state back to how it was after an earlier event, as a new change.
+// This is how admins undo and redo. The owner can restore any state; other roles only over
+// changes they could have made themselves, so a scorekeeper cannot undo a registration or
+// a reset.
+export const restoreState = mutation({
+  args: { ...adminArgs, version: v.number() },
+  handler: async (ctx, args) => {
+    const { session, role, change } = await getAdminSession(ctx, args, "restoreState");
+
+    const target = await getEvent(ctx, args.sessionId, args.version);
+    if (!target) throw new Error("Sellist versiooni ei leitud");
+
+    const state = await getStateAfter(ctx, target);
+    if (!state) throw new Error("Sellist versiooni ei leitud");
+
+    if (role !== "OWNER" && (await hasBlockingChangeAfter(ctx, args.sessionId, args.version, role))) {
+      throw new Error("Sinu rollil ei ole õigust seda seisu taastada");
+    }
+
+    return await patchSession(ctx, session, state, change);
+  },
+});
+
+// Moves the states of events recorded before eventStates existed out of the events table, a
+// batch at a time (run from the dashboard until it returns 0).
+export const moveEventStates = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const events = await ctx.db
+      .query("events")
+      .filter((q) => q.neq(q.field("state"), undefined))
+      .take(100);
+    for (const event of events) {
+      if (!event.state) continue;
+      const stateId = await ctx.db.insert("eventStates", { state: event.state });
+      await ctx.db.patch(event._id, { stateId, state: undefined });
+    }
+    return events.length;
+  },
+});
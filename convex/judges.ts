@@ -0,0 +1,113 @@
+import { v } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import { judgeVoteValidator } from "./validators";
+import { applyTransition, getSessionDoc as getSession } from "./sessionState";
+import { getJudgeIndex } from "./secrets";
+import { getAllMatches } from "../engine/bracket";
+import { setJudgeVote, setQualificationScore } from "../engine/tournament";
+import { DEFAULT_QUALIFICATION_RULE } from "../constants";
+
+// ============ QUERIES ============
+
+// Which judge a judge link belongs to (null for an unknown session or token)
+export const getJudgeAssignment = query({
+  args: { sessionId: v.string(), token: v.string() },
+  handler: async (ctx, args) => {
+    const session = await getSession(ctx, args.sessionId);
+    if (!session) return null;
+
+    const judgeIndex = await getJudgeIndex(session, args.token);
+    return judgeIndex === -1 ? null : { judgeIndex };
+  },
+});
+
+// ============ MUTATIONS ============
+
+// Battle vote from a judge page (JUDGE ONLY - requires the judge's token)
+export const submitJudgeVote = mutation({
+  args: {
+    sessionId: v.string(),
+    token: v.string(),
+    matchId: v.number(),
+    vote: judgeVoteValidator,
+  },
+  handler: async (ctx, args) => {
+    const session = await getSession(ctx, args.sessionId);
+    if (!session) throw new Error("Session not found");
+
+    const judgeIndex = await getJudgeIndex(session, args.token);
+    if (judgeIndex === -1) throw new Error("Unauthorized: Invalid judge token");
+    if (session.phase !== "BRACKET") throw new Error("Praegu ei toimu ühtegi battle'it");
+
+    const match = getAllMatches({
+      bracketFormat: session.bracketFormat ?? "SINGLE_ELIMINATION",
+      grandFinalReset: session.grandFinalReset ?? false,
+      bracket: session.bracket,
+      thirdPlaceMatch: session.thirdPlaceMatch,
+      losersBracket: session.losersBracket ?? [],
+      grandFinals: session.grandFinals ?? [],
+    }).find((m) => m.id === args.matchId);
+    if (!match || !match.participant1 || !match.participant2 || match.winner) {
+      throw new Error("See battle ei ole enam hindamiseks avatud");
+    }
+
+    await applyTransition(ctx, session, (state) => setJudgeVote(state, args.matchId, judgeIndex, args.vote), {
+      action: "submitJudgeVote",
+      args: { matchId: args.matchId, vote: args.vote },
+      role: "JUDGE",
+      actor: `Kohtunik ${judgeIndex + 1}`,
+    });
+    await ctx.db.insert("judgeInputs", {
+      sessionId: args.sessionId,
+      judgeIndex,
+      input: { kind: "vote", matchId: args.matchId, vote: args.vote },
+      createdAt: Date.now(),
+      processed: true,
+    });
+  },
+});
+
+// Qualification run score from a judge page (JUDGE ONLY - requires the judge's token)
+export const submitJudgeScore = mutation({
+  args: {
+    sessionId: v.string(),
+    token: v.string(),
+    participantId: v.number(),
+    runIndex: v.number(),
+    score: v.union(v.number(), v.null()),
+  },
+  handler: async (ctx, args) => {
+    const session = await getSession(ctx, args.sessionId);
+    if (!session) throw new Error("Session not found");
+
+    const judgeIndex = await getJudgeIndex(session, args.token);
+    if (judgeIndex === -1) throw new Error("Unauthorized: Invalid judge token");
+    if (session.phase !== "QUALIFICATION") throw new Error("Kvalifikatsioon ei ole käimas");
+    if (!session.competitionParticipants.some((p) => p.id === args.participantId)) {
+      throw new Error("Osalejat ei leitud");
+    }
+    const runCount = (session.qualificationRule ?? DEFAULT_QUALIFICATION_RULE).runCount;
+    if (!Number.isInteger(args.runIndex) || args.runIndex < 0 || args.runIndex >= runCount) {
+      throw new Error("Sellist sõitu ei ole");
+    }
+
+    await applyTransition(
+      ctx,
+      session,
+      (state) => setQualificationScore(state, args.participantId, args.score, args.runIndex),
+      {
+        action: "submitJudgeScore",
+        args: { participantId: args.participantId, runIndex: args.runIndex, score: args.score },
+        role: "JUDGE",
+        actor: `Kohtunik ${judgeIndex + 1}`,
+      }
+    );
+    await ctx.db.insert("judgeInputs", {
+      sessionId: args.sessionId,
+      judgeIndex,
+      input: { kind: "score", participantId: args.participantId, runIndex: args.runIndex, score: args.score },
+      createdAt: Date.now(),
+      processed: true,
+    });
+  },
+});
@@ -0,0 +1,243 @@
+import { ConvexError, v } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import type { Doc } from "./_generated/dataModel";
+import type { MutationCtx, QueryCtx } from "./_generated/server";
+import { adminArgs, registrationSettingsValidator } from "./validators";
+import { applyTransition, getAdminSession, getSessionDoc, patchSession } from "./sessionState";
+import { getRole } from "./roles";
+import { AppPhase, DEFAULT_REGISTRATION_SETTINGS, REGISTRATION_RATE_LIMIT } from "../constants";
+import { isCarNumberTaken } from "../engine/profile";
+import { isFieldFull, isNameTaken, validateRegistrationSettings } from "../engine/registration";
+import { setCheckedIn } from "../engine/tournament";
+
+// The approval queue and waitlist for self-registrations. With approvals on, or once the field
+// is full, registerParticipant (see sessions.ts) only queues the registration, and an admin
+// approves it into the standings, rejects it, or merges it into a participant already there
+// (e.g. the same driver spelled differently). Registration ids are the documents' ids, which
+// the registrant's page keeps to follow its registration.
+
+const getRegistrationDoc = async (ctx: QueryCtx, sessionId: string, registrationId: string) => {
+  const id = ctx.db.normalizeId("registrations", registrationId);
+  const registration = id ? await ctx.db.get(id) : null;
+  return registration?.sessionId === sessionId ? registration : null;
+};
+
+const isQueued = (registration: Doc<"registrations">) =>
+  registration.status === "PENDING" || registration.status === "WAITLISTED";
+
+// Registrations waiting for approval or on the waitlist, oldest first
+export const getQueuedRegistrations = async (ctx: QueryCtx, sessionId: string) => {
+  const registrations = await ctx.db
+    .query("registrations")
+    .withIndex("by_sessionId_unprocessed", (q) => q.eq("sessionId", sessionId).eq("processed", false))
+    .collect();
+  return registrations.filter(isQueued);
+};
+
+// A registration an admin can still decide on
+const getQueuedRegistrationDoc = async (ctx: MutationCtx, sessionId: string, registrationId: string) => {
+  const registration = await getRegistrationDoc(ctx, sessionId, registrationId);
+  if (!registration) throw new Error("Registreerimist ei leitud");
+  if (!isQueued(registration)) throw new Error("Registreerimine on juba otsustatud");
+  return registration;
+};
+
+// Standings plus the registrations waiting for approval, which the capacity counts so that
+// approving them cannot overfill the field
+export const countEntrants = (session: Doc<"sessions">, queued: Doc<"registrations">[]) =>
+  session.standings.length + queued.filter((r) => r.status === "PENDING").length;
+
+// Whether the session has taken as many self-registrations as the rate limit allows lately
+export const isRegistrationRateLimited = async (ctx: QueryCtx, sessionId: string, now: number) => {
+  const recent = await ctx.db
+    .query("registrations")
+    .withIndex("by_sessionId_createdAt", (q) =>
+      q.eq("sessionId", sessionId).gt("createdAt", now - REGISTRATION_RATE_LIMIT.windowMs)
+    )
+    .take(REGISTRATION_RATE_LIMIT.count);
+  return recent.length >= REGISTRATION_RATE_LIMIT.count;
+};
+
+// Thrown when a self-registration is turned away, for the registration page to show by the
+// field it is about, or above the form when field is null
+export type RegistrationError = { kind: "REGISTRATION_ERROR"; field: "name" | "profile" | null; message: string };
+
+export const registrationError = (field: RegistrationError["field"], message: string) =>
+  new ConvexError<RegistrationError>({ kind: "REGISTRATION_ERROR", field, message });
+
+// Registrations from before approvals joined the standings directly
+export const getRegistrationStatus = (registration: Doc<"registrations">) => registration.status ?? "APPROVED";
+
+// Standing the registrant became, once approved or merged
+const getStandingId = (registration: Doc<"registrations">) => {
+  const status = getRegistrationStatus(registration);
+  if (status === "APPROVED") return registration.participantId;
+  if (status === "MERGED") return registration.mergedInto ?? null;
+  return null;
+};
+
+// ============ QUERIES ============
+
+// Registrations waiting for approval or on the waitlist, oldest first (ADMIN ONLY - null for
+// a wrong secret)
+export const listPendingRegistrations = query({
+  args: { sessionId: v.string(), adminSecret: v.string() },
+  handler: async (ctx, args) => {
+    const session = await getSessionDoc(ctx, args.sessionId);
+    if (!session || !(await getRole(session, args.adminSecret))) return null;
+
+    const registrations = await getQueuedRegistrations(ctx, args.sessionId);
+    return registrations.map((r) => ({
+      id: r._id as string,
+      name: r.name,
+      profile: r.profile,
+      createdAt: r.createdAt,
+      status: r.status as "PENDING" | "WAITLISTED",
+    }));
+  },
+});
+
+// Whether the registration page can take a registration (PUBLIC). The page works out from the
+// settings whether registration is open at the time, since a query cannot follow the clock.
+export const getRegistrationInfo = query({
+  args: { sessionId: v.string() },
+  handler: async (ctx, args) => {
+    const session = await getSessionDoc(ctx, args.sessionId);
+    if (!session) return null;
+
+    const settings = session.registrationSettings ?? DEFAULT_REGISTRATION_SETTINGS;
+    const queued = await getQueuedRegistrations(ctx, args.sessionId);
+    return {
+      settings,
+      phase: session.phase as AppPhase,
+      isFull: isFieldFull(settings, countEntrants(session, queued)),
+    };
+  },
+});
+
+// Where a registration stands, for the registrant's page (PUBLIC - anyone holding its id).
+// Null for an unknown id.
+export const getRegistration = query({
+  args: { sessionId: v.string(), registrationId: v.string() },
+  handler: async (ctx, args) => {
+    const registration = await getRegistrationDoc(ctx, args.sessionId, args.registrationId);
+    if (!registration) return null;
+
+    const session = await getSessionDoc(ctx, args.sessionId);
+    const mergedInto = session?.standings.find((p) => p.id === registration.mergedInto);
+    const standingId = getStandingId(registration);
+    const isInStandings = !!session?.standings.some((p) => p.id === standingId);
+    const waitlist = registration.status === "WAITLISTED"
+      ? (await getQueuedRegistrations(ctx, args.sessionId)).filter((r) => r.status === "WAITLISTED")
+      : [];
+    return {
+      name: registration.name,
+      status: getRegistrationStatus(registration),
+      mergedIntoName: mergedInto?.name ?? null,
+      // Place on the waitlist, starting from 1
+      waitlistPosition: registration.status === "WAITLISTED"
+        ? waitlist.findIndex((r) => r._id === registration._id) + 1
+        : null,
+      // Whether the registrant is marked present, while check-in is open to them
+      checkedIn: session?.phase === "CHECK_IN" && isInStandings
+        ? (session.checkedInIds ?? []).includes(standingId as number)
+        : null,
+    };
+  },
+});
+
+// ============ MUTATIONS ============
+
+// Change how self-registration works (OWNER ONLY). Registrations already queued stay in the
+// queue when approvals are turned off, and the waitlist stays when the capacity is raised;
+// the admin decides on them.
+export const setRegistrationSettings = mutation({
+  args: { ...adminArgs, settings: registrationSettingsValidator },
+  handler: async (ctx, args) => {
+    const { session, change } = await getAdminSession(ctx, args, "setRegistrationSettings");
+
+    const error = validateRegistrationSettings(args.settings);
+    if (error) throw new Error(error);
+
+    return await patchSession(ctx, session, { registrationSettings: args.settings }, change);
+  },
+});
+
+// Add a queued registration to the standings, also from the waitlist when the admin makes
+// room for it (ADMIN ONLY - owner or registration desk)
+export const approveRegistration = mutation({
+  args: { ...adminArgs, registrationId: v.string() },
+  handler: async (ctx, args) => {
+    const { session, change } = await getAdminSession(ctx, args, "approveRegistration");
+    const registration = await getQueuedRegistrationDoc(ctx, args.sessionId, args.registrationId);
+
+    // The registration itself is in the queue, so it is left out
+    const otherQueued = (await getQueuedRegistrations(ctx, args.sessionId)).filter((r) => r._id !== registration._id);
+    if (isNameTaken(registration.name, session.standings, otherQueued)) {
+      throw new Error("See nimi on juba olemas. Liida registreerimine olemasoleva osalejaga.");
+    }
+    const carNumber = registration.profile?.carNumber ?? null;
+    if (isCarNumberTaken(carNumber, session.standings)) {
+      throw new Error(`Võistlusnumber ${carNumber} on juba kasutusel. Muuda enne kinnitamist teise osaleja numbrit.`);
+    }
+
+    await ctx.db.patch(registration._id, { processed: true, status: "APPROVED" });
+    const newStanding = {
+      id: registration.participantId,
+      name: registration.name,
+      pointsPerCompetition: Array(session.competitionsHeld).fill(0),
+      ...(registration.profile && { profile: registration.profile }),
+    };
+    return await patchSession(ctx, session, {
+      standings: [...session.standings, newStanding],
+    }, { ...change, args: { ...change.args, name: registration.name } });
+  },
+});
+
+// Turn a queued registration down (ADMIN ONLY - owner or registration desk)
+export const rejectRegistration = mutation({
+  args: { ...adminArgs, registrationId: v.string() },
+  handler: async (ctx, args) => {
+    const { session, change } = await getAdminSession(ctx, args, "rejectRegistration");
+    const registration = await getQueuedRegistrationDoc(ctx, args.sessionId, args.registrationId);
+
+    await ctx.db.patch(registration._id, { processed: true, status: "REJECTED" });
+    return await patchSession(ctx, session, {}, { ...change, args: { ...change.args, name: registration.name } });
+  },
+});
+
+// Mark a queued registration as a participant already in the standings, who keeps their
+// points (ADMIN ONLY - owner or registration desk)
+export const mergeRegistration = mutation({
+  args: { ...adminArgs, registrationId: v.string(), participantId: v.number() },
+  handler: async (ctx, args) => {
+    const { session, change } = await getAdminSession(ctx, args, "mergeRegistration");
+    const registration = await getQueuedRegistrationDoc(ctx, args.sessionId, args.registrationId);
+    if (!session.standings.some((p) => p.id === args.participantId)) throw new Error("Osalejat ei leitud");
+
+    await ctx.db.patch(registration._id, { processed: true, status: "MERGED", mergedInto: args.participantId });
+    return await patchSession(ctx, session, {}, { ...change, args: { ...change.args, name: registration.name } });
+  },
+});
+
+// A driver marking themselves present, or not, from the registration page during check-in
+// (PUBLIC - anyone holding the registration's id)
+export const checkIn = mutation({
+  args: { sessionId: v.string(), registrationId: v.string(), present: v.boolean() },
+  handler: async (ctx, args) => {
+    const session = await getSessionDoc(ctx, args.sessionId);
+    const registration = await getRegistrationDoc(ctx, args.sessionId, args.registrationId);
+    if (!session || !registration) throw new Error("Registreerimist ei leitud");
+    if (session.phase !== "CHECK_IN") throw new Error("Kohaloleku märkimine ei ole käimas");
+
+    const standing = session.standings.find((p) => p.id === getStandingId(registration));
+    if (!standing) throw new Error("Sind ei ole edetabelis");
+
+    return await applyTransition(ctx, session, (state) => setCheckedIn(state, [standing.id], args.present), {
+      action: "checkIn",
+      args: { participantId: standing.id, present: args.present },
+      role: "PARTICIPANT",
+      actor: standing.name,
+    });
+  },
+});
@@ -0,0 +1,27 @@
+import type { Doc } from "./_generated/dataModel";
+import { hashSecret, isAdminSecret } from "./secrets";
+import { ROLE_PERMISSIONS } from "../constants";
+import type { AdminMutation, Role } from "../types";
+
+// Which role a secret gives on a session and what that role may do. Shared with the admin
+// client, which hides the controls the current role cannot use.
+
+export const canPerform = (role: Role, mutation: AdminMutation) =>
+  role === "OWNER" || ROLE_PERMISSIONS[role].includes(mutation);
+
+// Role of the holder of a secret: the owner for the admin secret, the credential's role for a
+// credential that has not been revoked, otherwise null. Credentials also give the label the
+// owner gave them, which the events log records.
+export const getActor = async (
+  session: Doc<"sessions">,
+  secret: string
+): Promise<{ role: Role; label?: string } | null> => {
+  if (await isAdminSecret(session, secret)) return { role: "OWNER" };
+
+  const secretHash = await hashSecret(secret);
+  const credential = (session.credentials ?? []).find((c) => c.secretHash === secretHash);
+  return credential ? { role: credential.role, label: credential.label } : null;
+};
+
+export const getRole = async (session: Doc<"sessions">, secret: string) =>
+  (await getActor(session, secret))?.role ?? null;
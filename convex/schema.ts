@@ -1,61 +1,106 @@
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
-
-// Participant validator (used in qualification and bracket)
-const participantValidator = v.object({
-  id: v.number(),
-  name: v.string(),
-  score: v.union(v.number(), v.null()),
-  seed: v.number(),
-});
-
-// Championship standing validator
-const standingValidator = v.object({
-  id: v.number(),
-  name: v.string(),
-  pointsPerCompetition: v.array(v.number()),
-});
-
-// Match validator for bracket
-const matchValidator = v.object({
-  id: v.number(),
-  roundIndex: v.number(),
-  matchIndex: v.number(),
-  participant1: v.union(participantValidator, v.null()),
-  participant2: v.union(participantValidator, v.null()),
-  winner: v.union(participantValidator, v.null()),
-  nextMatchId: v.union(v.number(), v.null()),
-});
+import {
+  actorRoleValidator,
+  competitionRecordFields,
+  credentialValidator,
+  driverProfileValidator,
+  judgeInputValidator,
+  registrationSettingsValidator,
+  registrationStatusValidator,
+  sessionStateFields,
+} from "./validators";
 
 export default defineSchema({
   // Main session state (single document per session)
   sessions: defineTable({
     sessionId: v.string(),
-    adminSecret: v.string(),
-    phase: v.union(
-      v.literal("CHAMPIONSHIP_VIEW"),
-      v.literal("QUALIFICATION"),
-      v.literal("BRACKET"),
-      v.literal("FINISHED")
-    ),
-    standings: v.array(standingValidator),
-    competitionParticipants: v.array(participantValidator),
-    bracket: v.array(v.array(matchValidator)),
-    thirdPlaceMatch: v.union(matchValidator, v.null()),
-    totalCompetitions: v.union(v.number(), v.null()),
-    competitionsHeld: v.number(),
+    // SHA-256 hashes of the admin secret and of each judge's link token, the index being the
+    // judge number (see secrets.ts)
+    adminSecretHash: v.optional(v.string()),
+    judgeSecretHashes: v.optional(v.array(v.string())),
+    // Credentials for the other roles; missing until the owner hands one out
+    credentials: v.optional(v.array(credentialValidator)),
+    // Highest credential id handed out, revoked ones included
+    lastCredentialId: v.optional(v.number()),
+    // Highest participant id handed out, removed participants included; missing on sessions
+    // from before ids were counted, whose ids are timestamps
+    lastParticipantId: v.optional(v.number()),
+    // Missing until the owner changes them; registration is then open to everyone
+    registrationSettings: v.optional(registrationSettingsValidator),
+    // Plain secrets of sessions created before hashing, removed by hashLegacySecrets
+    adminSecret: v.optional(v.string()),
+    judgeSecrets: v.optional(v.array(v.string())),
+    ...sessionStateFields,
+    // Bumped by every change; admin actions name the version they were based on.
+    // Missing on sessions created before versioning, which count as version 0.
+    version: v.optional(v.number()),
     createdAt: v.number(),
     updatedAt: v.number(),
   }).index("by_sessionId", ["sessionId"]),
 
-  // Separate table for registrations (real-time participant signups)
+  // Separate table for registrations (real-time participant signups). "processed" is false
+  // while a registration waits for approval or on the waitlist.
   registrations: defineTable({
     sessionId: v.string(),
     participantId: v.number(),
     name: v.string(),
+    // Missing on registrations from before profiles
+    profile: v.optional(driverProfileValidator),
     createdAt: v.number(),
     processed: v.boolean(),
+    // Missing on registrations from before approvals, which all joined the standings
+    status: v.optional(registrationStatusValidator),
+    // Standing a merged registration was joined to
+    mergedInto: v.optional(v.number()),
   })
     .index("by_sessionId", ["sessionId"])
-    .index("by_sessionId_unprocessed", ["sessionId", "processed"]),
+    .index("by_sessionId_unprocessed", ["sessionId", "processed"])
+    .index("by_sessionId_createdAt", ["sessionId", "createdAt"]),
+
+  // Append-only log of session changes, one per version, for settling disputes. Each event
+  // refers to the championship state the change produced, so the admin can see the session as
+  // it was after any event.
+  events: defineTable({
+    sessionId: v.string(),
+    // Session version the change produced; the session's creation is version 0
+    version: v.number(),
+    // Mutation that made the change and its arguments, without secrets
+    action: v.string(),
+    args: v.any(),
+    role: actorRoleValidator,
+    // Label of the role credential, or the judge or participant, that made the change
+    actor: v.optional(v.string()),
+    // The state is kept in eventStates, so that listing the log reads only these small rows.
+    // Events from before that keep it inline until moveEventStates has run.
+    stateId: v.optional(v.id("eventStates")),
+    state: v.optional(v.object(sessionStateFields)),
+    createdAt: v.number(),
+  })
+    .index("by_sessionId_version", ["sessionId", "version"])
+    .index("by_sessionId_action_version", ["sessionId", "action", "version"]),
+
+  // Championship state after an event, read only when the admin opens or restores that event
+  eventStates: defineTable({
+    state: v.object(sessionStateFields),
+  }),
+
+  // Finished competitions, written once when finishing one adds its points to the standings.
+  // A session's state lists the rows of its season, so restoring an earlier state also
+  // restores which competitions were held.
+  competitions: defineTable({
+    sessionId: v.string(),
+    ...competitionRecordFields,
+    createdAt: v.number(),
+  }).index("by_sessionId", ["sessionId"]),
+
+  // Votes and scores from the judge pages, kept as a record once applied to the session.
+  // Inputs are applied as they arrive; "processed" is false only on rows from older versions.
+  judgeInputs: defineTable({
+    sessionId: v.string(),
+    judgeIndex: v.number(),
+    input: judgeInputValidator,
+    createdAt: v.number(),
+    processed: v.boolean(),
+  }).index("by_sessionId_unprocessed", ["sessionId", "processed"]),
 });
@@ -0,0 +1,57 @@
+import type { Doc } from "./_generated/dataModel";
+
+// Admin and judge secrets. Secrets are 256 random bits from the Web Crypto CSPRNG and a
+// session stores only their SHA-256 hashes, so reading the database does not give anyone
+// control of a session. Only the Web Crypto API is used, so the admin client can import
+// this module too.
+
+const encoder = new TextEncoder();
+
+const toHex = (bytes: ArrayBuffer | Uint8Array) =>
+  Array.from(new Uint8Array(bytes), (b) => b.toString(16).padStart(2, "0")).join("");
+
+export const generateSecret = () => toHex(crypto.getRandomValues(new Uint8Array(32)));
+
+// Shorter secrets than generateSecret makes are refused when a session is created
+export const MIN_SECRET_LENGTH = 32;
+
+export const hashSecret = async (secret: string) =>
+  toHex(await crypto.subtle.digest("SHA-256", encoder.encode(secret)));
+
+// Judge link tokens and role credentials are derived from the admin secret, so the owner can
+// show their links on any device that has the admin link while the server keeps only hashes
+const deriveSecret = async (adminSecret: string, purpose: string) => {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(adminSecret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  return toHex(await crypto.subtle.sign("HMAC", key, encoder.encode(purpose)));
+};
+
+export const deriveJudgeSecret = (adminSecret: string, judgeIndex: number) =>
+  deriveSecret(adminSecret, `judge:${judgeIndex}`);
+
+export const deriveJudgeSecrets = (adminSecret: string, judgeCount: number) =>
+  Promise.all(Array.from({ length: judgeCount }, (_, i) => deriveJudgeSecret(adminSecret, i)));
+
+// Credential ids are never reused, so a revoked credential's secret stays invalid
+export const deriveCredentialSecret = (adminSecret: string, credentialId: number) =>
+  deriveSecret(adminSecret, `credential:${credentialId}`);
+
+type SessionSecrets = Pick<Doc<"sessions">, "adminSecretHash" | "judgeSecretHashes" | "adminSecret" | "judgeSecrets">;
+
+// Whether the secret is the session's admin secret. Sessions created before hashing keep
+// the plain secret until hashLegacySecrets has run.
+export const isAdminSecret = async (session: SessionSecrets, secret: string) =>
+  session.adminSecretHash !== undefined
+    ? session.adminSecretHash === (await hashSecret(secret))
+    : session.adminSecret === secret;
+
+// Judge number for a judge link token, -1 when the token is not valid for the session
+export const getJudgeIndex = async (session: SessionSecrets, token: string) =>
+  session.judgeSecretHashes !== undefined
+    ? session.judgeSecretHashes.indexOf(await hashSecret(token))
+    : (session.judgeSecrets ?? []).indexOf(token);
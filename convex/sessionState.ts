@@ -0,0 +1,172 @@
+import { ConvexError } from "convex/values";
+import type { Doc } from "./_generated/dataModel";
+import type { MutationCtx, QueryCtx } from "./_generated/server";
+import type { sessionStateFields } from "./validators";
+import { canPerform, getActor } from "./roles";
+import { AppPhase, DEFAULT_BRACKET_SIZE, DEFAULT_QUALIFICATION_RULE, DMEC_POINTS_SCHEME } from "../constants";
+import { getDefaultRounds } from "../engine/rounds";
+import type { ActorRole, AdminMutation, AppState } from "../types";
+
+// Conversion between the stored session and the engine's AppState, and the helpers mutations
+// use to store it. Nothing server-only is imported at runtime, so the admin client can use
+// toAppState on the session it subscribes to.
+
+type StoredState = Pick<Doc<"sessions">, keyof typeof sessionStateFields>;
+
+// Championship state of a session, with defaults for fields older sessions do not have
+export const toAppState = (session: StoredState): AppState => ({
+  phase: session.phase as AppPhase,
+  standings: session.standings,
+  competitionParticipants: session.competitionParticipants,
+  bracketFormat: session.bracketFormat ?? "SINGLE_ELIMINATION",
+  bracket: session.bracket,
+  thirdPlaceMatch: session.thirdPlaceMatch,
+  losersBracket: session.losersBracket ?? [],
+  grandFinals: session.grandFinals ?? [],
+  grandFinalReset: session.grandFinalReset ?? false,
+  qualificationRule: session.qualificationRule ?? DEFAULT_QUALIFICATION_RULE,
+  bracketSize: session.bracketSize ?? DEFAULT_BRACKET_SIZE,
+  pointsScheme: session.pointsScheme ?? DMEC_POINTS_SCHEME,
+  totalCompetitions: session.totalCompetitions,
+  competitionsHeld: session.competitionsHeld,
+  checkedInIds: session.checkedInIds ?? [],
+  competitionRecordIds: session.competitionRecordIds ?? [],
+  rounds: session.rounds ?? getDefaultRounds(session.totalCompetitions, session.competitionsHeld, session.phase !== AppPhase.CHAMPIONSHIP_VIEW),
+});
+
+// Session fields to store for a championship state
+export const toStoredState = (state: AppState): StoredState => ({
+  phase: state.phase,
+  standings: state.standings,
+  competitionParticipants: state.competitionParticipants,
+  bracketFormat: state.bracketFormat,
+  bracket: state.bracket,
+  thirdPlaceMatch: state.thirdPlaceMatch,
+  losersBracket: state.losersBracket,
+  grandFinals: state.grandFinals,
+  grandFinalReset: state.grandFinalReset,
+  qualificationRule: state.qualificationRule,
+  bracketSize: state.bracketSize,
+  pointsScheme: state.pointsScheme,
+  totalCompetitions: state.totalCompetitions,
+  competitionsHeld: state.competitionsHeld,
+  checkedInIds: state.checkedInIds,
+  competitionRecordIds: state.competitionRecordIds,
+  rounds: state.rounds,
+});
+
+export const getSessionDoc = (ctx: QueryCtx, sessionId: string) =>
+  ctx.db
+    .query("sessions")
+    .withIndex("by_sessionId", (q) => q.eq("sessionId", sessionId))
+    .first();
+
+export const getVersion = (session: Doc<"sessions">) => session.version ?? 0;
+
+// Thrown when an admin acted on an older version of the session than the stored one
+export type VersionConflict = { kind: "VERSION_CONFLICT"; version: number };
+
+// A change to a session as the events log records it
+export type SessionChange = {
+  action: string;
+  args: Record<string, unknown>;
+  role: ActorRole;
+  actor?: string;
+};
+
+// Changes judges and drivers make alongside the admins: battle votes, qualification scores and
+// check-ins. Each is applied to the stored state as it arrives, so an admin action based on a
+// version from before them can be applied on top without losing them.
+const BACKGROUND_ACTIONS = ["submitJudgeVote", "submitJudgeScore", "checkIn"];
+
+// Most background changes an admin action is applied over; an admin further behind than
+// this is asked to look at the session first
+const MAX_BACKGROUND_CHANGES = 100;
+
+const isBehindOnlyBackgroundChanges = async (ctx: QueryCtx, session: Doc<"sessions">, expectedVersion: number) => {
+  if (expectedVersion > getVersion(session)) return false;
+  const missed = await ctx.db
+    .query("events")
+    .withIndex("by_sessionId_version", (q) => q.eq("sessionId", session.sessionId).gt("version", expectedVersion))
+    .take(MAX_BACKGROUND_CHANGES + 1);
+  return missed.length <= MAX_BACKGROUND_CHANGES && missed.every((e) => BACKGROUND_ACTIONS.includes(e.action));
+};
+
+// The session for an admin action (ADMIN ONLY - requires a secret whose role may run the
+// mutation), and the change to record for it. An action based on a version other than the
+// stored one is rejected, so a stale tab cannot undo changes it has not seen. Only judge and
+// driver changes in between are let through, except for a restore, which would put back a
+// state without them.
+export const getAdminSession = async (
+  ctx: QueryCtx,
+  args: { sessionId: string; adminSecret: string; expectedVersion: number },
+  mutation: AdminMutation
+) => {
+  const session = await getSessionDoc(ctx, args.sessionId);
+  if (!session) throw new Error("Session not found");
+  const actor = await getActor(session, args.adminSecret);
+  if (!actor) throw new Error("Unauthorized: Invalid admin secret");
+  if (!canPerform(actor.role, mutation)) throw new Error("Sinu rollil ei ole selleks toiminguks õigust");
+  if (
+    getVersion(session) !== args.expectedVersion &&
+    (mutation === "restoreState" || !(await isBehindOnlyBackgroundChanges(ctx, session, args.expectedVersion)))
+  ) {
+    throw new ConvexError<VersionConflict>({ kind: "VERSION_CONFLICT", version: getVersion(session) });
+  }
+
+  const { sessionId, adminSecret, expectedVersion, ...changeArgs } = args as Record<string, unknown>;
+  const change: SessionChange = { action: mutation, args: changeArgs, role: actor.role, actor: actor.label };
+  return { session, role: actor.role, change, baseVersion: args.expectedVersion };
+};
+
+// Appends a change to the session's events log, with the state it left the session in
+export const recordEvent = async (
+  ctx: MutationCtx,
+  session: Doc<"sessions">,
+  version: number,
+  change: SessionChange
+) => {
+  const stateId = await ctx.db.insert("eventStates", { state: toStoredState(toAppState(session)) });
+  await ctx.db.insert("events", {
+    sessionId: session.sessionId,
+    version,
+    ...change,
+    stateId,
+    createdAt: Date.now(),
+  });
+};
+
+// Stores changed session fields as the next version, records the change and returns the version
+export const patchSession = async (
+  ctx: MutationCtx,
+  session: Doc<"sessions">,
+  fields: Partial<Doc<"sessions">>,
+  change: SessionChange
+) => {
+  const version = getVersion(session) + 1;
+  await ctx.db.patch(session._id, {
+    ...fields,
+    version,
+    updatedAt: Date.now(),
+  });
+  await recordEvent(ctx, { ...session, ...fields }, version, change);
+  return version;
+};
+
+// Applies an engine transition to a session and stores the result, returning the session
+// version after it. Actions the engine ignores leave the document and its version untouched,
+// are not recorded and return the version they were based on, which for an admin action
+// applied over judge or driver changes is older than the stored one.
+export const applyTransition = async (
+  ctx: MutationCtx,
+  session: Doc<"sessions">,
+  transition: (state: AppState) => AppState,
+  change: SessionChange,
+  baseVersion = getVersion(session)
+) => {
+  const state = toAppState(session);
+  const next = transition(state);
+  if (next === state) return baseVersion;
+
+  return await patchSession(ctx, session, toStoredState(next), change);
+};
@@ -1,8 +1,20 @@
 import { v } from "convex/values";
-import { mutation, query } from "./_generated/server";
-
-// Generate simple random ID
-const generateSecret = () => Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15);
+import { internalMutation, mutation, query } from "./_generated/server";
+import type { Doc } from "./_generated/dataModel";
+import { adminArgs, driverProfileValidator } from "./validators";
+import { applyTransition, getAdminSession, getSessionDoc, patchSession, recordEvent, toStoredState } from "./sessionState";
+import { deriveJudgeSecrets, hashSecret, MIN_SECRET_LENGTH } from "./secrets";
+import { getRole } from "./roles";
+import { countEntrants, getQueuedRegistrations, isRegistrationRateLimited, registrationError } from "./registrations";
+import { AppPhase, DEFAULT_REGISTRATION_SETTINGS, EMPTY_DRIVER_PROFILE, JUDGE_COUNT, REGISTRATION_CLOSED_MESSAGES } from "../constants";
+import { isCarNumberTaken, normalizeProfile, validateProfile } from "../engine/profile";
+import { getRegistrationClosedReason, isFieldFull, isNameTaken, normalizeName, validateName } from "../engine/registration";
+import { createInitialState, setParticipantProfile as setProfile, withdrawParticipant } from "../engine/tournament";
+
+// Participant ids count up from 1 in each session and are never handed out twice, so a driver
+// removed from the standings cannot be mistaken for a later one in the archive or the events.
+// Sessions from before kept timestamps as ids and continue from the current time.
+const getNextParticipantId = (session: Doc<"sessions">) => (session.lastParticipantId ?? Date.now()) + 1;
 
 // ============ QUERIES (Public, read-only) ============
 
@@ -17,164 +29,50 @@ export const getSession = query({
 
     if (!session) return null;
 
-    // Don't expose admin secret to clients
-    const { adminSecret, ...publicSession } = session;
+    // Don't expose admin, judge or role secrets, or their hashes, to clients
+    const { adminSecretHash, judgeSecretHashes, credentials, adminSecret, judgeSecrets, ...publicSession } = session;
     return publicSession;
   },
 });
 
-// Get full session with admin secret (for admin verification)
-export const getSessionWithSecret = query({
-  args: { sessionId: v.string() },
+// Role a secret gives on the session, or null for a wrong or revoked secret. Answers only
+// with the role, so the admin page can check an admin link and show the controls that role
+// may use without learning anything else about the session's secrets.
+export const getAdminRole = query({
+  args: { sessionId: v.string(), adminSecret: v.string() },
   handler: async (ctx, args) => {
-    return await ctx.db
-      .query("sessions")
-      .withIndex("by_sessionId", (q) => q.eq("sessionId", args.sessionId))
-      .first();
-  },
-});
-
-// Get pending registrations
-export const getPendingRegistrations = query({
-  args: { sessionId: v.string() },
-  handler: async (ctx, args) => {
-    return await ctx.db
-      .query("registrations")
-      .withIndex("by_sessionId_unprocessed", (q) =>
-        q.eq("sessionId", args.sessionId).eq("processed", false)
-      )
-      .collect();
+    const session = await getSessionDoc(ctx, args.sessionId);
+    return session ? await getRole(session, args.adminSecret) : null;
   },
 });
 
 // ============ MUTATIONS ============
 
-// Create new session
+// Create new session. The admin page generates the admin secret with the browser's CSPRNG and
+// keeps it; the session stores its hash and the hashes of the judge tokens derived from it.
 export const createSession = mutation({
-  args: { sessionId: v.string() },
+  args: { sessionId: v.string(), adminSecret: v.string() },
   handler: async (ctx, args) => {
-    const existing = await ctx.db
-      .query("sessions")
-      .withIndex("by_sessionId", (q) => q.eq("sessionId", args.sessionId))
-      .first();
-
-    if (existing) {
-      return { sessionId: args.sessionId, adminSecret: existing.adminSecret };
-    }
+    const existing = await getSessionDoc(ctx, args.sessionId);
+    if (existing) throw new Error("Session already exists");
+    if (args.adminSecret.length < MIN_SECRET_LENGTH) throw new Error("Admin secret is too short");
 
-    const adminSecret = generateSecret();
+    const judgeSecrets = await deriveJudgeSecrets(args.adminSecret, JUDGE_COUNT);
 
-    await ctx.db.insert("sessions", {
+    const id = await ctx.db.insert("sessions", {
       sessionId: args.sessionId,
-      adminSecret,
-      phase: "CHAMPIONSHIP_VIEW",
-      standings: [],
-      competitionParticipants: [],
-      bracket: [],
-      thirdPlaceMatch: null,
-      totalCompetitions: null,
-      competitionsHeld: 0,
+      adminSecretHash: await hashSecret(args.adminSecret),
+      judgeSecretHashes: await Promise.all(judgeSecrets.map(hashSecret)),
+      ...toStoredState(createInitialState()),
+      lastParticipantId: 0,
+      version: 0,
       createdAt: Date.now(),
       updatedAt: Date.now(),
     });
+    const session = await ctx.db.get(id);
+    if (session) await recordEvent(ctx, session, 0, { action: "createSession", args: {}, role: "OWNER" });
 
-    return { sessionId: args.sessionId, adminSecret };
-  },
-});
-
-// Update session state (ADMIN ONLY - requires secret)
-export const updateSessionState = mutation({
-  args: {
-    sessionId: v.string(),
-    adminSecret: v.string(),
-    state: v.object({
-      phase: v.union(
-        v.literal("CHAMPIONSHIP_VIEW"),
-        v.literal("QUALIFICATION"),
-        v.literal("BRACKET"),
-        v.literal("FINISHED")
-      ),
-      standings: v.array(v.object({
-        id: v.number(),
-        name: v.string(),
-        pointsPerCompetition: v.array(v.number()),
-      })),
-      competitionParticipants: v.array(v.object({
-        id: v.number(),
-        name: v.string(),
-        score: v.union(v.number(), v.null()),
-        seed: v.number(),
-      })),
-      bracket: v.array(v.array(v.object({
-        id: v.number(),
-        roundIndex: v.number(),
-        matchIndex: v.number(),
-        participant1: v.union(v.object({
-          id: v.number(),
-          name: v.string(),
-          score: v.union(v.number(), v.null()),
-          seed: v.number(),
-        }), v.null()),
-        participant2: v.union(v.object({
-          id: v.number(),
-          name: v.string(),
-          score: v.union(v.number(), v.null()),
-          seed: v.number(),
-        }), v.null()),
-        winner: v.union(v.object({
-          id: v.number(),
-          name: v.string(),
-          score: v.union(v.number(), v.null()),
-          seed: v.number(),
-        }), v.null()),
-        nextMatchId: v.union(v.number(), v.null()),
-      }))),
-      thirdPlaceMatch: v.union(v.object({
-        id: v.number(),
-        roundIndex: v.number(),
-        matchIndex: v.number(),
-        participant1: v.union(v.object({
-          id: v.number(),
-          name: v.string(),
-          score: v.union(v.number(), v.null()),
-          seed: v.number(),
-        }), v.null()),
-        participant2: v.union(v.object({
-          id: v.number(),
-          name: v.string(),
-          score: v.union(v.number(), v.null()),
-          seed: v.number(),
-        }), v.null()),
-        winner: v.union(v.object({
-          id: v.number(),
-          name: v.string(),
-          score: v.union(v.number(), v.null()),
-          seed: v.number(),
-        }), v.null()),
-        nextMatchId: v.union(v.number(), v.null()),
-      }), v.null()),
-      totalCompetitions: v.union(v.number(), v.null()),
-      competitionsHeld: v.number(),
-    }),
-  },
-  handler: async (ctx, args) => {
-    const session = await ctx.db
-      .query("sessions")
-      .withIndex("by_sessionId", (q) => q.eq("sessionId", args.sessionId))
-      .first();
-
-    if (!session) {
-      throw new Error("Session not found");
-    }
-
-    if (session.adminSecret !== args.adminSecret) {
-      throw new Error("Unauthorized: Invalid admin secret");
-    }
-
-    await ctx.db.patch(session._id, {
-      ...args.state,
-      updatedAt: Date.now(),
-    });
+    return { sessionId: args.sessionId };
   },
 });
 
@@ -183,6 +81,8 @@ export const registerParticipant = mutation({
   args: {
     sessionId: v.string(),
     name: v.string(),
+    // Missing from registration pages loaded before profiles
+    profile: v.optional(driverProfileValidator),
   },
   handler: async (ctx, args) => {
     const session = await ctx.db
@@ -191,112 +91,176 @@ export const registerParticipant = mutation({
       .first();
 
     if (!session) {
-      throw new Error("Session not found");
+      throw registrationError(null, "Võistlust ei leitud");
     }
 
-    // Check for duplicate in standings
-    const nameLower = args.name.toLowerCase().trim();
-    const isDuplicate = session.standings.some(
-      (p) => p.name.toLowerCase() === nameLower
-    );
+    const now = Date.now();
+    const settings = session.registrationSettings ?? DEFAULT_REGISTRATION_SETTINGS;
+    const closedReason = getRegistrationClosedReason(settings, session.phase as AppPhase, now);
+    if (closedReason) {
+      throw registrationError(null, REGISTRATION_CLOSED_MESSAGES[closedReason]);
+    }
 
-    if (isDuplicate) {
-      throw new Error("See nimi on juba registreeritud");
+    if (await isRegistrationRateLimited(ctx, args.sessionId, now)) {
+      throw registrationError(null, "Liiga palju registreerimisi korraga. Proovi minuti pärast uuesti.");
     }
 
-    // Check pending registrations too
-    const pendingDupe = await ctx.db
-      .query("registrations")
-      .withIndex("by_sessionId", (q) => q.eq("sessionId", args.sessionId))
-      .filter((q) => q.eq(q.field("name"), args.name.trim()))
-      .first();
+    const nameError = validateName(args.name);
+    if (nameError) {
+      throw registrationError("name", nameError);
+    }
+    const name = normalizeName(args.name);
+    const profileError = validateProfile(args.profile ?? EMPTY_DRIVER_PROFILE);
+    if (profileError) {
+      throw registrationError("profile", profileError);
+    }
+    const profile = normalizeProfile(args.profile ?? EMPTY_DRIVER_PROFILE);
 
-    if (pendingDupe) {
-      throw new Error("See nimi on juba registreeritud");
+    // Check for duplicates in standings and in registrations waiting for approval or on the waitlist
+    const queued = await getQueuedRegistrations(ctx, args.sessionId);
+    if (isNameTaken(name, session.standings, queued)) {
+      throw registrationError("name", "See nimi on juba registreeritud");
+    }
+    if (isCarNumberTaken(profile.carNumber, [...session.standings, ...queued])) {
+      throw registrationError("profile", `Võistlusnumber ${profile.carNumber} on juba kasutusel`);
     }
 
-    const participantId = Date.now();
+    const participantId = getNextParticipantId(session);
+    const status = isFieldFull(settings, countEntrants(session, queued))
+      ? "WAITLISTED"
+      : settings.requireApproval ? "PENDING" : "APPROVED";
 
-    // Add to registrations table
-    await ctx.db.insert("registrations", {
+    // Add to registrations table; a queued registration waits there for an admin
+    const registrationId = await ctx.db.insert("registrations", {
       sessionId: args.sessionId,
       participantId,
-      name: args.name.trim(),
-      createdAt: Date.now(),
-      processed: false,
+      name,
+      profile,
+      createdAt: now,
+      processed: status === "APPROVED",
+      status,
     });
 
-    // Also add directly to session standings (real-time update)
-    const newStanding = {
-      id: participantId,
-      name: args.name.trim(),
-      pointsPerCompetition: Array(session.competitionsHeld).fill(0),
-    };
-
-    await ctx.db.patch(session._id, {
-      standings: [...session.standings, newStanding],
-      updatedAt: Date.now(),
-    });
+    if (status === "APPROVED") {
+      // Also add directly to session standings (real-time update)
+      const newStanding = {
+        id: participantId,
+        name,
+        pointsPerCompetition: Array(session.competitionsHeld).fill(0),
+        profile,
+      };
+
+      await patchSession(ctx, session, {
+        standings: [...session.standings, newStanding],
+        lastParticipantId: participantId,
+      }, {
+        action: "registerParticipant",
+        args: { participantId, name },
+        role: "PARTICIPANT",
+        actor: name,
+      });
+    } else {
+      // The id is taken now, as the queued registration keeps it for when it is approved
+      await ctx.db.patch(session._id, { lastParticipantId: participantId });
+    }
 
-    return { participantId, name: args.name.trim() };
+    return { participantId, name, registrationId: registrationId as string, status };
   },
 });
 
-// Add participant manually (ADMIN ONLY)
+// Add participant manually (ADMIN ONLY - owner or registration desk)
 export const addParticipant = mutation({
   args: {
-    sessionId: v.string(),
-    adminSecret: v.string(),
+    ...adminArgs,
     name: v.string(),
   },
   handler: async (ctx, args) => {
-    const session = await ctx.db
-      .query("sessions")
-      .withIndex("by_sessionId", (q) => q.eq("sessionId", args.sessionId))
-      .first();
-
-    if (!session) throw new Error("Session not found");
-    if (session.adminSecret !== args.adminSecret) throw new Error("Unauthorized");
-
-    const nameLower = args.name.toLowerCase().trim();
-    if (session.standings.some((p) => p.name.toLowerCase() === nameLower)) {
-      throw new Error("See nimi on juba olemas");
+    const { session, change } = await getAdminSession(ctx, args, "addParticipant");
+
+    const nameError = validateName(args.name);
+    if (nameError) throw new Error(nameError);
+    const name = normalizeName(args.name);
+    const queued = await getQueuedRegistrations(ctx, args.sessionId);
+    if (isNameTaken(name, session.standings, queued)) {
+      throw new Error("See nimi on juba sarjas või registreerimiste järjekorras");
     }
 
     const newStanding = {
-      id: Date.now(),
-      name: args.name.trim(),
+      id: getNextParticipantId(session),
+      name,
       pointsPerCompetition: Array(session.competitionsHeld).fill(0),
     };
 
-    await ctx.db.patch(session._id, {
+    return await patchSession(ctx, session, {
       standings: [...session.standings, newStanding],
-      updatedAt: Date.now(),
-    });
+      lastParticipantId: newStanding.id,
+    }, change);
+  },
+});
+
+// Change a participant's competition number, car, team, nationality or social handle (ADMIN
+// ONLY - owner or registration desk). Registrations still queued hold on to their numbers too.
+export const setParticipantProfile = mutation({
+  args: {
+    ...adminArgs,
+    participantId: v.number(),
+    profile: driverProfileValidator,
+  },
+  handler: async (ctx, args) => {
+    const { session, change, baseVersion } = await getAdminSession(ctx, args, "setParticipantProfile");
+
+    const queued = await getQueuedRegistrations(ctx, args.sessionId);
+    if (isCarNumberTaken(args.profile.carNumber, queued)) {
+      throw new Error(`Võistlusnumber ${args.profile.carNumber} on ootel registreerimisel.`);
+    }
 
-    return newStanding;
+    return await applyTransition(ctx, session, (state) => setProfile(state, args.participantId, args.profile), change, baseVersion);
   },
 });
 
-// Remove participant (ADMIN ONLY)
+// Remove participant (ADMIN ONLY - owner)
 export const removeParticipant = mutation({
   args: {
-    sessionId: v.string(),
-    adminSecret: v.string(),
+    ...adminArgs,
     participantId: v.number(),
   },
   handler: async (ctx, args) => {
-    const session = await ctx.db
-      .query("sessions")
-      .withIndex("by_sessionId", (q) => q.eq("sessionId", args.sessionId))
-      .first();
-
-    if (!session) throw new Error("Session not found");
-    if (session.adminSecret !== args.adminSecret) throw new Error("Unauthorized");
+    const { session, change, baseVersion } = await getAdminSession(ctx, args, "removeParticipant");
+
+    // Someone removed while the bracket is running withdraws from it, so their battles become walkovers
+    return await applyTransition(
+      ctx,
+      session,
+      (state) =>
+        withdrawParticipant(
+          { ...state, standings: state.standings.filter((p) => p.id !== args.participantId) },
+          args.participantId
+        ),
+      change,
+      baseVersion
+    );
+  },
+});
 
-    await ctx.db.patch(session._id, {
-      standings: session.standings.filter((p) => p.id !== args.participantId),
-      updatedAt: Date.now(),
-    });
+// Replaces the plain secrets of sessions created before hashing with hashes (run once from
+// the dashboard). Judge tokens become the ones derived from the admin secret, so judge links
+// handed out before need to be shared again from the admin page.
+export const hashLegacySecrets = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const sessions = await ctx.db.query("sessions").collect();
+    let migrated = 0;
+    for (const session of sessions) {
+      if (session.adminSecret === undefined) continue;
+      const judgeSecrets = await deriveJudgeSecrets(session.adminSecret, JUDGE_COUNT);
+      await ctx.db.patch(session._id, {
+        adminSecretHash: await hashSecret(session.adminSecret),
+        judgeSecretHashes: await Promise.all(judgeSecrets.map(hashSecret)),
+        adminSecret: undefined,
+        judgeSecrets: undefined,
+      });
+      migrated++;
+    }
+    return migrated;
   },
 });
@@ -0,0 +1,235 @@
+import { v } from "convex/values";
+
+// Shared validators for the session document, used by the schema and by mutation arguments.
+
+// DNS, DNF, zero run or DSQ
+export const runStatusValidator = v.union(
+  v.literal("DNS"),
+  v.literal("DNF"),
+  v.literal("ZERO"),
+  v.literal("DSQ")
+);
+
+// DriverProfile in types.ts
+export const driverProfileValidator = v.object({
+  carNumber: v.union(v.number(), v.null()),
+  car: v.string(),
+  team: v.string(),
+  nationality: v.string(),
+  social: v.string(),
+});
+
+// Participant validator (used in qualification and bracket)
+export const participantValidator = v.object({
+  id: v.number(),
+  name: v.string(),
+  score: v.union(v.number(), v.null()),
+  seed: v.number(),
+  runs: v.optional(v.array(v.union(v.number(), v.null()))),
+  runOrder: v.optional(v.number()),
+  runStatuses: v.optional(v.array(v.union(runStatusValidator, v.null()))),
+  withdrawn: v.optional(v.boolean()),
+  profile: v.optional(driverProfileValidator),
+});
+
+// Championship standing validator
+export const standingValidator = v.object({
+  id: v.number(),
+  name: v.string(),
+  pointsPerCompetition: v.array(v.number()),
+  absences: v.optional(v.array(v.number())),
+  profile: v.optional(driverProfileValidator),
+});
+
+// A participant id or "OMT"; null when a judge has not voted (or took the vote back)
+export const judgeVoteValidator = v.union(v.number(), v.literal("OMT"), v.null());
+
+// Judge votes of one run, one entry per judge
+export const battleRunValidator = v.object({
+  votes: v.array(judgeVoteValidator),
+});
+
+// Match validator for bracket
+export const matchValidator = v.object({
+  id: v.number(),
+  roundIndex: v.number(),
+  matchIndex: v.number(),
+  participant1: v.union(participantValidator, v.null()),
+  participant2: v.union(participantValidator, v.null()),
+  winner: v.union(participantValidator, v.null()),
+  nextMatchId: v.union(v.number(), v.null()),
+  // Where the loser drops to in double elimination
+  loserNextMatchId: v.optional(v.union(v.number(), v.null())),
+  runs: v.optional(v.array(battleRunValidator)),
+  statuses: v.optional(
+    v.array(
+      v.object({
+        participantId: v.number(),
+        status: v.union(runStatusValidator, v.literal("WD")),
+      })
+    )
+  ),
+});
+
+export const pointsBandValidator = v.object({
+  fromPlace: v.number(),
+  toPlace: v.number(),
+  points: v.number(),
+});
+
+export const pointsSchemeValidator = v.object({
+  name: v.string(),
+  qualification: v.array(pointsBandValidator),
+  mainEvent: v.array(pointsBandValidator),
+});
+
+export const phaseValidator = v.union(
+  v.literal("CHAMPIONSHIP_VIEW"),
+  v.literal("CHECK_IN"),
+  v.literal("QUALIFICATION"),
+  v.literal("BRACKET"),
+  v.literal("FINISHED")
+);
+
+export const qualificationRuleValidator = v.object({
+  runCount: v.number(),
+  tiebreakers: v.array(v.union(v.literal("SECOND_BEST_RUN"), v.literal("RUN_ORDER"))),
+});
+
+export const bracketFormatValidator = v.union(
+  v.literal("SINGLE_ELIMINATION"),
+  v.literal("DOUBLE_ELIMINATION")
+);
+
+// Roles the owner can hand out credentials for
+export const staffRoleValidator = v.union(
+  v.literal("SCOREKEEPER"),
+  v.literal("BRACKET_OPERATOR"),
+  v.literal("REGISTRATION_DESK")
+);
+
+// A credential handed out by the owner. Its secret is derived from the admin secret and the
+// id (see secrets.ts), so only its hash is stored.
+export const credentialValidator = v.object({
+  id: v.number(),
+  role: staffRoleValidator,
+  label: v.string(),
+  secretHash: v.string(),
+  createdAt: v.number(),
+});
+
+// RegistrationSettings in types.ts
+export const registrationSettingsValidator = v.object({
+  requireApproval: v.boolean(),
+  isOpen: v.boolean(),
+  opensAt: v.union(v.number(), v.null()),
+  closesAt: v.union(v.number(), v.null()),
+  capacity: v.union(v.number(), v.null()),
+});
+
+export const registrationStatusValidator = v.union(
+  v.literal("PENDING"),
+  v.literal("WAITLISTED"),
+  v.literal("APPROVED"),
+  v.literal("REJECTED"),
+  v.literal("MERGED")
+);
+
+// Who made a change (ActorRole in types.ts)
+export const actorRoleValidator = v.union(
+  v.literal("OWNER"),
+  staffRoleValidator,
+  v.literal("JUDGE"),
+  v.literal("PARTICIPANT")
+);
+
+// Arguments of every admin action: the admin's credentials and the session version the
+// admin was looking at when they acted. The secret is the owner's admin secret or the secret
+// of a credential for another role.
+export const adminArgs = {
+  sessionId: v.string(),
+  adminSecret: v.string(),
+  expectedVersion: v.number(),
+};
+
+// A round of the season calendar (SeasonRound in types.ts)
+export const roundValidator = v.object({
+  name: v.string(),
+  date: v.union(v.string(), v.null()),
+  venue: v.string(),
+  status: v.union(v.literal("PLANNED"), v.literal("RUNNING"), v.literal("DONE"), v.literal("CANCELLED")),
+  competitionIndex: v.union(v.number(), v.null()),
+});
+
+export const roundDetailsValidator = v.object({
+  name: v.string(),
+  date: v.union(v.string(), v.null()),
+  venue: v.string(),
+});
+
+// Fields of the admin-controlled championship state (AppState in types.ts)
+export const sessionStateFields = {
+  phase: phaseValidator,
+  standings: v.array(standingValidator),
+  competitionParticipants: v.array(participantValidator),
+  bracket: v.array(v.array(matchValidator)),
+  thirdPlaceMatch: v.union(matchValidator, v.null()),
+  // Optional for sessions created before double elimination; those are single elimination
+  bracketFormat: v.optional(bracketFormatValidator),
+  losersBracket: v.optional(v.array(v.array(matchValidator))),
+  grandFinals: v.optional(v.array(matchValidator)),
+  grandFinalReset: v.optional(v.boolean()),
+  // Optional for sessions created before per-run scores; those use the default rule
+  qualificationRule: v.optional(qualificationRuleValidator),
+  // Optional for sessions created before the bracket size setting existed
+  bracketSize: v.optional(v.number()),
+  // Optional for sessions created before points schemes were stored; those use the DMEC scheme
+  pointsScheme: v.optional(pointsSchemeValidator),
+  totalCompetitions: v.union(v.number(), v.null()),
+  competitionsHeld: v.number(),
+  // Optional for sessions created before check-in
+  checkedInIds: v.optional(v.array(v.number())),
+  // Ids of rows in the competitions table; optional for sessions created before the archive
+  competitionRecordIds: v.optional(v.array(v.string())),
+  // Optional for sessions created before the season calendar; those get a round per competition
+  rounds: v.optional(v.array(roundValidator)),
+};
+
+// A finished competition in the competitions table (see CompetitionRecord in types.ts)
+export const competitionRecordFields = {
+  index: v.number(),
+  name: v.string(),
+  heldAt: v.number(),
+  participants: v.array(participantValidator),
+  bracketFormat: bracketFormatValidator,
+  bracket: v.array(v.array(matchValidator)),
+  thirdPlaceMatch: v.union(matchValidator, v.null()),
+  losersBracket: v.array(v.array(matchValidator)),
+  grandFinals: v.array(matchValidator),
+  grandFinalReset: v.boolean(),
+  qualificationRule: qualificationRuleValidator,
+  bracketSize: v.number(),
+  pointsScheme: pointsSchemeValidator,
+  points: v.array(v.object({ participantId: v.number(), name: v.string(), points: v.number() })),
+  // Set on the records of corrected results
+  amendedAt: v.optional(v.number()),
+  amendedFrom: v.optional(v.string()),
+};
+
+export const competitionCorrectionValidator = v.union(
+  v.object({ kind: v.literal("score"), participantId: v.number(), runIndex: v.number(), score: v.union(v.number(), v.null()) }),
+  v.object({ kind: v.literal("runStatus"), participantId: v.number(), runIndex: v.number(), status: v.union(runStatusValidator, v.null()) }),
+  v.object({ kind: v.literal("winner"), matchId: v.number(), winnerId: v.number() }),
+  v.object({ kind: v.literal("clearWinner"), matchId: v.number() })
+);
+
+// Something a judge entered on the judge page
+export const judgeInputValidator = v.union(
+  v.object({ kind: v.literal("vote"), matchId: v.number(), vote: judgeVoteValidator }),
+  v.object({
+    kind: v.literal("score"),
+    participantId: v.number(),
+    runIndex: v.optional(v.number()),
+    score: v.union(v.number(), v.null()),
+  })
+);
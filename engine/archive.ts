@@ -0,0 +1,104 @@
+import type { AppState, ChampionshipStanding, CompetitionCorrection, CompetitionRecord } from '../types';
+import { AppPhase } from '../constants';
+import { findProgressMatch } from './bracket';
+import { calculateCompetitionPoints, getTotalPoints } from './points';
+import { getCompetitionName } from './rounds';
+import { clearMatchWinner, createInitialState, setMatchWinner, setQualificationRunStatus, setQualificationScore } from './tournament';
+
+// Record of the finished competition in a state, to archive before finishing it clears the
+// way for the next one. Null while no competition is finished.
+export const createCompetitionRecord = (state: AppState, heldAt: number): Omit<CompetitionRecord, 'id'> | null => {
+  if (state.phase !== AppPhase.FINISHED) return null;
+  const points = calculateCompetitionPoints(state.competitionParticipants, state, state.pointsScheme, state.qualificationRule);
+  return {
+    index: state.competitionsHeld,
+    name: getCompetitionName(state.rounds, state.competitionsHeld),
+    heldAt,
+    participants: state.competitionParticipants,
+    bracketFormat: state.bracketFormat,
+    bracket: state.bracket,
+    thirdPlaceMatch: state.thirdPlaceMatch,
+    losersBracket: state.losersBracket,
+    grandFinals: state.grandFinals,
+    grandFinalReset: state.grandFinalReset,
+    qualificationRule: state.qualificationRule,
+    bracketSize: state.bracketSize,
+    pointsScheme: state.pointsScheme,
+    // Ties keep the qualification order
+    points: state.competitionParticipants
+      .map(p => ({ participantId: p.id, name: p.name, points: points.get(p.id) || 0 }))
+      .sort((a, b) => b.points - a.points),
+  };
+};
+
+// An archived competition as the finished state it was archived from
+const toFinishedState = (record: CompetitionRecord): AppState => ({
+  ...createInitialState(),
+  phase: AppPhase.FINISHED,
+  competitionParticipants: record.participants,
+  bracketFormat: record.bracketFormat,
+  bracket: record.bracket,
+  thirdPlaceMatch: record.thirdPlaceMatch,
+  losersBracket: record.losersBracket,
+  grandFinals: record.grandFinals,
+  grandFinalReset: record.grandFinalReset,
+  qualificationRule: record.qualificationRule,
+  bracketSize: record.bracketSize,
+  pointsScheme: record.pointsScheme,
+  competitionsHeld: record.index,
+});
+
+const applyCorrection = (state: AppState, correction: CompetitionCorrection): AppState => {
+  switch (correction.kind) {
+    case 'score':
+    case 'runStatus': {
+      // Runs are corrected by the rules they were scored with during qualification
+      const qualification = { ...state, phase: AppPhase.QUALIFICATION };
+      const next = correction.kind === 'score'
+        ? setQualificationScore(qualification, correction.participantId, correction.score, correction.runIndex)
+        : setQualificationRunStatus(qualification, correction.participantId, correction.runIndex, correction.status);
+      return next === qualification ? state : { ...next, phase: state.phase };
+    }
+    case 'winner': {
+      const match = findProgressMatch(state, correction.matchId);
+      const winner = [match?.participant1, match?.participant2].find(p => p?.id === correction.winnerId);
+      return winner ? setMatchWinner(state, correction.matchId, winner) : state;
+    }
+    case 'clearWinner':
+      return clearMatchWinner(state, correction.matchId);
+  }
+};
+
+// An archived competition with corrections applied in order. Changing a battle result clears
+// the later results that depended on it, so the bracket can be left undecided until those are
+// corrected too; the admin UI previews corrections with this.
+export const applyCompetitionCorrections = (record: CompetitionRecord, corrections: CompetitionCorrection[]): AppState =>
+  corrections.reduce(applyCorrection, toFinishedState(record));
+
+// The corrected record of an archived competition, its points recomputed from the corrected results.
+export const amendCompetitionRecord = (
+  record: CompetitionRecord,
+  corrections: CompetitionCorrection[],
+  amendedAt: number
+): Omit<CompetitionRecord, 'id'> => {
+  const amended = createCompetitionRecord(applyCompetitionCorrections(record, corrections), record.heldAt);
+  if (!amended) throw new Error('Parandatud tabelis on otsustamata battle\'eid.');
+  return { ...amended, name: record.name, amendedAt, amendedFrom: record.id };
+};
+
+// Standings with each archived competition's points in its column, so corrected results
+// replace the points first awarded. Columns of competitions held before the archive existed
+// keep their points.
+export const applyArchivedPoints = (
+  standings: ChampionshipStanding[],
+  records: Pick<CompetitionRecord, 'index' | 'points'>[]
+): ChampionshipStanding[] =>
+  standings
+    .map(standing => ({
+      ...standing,
+      pointsPerCompetition: standing.pointsPerCompetition.map((points, index) => {
+        const record = records.find(r => r.index === index);
+        return record ? record.points.find(p => p.participantId === standing.id)?.points ?? 0 : points;
+      }),
+    }))
+    .sort((a, b) => getTotalPoints(b) - getTotalPoints(a));
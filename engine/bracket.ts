@@ -0,0 +1,327 @@
+import type { AppState, BracketData, Match, Participant } from '../types';
+import { getBracketSize, getSeedOrder } from './seeding';
+
+export const THIRD_PLACE_MATCH_ID = 999;
+
+// Everything that changes while a bracket is being played, in either format.
+export type BracketProgress = Pick<
+  AppState,
+  'bracketFormat' | 'grandFinalReset' | 'bracket' | 'thirdPlaceMatch' | 'losersBracket' | 'grandFinals'
+>;
+
+export const cloneBracket = (bracket: BracketData): BracketData => JSON.parse(JSON.stringify(bracket));
+
+const cloneProgress = <T extends BracketProgress>(progress: T): T => ({
+  ...progress,
+  bracket: cloneBracket(progress.bracket),
+  thirdPlaceMatch: progress.thirdPlaceMatch ? { ...progress.thirdPlaceMatch } : null,
+  losersBracket: cloneBracket(progress.losersBracket),
+  grandFinals: progress.grandFinals.map(m => ({ ...m })),
+});
+
+export const findMatch = (bracket: BracketData, matchId: number): Match | null => {
+  for (const round of bracket) {
+    const match = round.find(m => m.id === matchId);
+    if (match) return match;
+  }
+  return null;
+};
+
+// Every match of the competition: winners bracket, third-place match, losers bracket, grand finals.
+export const getAllMatches = (progress: BracketProgress): Match[] => [
+  ...progress.bracket.flat(),
+  ...(progress.thirdPlaceMatch ? [progress.thirdPlaceMatch] : []),
+  ...progress.losersBracket.flat(),
+  ...progress.grandFinals,
+];
+
+export const findProgressMatch = (progress: BracketProgress, matchId: number): Match | null =>
+  getAllMatches(progress).find(m => m.id === matchId) ?? null;
+
+// Loser of a decided match, or null for byes and undecided matches.
+export const getLoser = (match: Match): Participant | null => {
+  if (!match.winner || !match.participant1 || !match.participant2) return null;
+  return match.winner.id === match.participant1.id ? match.participant2 : match.participant1;
+};
+
+// Lower seed always takes the top slot once both participants are known.
+const orderBySeed = (match: Match) => {
+  if (match.participant1 && match.participant2 && match.participant1.seed > match.participant2.seed) {
+    [match.participant1, match.participant2] = [match.participant2, match.participant1];
+  }
+};
+
+// Builds a single-elimination bracket from seeded participants. Missing seeds become byes
+// that are resolved immediately, so the second round may already be partially filled.
+export const createBracket = (seededParticipants: Participant[]): BracketData => {
+  const bracketSize = getBracketSize(seededParticipants.length);
+  const participantMap = new Map<number, Participant>();
+  seededParticipants.forEach(p => participantMap.set(p.seed, p));
+
+  const seedOrder = getSeedOrder(bracketSize);
+  const bracket: BracketData = [];
+  let matchIdCounter = 0;
+
+  const firstRound: Match[] = [];
+  for (let i = 0; i < seedOrder.length; i += 2) {
+    const participant1 = participantMap.get(seedOrder[i]) || null;
+    const participant2 = participantMap.get(seedOrder[i + 1]) || null;
+    let winner = null;
+    if (participant1 && !participant2) winner = participant1;
+    else if (!participant1 && participant2) winner = participant2;
+    firstRound.push({ id: matchIdCounter++, roundIndex: 0, matchIndex: i / 2, participant1, participant2, winner, nextMatchId: null });
+  }
+  bracket.push(firstRound);
+
+  const numRounds = Math.log2(bracketSize);
+  for (let roundIndex = 1; roundIndex < numRounds; roundIndex++) {
+    const previousRound = bracket[roundIndex - 1];
+    const currentRound: Match[] = [];
+    for (let matchIndex = 0; matchIndex < previousRound.length / 2; matchIndex++) {
+      const match: Match = {
+        id: matchIdCounter++,
+        roundIndex,
+        matchIndex,
+        participant1: previousRound[matchIndex * 2]?.winner || null,
+        participant2: previousRound[matchIndex * 2 + 1]?.winner || null,
+        winner: null,
+        nextMatchId: null,
+      };
+      orderBySeed(match);
+      currentRound.push(match);
+    }
+    previousRound.forEach((match, i) => {
+      match.nextMatchId = currentRound[Math.floor(i / 2)].id;
+    });
+    bracket.push(currentRound);
+  }
+  return bracket;
+};
+
+// Third-place match between the semifinal losers, once every semifinal is decided.
+// A semifinal bye leaves a single loser, who takes third place without a battle.
+export const createThirdPlaceMatch = (bracket: BracketData): Match | null => {
+  if (bracket.length < 2) return null;
+  const semiFinals = bracket[bracket.length - 2];
+  if (!semiFinals.every(m => m.winner)) return null;
+
+  const losers = semiFinals.map(getLoser).filter((p): p is Participant => p !== null);
+  if (losers.length === 2) {
+    const [p1, p2] = losers[0].seed < losers[1].seed ? [losers[0], losers[1]] : [losers[1], losers[0]];
+    return { id: THIRD_PLACE_MATCH_ID, roundIndex: -1, matchIndex: 0, participant1: p1, participant2: p2, winner: null, nextMatchId: null };
+  }
+  if (losers.length === 1) {
+    return { id: THIRD_PLACE_MATCH_ID, roundIndex: -1, matchIndex: 0, participant1: losers[0], participant2: null, winner: losers[0], nextMatchId: null };
+  }
+  return null;
+};
+
+// --- Match graph ---
+// Matches are linked by nextMatchId (winner) and loserNextMatchId (loser), which is all the
+// rules below rely on, so single and double elimination share them.
+
+const getFeeders = (matches: Match[], target: Match): Match[] =>
+  matches.filter(m => m.nextMatchId === target.id || m.loserNextMatchId === target.id);
+
+// A match is resolved once it has a winner, or once it is certain that nobody will play in it.
+const isResolved = (matches: Match[], match: Match): boolean =>
+  !!match.winner ||
+  (!match.participant1 && !match.participant2 && getFeeders(matches, match).every(f => isResolved(matches, f)));
+
+const isInWinnersBracket = (progress: BracketProgress, match: Match) =>
+  progress.bracket.some(round => round.some(m => m.id === match.id));
+
+const isInLosersBracket = (progress: BracketProgress, match: Match) =>
+  progress.losersBracket.some(round => round.some(m => m.id === match.id));
+
+// Puts a participant into the match they advance (or drop) to. In the grand final the winners
+// bracket champion always takes the top slot. Elsewhere two feeders from the same bracket fill
+// the slots by position, and a driver dropping into the losers bracket takes a free slot.
+const routeParticipant = (
+  progress: BracketProgress,
+  matches: Match[],
+  source: Match,
+  targetId: number,
+  participant: Participant,
+  asLoser: boolean
+) => {
+  const target = matches.find(m => m.id === targetId);
+  if (!target) return;
+
+  if (progress.grandFinals.some(m => m.id === target.id)) {
+    if (isInWinnersBracket(progress, source) && !asLoser) target.participant1 = participant;
+    else target.participant2 = participant;
+    return;
+  }
+
+  // Slots are reordered by seed once both are filled, so the preferred slot may be taken
+  const feeders = getFeeders(matches, target);
+  const sameBracketFeeders = feeders.length === 2 &&
+    isInWinnersBracket(progress, feeders[0]) === isInWinnersBracket(progress, feeders[1]) &&
+    isInLosersBracket(progress, feeders[0]) === isInLosersBracket(progress, feeders[1]);
+  const preferSecond = sameBracketFeeders ? source.matchIndex % 2 === 1 : !!target.participant1;
+  if (preferSecond ? !target.participant2 : !!target.participant1) target.participant2 = participant;
+  else target.participant1 = participant;
+  orderBySeed(target);
+};
+
+// Records a result on a cloned progress and moves both participants on. When the losers
+// bracket champion wins the grand final and the reset is enabled, the reset match is added.
+const decideMatch = (progress: BracketProgress, matches: Match[], match: Match, winner: Participant) => {
+  const loser = match.participant1 && match.participant2
+    ? (match.participant1.id === winner.id ? match.participant2 : match.participant1)
+    : null;
+  match.winner = winner;
+
+  if (match.nextMatchId !== null) routeParticipant(progress, matches, match, match.nextMatchId, winner, false);
+  if (loser && match.loserNextMatchId != null) routeParticipant(progress, matches, match, match.loserNextMatchId, loser, true);
+
+  const [grandFinal] = progress.grandFinals;
+  if (progress.grandFinalReset && progress.grandFinals.length === 1 && grandFinal.id === match.id && winner.id !== match.participant1?.id) {
+    progress.grandFinals = [
+      grandFinal,
+      {
+        id: grandFinal.id + 1,
+        roundIndex: grandFinal.roundIndex + 1,
+        matchIndex: 0,
+        participant1: grandFinal.participant1,
+        participant2: grandFinal.participant2,
+        winner: null,
+        nextMatchId: null,
+        loserNextMatchId: null,
+      },
+    ];
+  }
+};
+
+// Resolves byes on a cloned progress: a match whose feeders are all resolved but that only got
+// one participant is won by that participant without a battle.
+export const settleByes = (progress: BracketProgress) => {
+  let changed = true;
+  while (changed) {
+    changed = false;
+    const matches = getAllMatches(progress);
+    for (const match of matches) {
+      if (match.winner) continue;
+      const present = [match.participant1, match.participant2].filter((p): p is Participant => p !== null);
+      if (present.length !== 1) continue;
+      if (!getFeeders(matches, match).every(f => isResolved(matches, f))) continue;
+      decideMatch(progress, matches, match, present[0]);
+      changed = true;
+    }
+  }
+};
+
+// Records a match result and moves the winner (and in double elimination the loser) on.
+// Decided matches are left untouched. In single elimination the third-place match is
+// generated as soon as the semifinals are complete.
+export const advanceWinner = <T extends BracketProgress>(progress: T, matchId: number, winner: Participant): T => {
+  const next = cloneProgress(progress);
+  const matches = getAllMatches(next);
+  const match = matches.find(m => m.id === matchId);
+  if (!match || match.winner) return next;
+
+  decideMatch(next, matches, match, winner);
+  settleByes(next);
+
+  if (next.bracketFormat === 'SINGLE_ELIMINATION' && !next.thirdPlaceMatch) {
+    next.thirdPlaceMatch = createThirdPlaceMatch(next.bracket);
+  }
+  return next;
+};
+
+// Drivers still in the bracket: everyone waiting in or playing an undecided match.
+export const getActiveParticipants = (progress: BracketProgress): Participant[] => {
+  const active = new Map<number, Participant>();
+  getAllMatches(progress)
+    .filter(m => !m.winner)
+    .forEach(m => [m.participant1, m.participant2].forEach(p => p && active.set(p.id, p)));
+  return [...active.values()];
+};
+
+// A result can be changed or cleared only where there was an actual battle. Byes and the
+// walkover third place are derived from the rest of the bracket.
+export const isResultEditable = (match: Match): boolean =>
+  !!match.winner && !!match.participant1 && !!match.participant2;
+
+// Replaces fields of one match, leaving the rest of the progress untouched.
+export const updateMatch = <T extends BracketProgress>(progress: T, matchId: number, changes: Partial<Match>): T => {
+  const next = cloneProgress(progress);
+  const match = findProgressMatch(next, matchId);
+  if (match) Object.assign(match, changes);
+  return next;
+};
+
+// Clears the result of a match on a cloned progress. Wherever the old winner or loser had
+// already moved on to, that result is cleared first and then they are taken out of the slot.
+const clearCascade = (progress: BracketProgress, matches: Match[], match: Match, cleared: Match[]) => {
+  const previousWinner = match.winner;
+  if (previousWinner) cleared.push({ ...match });
+  // Judge votes and statuses were given for this pairing, which is about to change
+  delete match.runs;
+  delete match.statuses;
+  if (!previousWinner) return;
+  const previousLoser = getLoser(match);
+  match.winner = null;
+
+  // The bracket reset only exists because of the grand final result
+  const [grandFinal, reset] = progress.grandFinals;
+  if (grandFinal?.id === match.id && reset) {
+    if (reset.winner) cleared.push({ ...reset });
+    progress.grandFinals = [grandFinal];
+  }
+
+  const removeFrom = (targetId: number | null | undefined, participant: Participant | null) => {
+    const target = targetId != null ? matches.find(m => m.id === targetId) : null;
+    if (!target || !participant) return;
+    clearCascade(progress, matches, target, cleared);
+    if (target.participant1?.id === participant.id) target.participant1 = null;
+    else if (target.participant2?.id === participant.id) target.participant2 = null;
+  };
+  removeFrom(match.nextMatchId, previousWinner);
+  removeFrom(match.loserNextMatchId, previousLoser);
+};
+
+interface ClearedProgress<T extends BracketProgress> {
+  progress: T;
+  // Every match whose result was removed, as it was before, starting with the cleared match
+  cleared: Match[];
+}
+
+const clearProgress = <T extends BracketProgress>(progress: T, matchId: number): ClearedProgress<T> => {
+  const next = cloneProgress(progress);
+  const matches = getAllMatches(next);
+  const match = matches.find(m => m.id === matchId);
+  if (!match || !isResultEditable(match)) return { progress: next, cleared: [] };
+
+  const cleared: Match[] = [];
+  clearCascade(next, matches, match, cleared);
+  settleByes(next);
+
+  // The third-place match is built from the semifinal losers, so it goes once a semifinal reopens
+  const semiFinalIds = new Set((next.bracket[next.bracket.length - 2] ?? []).map(m => m.id));
+  const thirdPlaceMatch = progress.thirdPlaceMatch;
+  if (next.bracketFormat === 'SINGLE_ELIMINATION' && thirdPlaceMatch && match.id !== thirdPlaceMatch.id && cleared.some(m => semiFinalIds.has(m.id))) {
+    if (isResultEditable(thirdPlaceMatch)) cleared.push(thirdPlaceMatch);
+    next.thirdPlaceMatch = null;
+  }
+
+  // Byes decided on the way are derived results, not something the admin entered
+  return { progress: next, cleared: cleared.filter((m, i) => i === 0 || isResultEditable(m)) };
+};
+
+// Removes a match result together with every later result that depended on it.
+export const clearMatchResult = <T extends BracketProgress>(progress: T, matchId: number): T =>
+  clearProgress(progress, matchId).progress;
+
+// Later results that would be wiped by changing or clearing the result of `matchId`.
+export const getDependentResults = (progress: BracketProgress, matchId: number): Match[] =>
+  clearProgress(progress, matchId).cleared.filter(m => m.id !== matchId);
+
+export const isBracketComplete = (progress: BracketProgress): boolean => {
+  if (progress.bracketFormat === 'DOUBLE_ELIMINATION') {
+    return !!progress.grandFinals[progress.grandFinals.length - 1]?.winner;
+  }
+  const finalMatch = progress.bracket[progress.bracket.length - 1]?.[0];
+  return !!finalMatch?.winner && (!progress.thirdPlaceMatch || !!progress.thirdPlaceMatch.winner);
+};
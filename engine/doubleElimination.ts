@@ -0,0 +1,96 @@
+import type { BracketData, Match, Participant } from '../types';
+import { BracketProgress, createBracket, getLoser, settleByes } from './bracket';
+
+export interface DoubleEliminationBracket {
+  bracket: BracketData;
+  losersBracket: BracketData;
+  grandFinals: Match[];
+}
+
+const emptyMatch = (id: number, roundIndex: number, matchIndex: number): Match => ({
+  id, roundIndex, matchIndex, participant1: null, participant2: null, winner: null, nextMatchId: null, loserNextMatchId: null,
+});
+
+// Builds a double-elimination bracket: the usual winners bracket, a losers bracket that
+// alternates between rounds where winners bracket losers drop in and rounds that halve the
+// field, and a grand final between the two bracket champions. Drop-in rounds take the
+// winners bracket losers in reverse order every other round, so drivers do not meet the
+// same opponent again straight away.
+export const createDoubleEliminationBracket = (seededParticipants: Participant[], grandFinalReset = false): DoubleEliminationBracket => {
+  const bracket = createBracket(seededParticipants);
+  let matchIdCounter = bracket.flat().length;
+  const losersBracket: BracketData = [];
+
+  if (bracket.length > 1) {
+    const firstRound = bracket[0].filter((_, i) => i % 2 === 0).map((_, i) => emptyMatch(matchIdCounter++, 0, i));
+    bracket[0].forEach((match, i) => {
+      match.loserNextMatchId = firstRound[Math.floor(i / 2)].id;
+    });
+    losersBracket.push(firstRound);
+
+    for (let winnersRound = 1; winnersRound < bracket.length; winnersRound++) {
+      const previous = losersBracket[losersBracket.length - 1];
+      const dropIn = previous.map((_, i) => emptyMatch(matchIdCounter++, losersBracket.length, i));
+      previous.forEach((match, i) => {
+        match.nextMatchId = dropIn[i].id;
+      });
+      const droppingMatches = bracket[winnersRound];
+      droppingMatches.forEach((match, i) => {
+        const target = winnersRound % 2 === 1 ? droppingMatches.length - 1 - i : i;
+        match.loserNextMatchId = dropIn[target].id;
+      });
+      losersBracket.push(dropIn);
+
+      if (dropIn.length > 1) {
+        const reduction = dropIn.filter((_, i) => i % 2 === 0).map((_, i) => emptyMatch(matchIdCounter++, losersBracket.length, i));
+        dropIn.forEach((match, i) => {
+          match.nextMatchId = reduction[Math.floor(i / 2)].id;
+        });
+        losersBracket.push(reduction);
+      }
+    }
+  }
+
+  const grandFinal = emptyMatch(matchIdCounter++, 0, 0);
+  const winnersFinal = bracket[bracket.length - 1][0];
+  winnersFinal.nextMatchId = grandFinal.id;
+  const losersFinal = losersBracket[losersBracket.length - 1]?.[0];
+  if (losersFinal) losersFinal.nextMatchId = grandFinal.id;
+  else winnersFinal.loserNextMatchId = grandFinal.id;
+
+  // Losers bracket matches fed only by first round byes are settled right away
+  const progress: BracketProgress = {
+    bracketFormat: 'DOUBLE_ELIMINATION',
+    grandFinalReset,
+    bracket,
+    thirdPlaceMatch: null,
+    losersBracket,
+    grandFinals: [grandFinal],
+  };
+  settleByes(progress);
+  return { bracket: progress.bracket, losersBracket: progress.losersBracket, grandFinals: progress.grandFinals };
+};
+
+// Finishing place per participant id. The last grand final decides 1st and 2nd; everyone else
+// is placed by the losers bracket round they went out in, later rounds placing higher and all
+// losers of one round sharing a place.
+export const getDoubleEliminationPlaces = (progress: BracketProgress): Map<number, number> => {
+  const places = new Map<number, number>();
+  const lastGrandFinal = progress.grandFinals[progress.grandFinals.length - 1];
+  if (lastGrandFinal?.winner) {
+    places.set(lastGrandFinal.winner.id, 1);
+    const runnerUp = getLoser(lastGrandFinal);
+    if (runnerUp) places.set(runnerUp.id, 2);
+  }
+
+  let place = 3;
+  for (let roundIndex = progress.losersBracket.length - 1; roundIndex >= 0; roundIndex--) {
+    const round = progress.losersBracket[roundIndex];
+    round.forEach(match => {
+      const loser = getLoser(match);
+      if (loser && !places.has(loser.id)) places.set(loser.id, place);
+    });
+    place += round.length;
+  }
+  return places;
+};
@@ -0,0 +1,28 @@
+import type { BattleRun, JudgeVote, Match } from '../types';
+import { JUDGE_COUNT } from '../constants';
+
+export const createRun = (): BattleRun => ({ votes: Array(JUDGE_COUNT).fill(null) });
+
+// The run currently being judged, or null before the first vote.
+export const getCurrentRun = (match: Match): BattleRun | null =>
+  match.runs && match.runs.length > 0 ? match.runs[match.runs.length - 1] : null;
+
+// Votes given for each side of a run.
+export const countVotes = (run: BattleRun, participantId: number): number =>
+  run.votes.filter(vote => vote === participantId).length;
+
+// Outcome of a run once every judge has voted: the participant id with a majority of the
+// votes, otherwise 'OMT'. A split such as one vote each plus an OMT is also a rerun.
+export const getRunDecision = (run: BattleRun): JudgeVote | null => {
+  if (run.votes.some(vote => vote === null)) return null;
+  const majority = Math.floor(run.votes.length / 2) + 1;
+  const winnerId = run.votes.find(vote => vote !== 'OMT' && vote !== null && countVotes(run, vote) >= majority);
+  return winnerId ?? 'OMT';
+};
+
+// Runs of a match after one judge's vote on the run in progress.
+export const recordVote = (runs: BattleRun[], judgeIndex: number, vote: JudgeVote | null): BattleRun[] => {
+  const current = runs.length > 0 ? runs[runs.length - 1] : createRun();
+  const votes = current.votes.map((v, i) => (i === judgeIndex ? vote : v));
+  return [...runs.slice(0, Math.max(runs.length - 1, 0)), { votes }];
+};
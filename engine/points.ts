@@ -0,0 +1,106 @@
+import type { ChampionshipStanding, Participant, PointsBand, PointsScheme, QualificationRule } from '../types';
+import { BracketProgress, getAllMatches, getLoser } from './bracket';
+import { getDoubleEliminationPlaces } from './doubleElimination';
+import { rankQualifiers } from './seeding';
+
+// Points for a finishing place, 0 when no band covers it.
+export const getPointsForPlace = (bands: PointsBand[], place: number): number =>
+  bands.find(band => place >= band.fromPlace && place <= band.toPlace)?.points ?? 0;
+
+// Error message for malformed or overlapping bands, null when the bands are valid.
+export const validatePointsBands = (bands: PointsBand[]): string | null => {
+  const sorted = [...bands].sort((a, b) => a.fromPlace - b.fromPlace);
+  for (let i = 0; i < sorted.length; i++) {
+    const band = sorted[i];
+    if (!Number.isInteger(band.fromPlace) || !Number.isInteger(band.toPlace) || band.fromPlace < 1 || band.toPlace < band.fromPlace) {
+      return `Vigane kohtade vahemik ${band.fromPlace}.-${band.toPlace}.`;
+    }
+    if (!Number.isFinite(band.points) || band.points < 0) {
+      return `Kohtadele ${band.fromPlace}.-${band.toPlace}. antavad punktid peavad olema 0 või rohkem.`;
+    }
+    if (i > 0 && band.fromPlace <= sorted[i - 1].toPlace) {
+      return `Kohtade vahemikud ${sorted[i - 1].fromPlace}.-${sorted[i - 1].toPlace}. ja ${band.fromPlace}.-${band.toPlace}. kattuvad.`;
+    }
+  }
+  return null;
+};
+
+export const validatePointsScheme = (scheme: PointsScheme): string | null =>
+  validatePointsBands(scheme.qualification) ?? validatePointsBands(scheme.mainEvent);
+
+export const sortPointsScheme = (scheme: PointsScheme): PointsScheme => ({
+  ...scheme,
+  qualification: [...scheme.qualification].sort((a, b) => a.fromPlace - b.fromPlace),
+  mainEvent: [...scheme.mainEvent].sort((a, b) => a.fromPlace - b.fromPlace),
+});
+
+// Main event finishing place per participant id. In single elimination the podium is decided
+// by the final and the third-place match; everyone else shares the best place of the round
+// they lost in, e.g. all quarterfinal losers are 5th. Double elimination places by the losers
+// bracket instead.
+export const getMainEventPlaces = (progress: BracketProgress): Map<number, number> => {
+  if (progress.bracketFormat === 'DOUBLE_ELIMINATION') return getDoubleEliminationPlaces(progress);
+
+  const places = new Map<number, number>();
+  const { bracket, thirdPlaceMatch } = progress;
+  const finalMatch = bracket[bracket.length - 1]?.[0];
+  [finalMatch?.winner, finalMatch && getLoser(finalMatch), thirdPlaceMatch?.winner, thirdPlaceMatch && getLoser(thirdPlaceMatch)]
+    .forEach((p, index) => {
+      if (p) places.set(p.id, index + 1);
+    });
+  bracket.forEach(round => {
+    const roundParticipants = round.length * 2;
+    round.forEach(match => {
+      const loser = getLoser(match);
+      if (loser && !places.has(loser.id)) places.set(loser.id, roundParticipants / 2 + 1);
+    });
+  });
+  return places;
+};
+
+// Winner, runner-up, third and fourth place of a completed bracket. Places that were not
+// contested (for example fourth place after a semifinal bye) are null.
+export const getPodium = (progress: BracketProgress): (Participant | null)[] => {
+  const places = getMainEventPlaces(progress);
+  const participants = getAllMatches(progress).flatMap(m => [m.participant1, m.participant2]);
+  return [1, 2, 3, 4].map(place => participants.find(p => p && places.get(p.id) === place) ?? null);
+};
+
+// Points earned in one competition, per participant id. Qualification points go to everyone
+// with a score above 0, main event points to everyone who took part in the bracket.
+export const calculateCompetitionPoints = (
+  participants: Participant[],
+  progress: BracketProgress,
+  scheme: PointsScheme,
+  qualificationRule?: QualificationRule
+): Map<number, number> => {
+  const points = new Map<number, number>();
+  const add = (id: number, amount: number) => points.set(id, (points.get(id) || 0) + amount);
+
+  // A driver disqualified in a battle keeps their place but forfeits the main event points
+  const disqualified = new Set(
+    getAllMatches(progress).flatMap(m => m.statuses ?? []).filter(s => s.status === 'DSQ').map(s => s.participantId)
+  );
+
+  rankQualifiers(participants, qualificationRule).forEach((p, index) => add(p.id, getPointsForPlace(scheme.qualification, index + 1)));
+  getMainEventPlaces(progress).forEach((place, id) => {
+    if (!disqualified.has(id)) add(id, getPointsForPlace(scheme.mainEvent, place));
+  });
+
+  return points;
+};
+
+export const getTotalPoints = (standing: ChampionshipStanding): number =>
+  standing.pointsPerCompetition.reduce((sum, p) => sum + p, 0);
+
+// Appends one competition's points to every standing (0 for absentees) and re-sorts the table.
+export const addCompetitionPoints = (
+  standings: ChampionshipStanding[],
+  points: Map<number, number>
+): ChampionshipStanding[] =>
+  standings
+    .map(standing => ({
+      ...standing,
+      pointsPerCompetition: [...standing.pointsPerCompetition, points.get(standing.id) || 0],
+    }))
+    .sort((a, b) => getTotalPoints(b) - getTotalPoints(a));
@@ -0,0 +1,50 @@
+import type { DriverProfile } from '../types';
+import { CAR_NUMBER_MAX, COUNTRIES, PROFILE_TEXT_MAX_LENGTH, SOCIAL_HANDLE_MAX_LENGTH } from '../constants';
+
+// Driver profiles: the competition number, car, team, nationality and social handle a driver
+// gives when registering or an admin sets later.
+
+// Profile as stored: text trimmed, the handle without a leading @ and the country code in capitals
+export const normalizeProfile = (profile: DriverProfile): DriverProfile => ({
+  carNumber: profile.carNumber,
+  car: profile.car.replace(/\s+/gu, ' ').trim(),
+  team: profile.team.replace(/\s+/gu, ' ').trim(),
+  nationality: profile.nationality.trim().toUpperCase(),
+  social: profile.social.trim().replace(/^@/, ''),
+});
+
+const SOCIAL_PATTERN = /^[\p{L}\p{Nd}._-]+$/u;
+
+// Why a profile cannot be used, or null for a valid one. Takes the profile as typed.
+export const validateProfile = (profile: DriverProfile): string | null => {
+  const normalized = normalizeProfile(profile);
+  const { carNumber } = normalized;
+  if (carNumber !== null && (!Number.isInteger(carNumber) || carNumber < 1 || carNumber > CAR_NUMBER_MAX)) {
+    return `Võistlusnumber peab olema täisarv 1 kuni ${CAR_NUMBER_MAX}`;
+  }
+  if ([...normalized.car].length > PROFILE_TEXT_MAX_LENGTH) return `Auto võib olla kuni ${PROFILE_TEXT_MAX_LENGTH} tähemärki pikk`;
+  if ([...normalized.team].length > PROFILE_TEXT_MAX_LENGTH) return `Tiimi nimi võib olla kuni ${PROFILE_TEXT_MAX_LENGTH} tähemärki pikk`;
+  if (normalized.nationality && !COUNTRIES.some(c => c.code === normalized.nationality)) return 'Tundmatu riik';
+  if (normalized.social) {
+    if ([...normalized.social].length > SOCIAL_HANDLE_MAX_LENGTH) return `Kasutajanimi võib olla kuni ${SOCIAL_HANDLE_MAX_LENGTH} tähemärki pikk`;
+    if (!SOCIAL_PATTERN.test(normalized.social)) return 'Kasutajanimi võib sisaldada ainult tähti, numbreid ja märke . _ -';
+  }
+  return null;
+};
+
+export const isSameProfile = (a: DriverProfile, b: DriverProfile): boolean =>
+  a.carNumber === b.carNumber && a.car === b.car && a.team === b.team && a.nationality === b.nationality && a.social === b.social;
+
+// Whether one of the entrants already races with the number. Entrants without a profile have none.
+export const isCarNumberTaken = (carNumber: number | null, entrants: { profile?: DriverProfile }[]): boolean =>
+  carNumber !== null && entrants.some(e => e.profile?.carNumber === carNumber);
+
+export const getCountryName = (code: string): string | undefined => COUNTRIES.find(c => c.code === code)?.name;
+
+// Flag emoji of a country code, made of its two regional indicator letters
+export const getFlag = (code: string): string =>
+  /^[A-Z]{2}$/.test(code) ? String.fromCodePoint(...[...code].map(c => 0x1f1e6 + c.charCodeAt(0) - 65)) : '';
+
+// The car, team and handle of a profile on one line, e.g. "Nissan 200SX · Team Leks · @mari"
+export const formatProfileDetails = (profile: DriverProfile): string =>
+  [profile.car, profile.team, profile.social && `@${profile.social}`].filter(Boolean).join(' · ');
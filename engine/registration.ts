@@ -0,0 +1,64 @@
+import type { RegistrationClosedReason, RegistrationSettings } from '../types';
+import { AppPhase, NAME_MAX_LENGTH, NAME_MIN_LENGTH } from '../constants';
+
+// Null while registration is open at the given time.
+export const getRegistrationClosedReason = (
+  settings: RegistrationSettings,
+  phase: AppPhase,
+  now: number
+): RegistrationClosedReason | null => {
+  if (!settings.isOpen) return 'CLOSED';
+  if (settings.opensAt !== null && now < settings.opensAt) return 'NOT_OPEN_YET';
+  if (settings.closesAt !== null && now >= settings.closesAt) return 'ENDED';
+  // Registrations join the season's standings, not the competition being held
+  if (phase !== AppPhase.CHAMPIONSHIP_VIEW) return 'COMPETITION_RUNNING';
+  return null;
+};
+
+// Whether the field has no room left for another entrant. Entrants are the standings plus
+// registrations waiting for approval, so approvals cannot overfill the field.
+export const isFieldFull = (settings: RegistrationSettings, entrantCount: number): boolean =>
+  settings.capacity !== null && entrantCount >= settings.capacity;
+
+// Opening and closing times that contradict each other, or a capacity below one.
+export const validateRegistrationSettings = (settings: RegistrationSettings): string | null => {
+  if (settings.opensAt !== null && settings.closesAt !== null && settings.closesAt <= settings.opensAt) {
+    return 'Registreerimine peab sulguma pärast avanemist';
+  }
+  if (settings.capacity !== null && (!Number.isInteger(settings.capacity) || settings.capacity < 1)) {
+    return 'Osalejate piirarv peab olema positiivne täisarv';
+  }
+  return null;
+};
+
+// Name as stored: Unicode NFC, so the same letters typed on different keyboards are the same
+// string, with surrounding whitespace trimmed and inner runs of whitespace made single spaces.
+export const normalizeName = (name: string): string =>
+  name.normalize('NFC').replace(/\s+/gu, ' ').trim();
+
+// Key two names are compared by for duplicates: compatibility forms folded (e.g. full-width
+// letters) and case ignored.
+export const getNameKey = (name: string): string =>
+  normalizeName(name).normalize('NFKC').toLocaleLowerCase('et');
+
+export const isSameName = (a: string, b: string): boolean => getNameKey(a) === getNameKey(b);
+
+// One rule for duplicate names everywhere, for self-registrations and admins alike: the same
+// name key as a participant in the standings or a registration waiting in the queue.
+export const isNameTaken = (name: string, standings: { name: string }[], queued: { name: string }[]): boolean =>
+  standings.some(p => isSameName(p.name, name)) || queued.some(r => isSameName(r.name, name));
+
+// Letters with their accents, digits, spaces and the punctuation names use (O'Brien,
+// Jaan-Erik, Jr.). Anything else, such as control characters or emoji, is rejected.
+const NAME_PATTERN = /^[\p{L}\p{M}\p{Nd} .'’-]+$/u;
+
+// Why a name cannot be used, or null for a valid one. Takes the name as typed.
+export const validateName = (name: string): string | null => {
+  const normalized = normalizeName(name);
+  if (!normalized) return 'Sisesta nimi';
+  if ([...normalized].length < NAME_MIN_LENGTH) return `Nimi peab olema vähemalt ${NAME_MIN_LENGTH} tähemärki pikk`;
+  if ([...normalized].length > NAME_MAX_LENGTH) return `Nimi võib olla kuni ${NAME_MAX_LENGTH} tähemärki pikk`;
+  if (!NAME_PATTERN.test(normalized)) return 'Nimi võib sisaldada ainult tähti, numbreid, tühikuid ja märke - . \'';
+  if (!/\p{L}/u.test(normalized)) return 'Nimi peab sisaldama tähti';
+  return null;
+};
@@ -0,0 +1,55 @@
+import type { AppState, RoundDetails, SeasonRound } from '../types';
+import { ROUND_NAME_MAX_LENGTH, ROUND_VENUE_MAX_LENGTH } from '../constants';
+
+// The season calendar. Each competition is held in the first planned round, which runs from
+// check-in until the competition is finished; rounds can be cancelled while still planned.
+
+export const createRound = (index: number): SeasonRound => ({
+  name: `Etapp ${index + 1}`,
+  date: null,
+  venue: '',
+  status: 'PLANNED',
+  competitionIndex: null,
+});
+
+// Rounds for a season of the given length, keeping the ones already set up
+export const resizeRounds = (rounds: SeasonRound[], count: number): SeasonRound[] =>
+  Array.from({ length: count }, (_, i) => rounds[i] ?? createRound(i));
+
+// Calendar of a season from before rounds existed: one round per competition, those held
+// done and the next one running while its competition is.
+export const getDefaultRounds = (totalCompetitions: number | null, competitionsHeld: number, isRunning: boolean): SeasonRound[] =>
+  resizeRounds([], totalCompetitions ?? 0).map((round, i) => {
+    if (i < competitionsHeld) return { ...round, status: 'DONE', competitionIndex: i };
+    if (i === competitionsHeld && isRunning) return { ...round, status: 'RUNNING', competitionIndex: i };
+    return round;
+  });
+
+// Round the next competition is held in, or -1 when none is left
+export const getNextRoundIndex = (rounds: SeasonRound[]): number => rounds.findIndex(r => r.status === 'PLANNED');
+
+// Round a competition of the standings was held in
+export const getCompetitionRound = (rounds: SeasonRound[], competitionIndex: number): SeasonRound | undefined =>
+  rounds.find(r => r.competitionIndex === competitionIndex);
+
+export const getCompetitionName = (rounds: SeasonRound[], competitionIndex: number): string =>
+  getCompetitionRound(rounds, competitionIndex)?.name ?? `Etapp ${competitionIndex + 1}`;
+
+// A season is over once no round is left to hold or still running.
+export const isSeasonFinished = (state: Pick<AppState, 'rounds' | 'totalCompetitions'>): boolean =>
+  state.totalCompetitions !== null && !state.rounds.some(r => r.status === 'PLANNED' || r.status === 'RUNNING');
+
+export const formatRoundDate = (date: string | null): string =>
+  date ? new Date(`${date}T12:00:00`).toLocaleDateString('et-EE') : '';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Why the details of a round cannot be used, or null for valid ones.
+export const validateRoundDetails = (details: RoundDetails): string | null => {
+  const name = details.name.trim();
+  if (!name) return 'Sisesta etapi nimi';
+  if (name.length > ROUND_NAME_MAX_LENGTH) return `Etapi nimi võib olla kuni ${ROUND_NAME_MAX_LENGTH} tähemärki pikk`;
+  if (details.venue.trim().length > ROUND_VENUE_MAX_LENGTH) return `Toimumiskoht võib olla kuni ${ROUND_VENUE_MAX_LENGTH} tähemärki pikk`;
+  if (details.date !== null && (!DATE_PATTERN.test(details.date) || Number.isNaN(Date.parse(details.date)))) return 'Vigane kuupäev';
+  return null;
+};
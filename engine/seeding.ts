@@ -0,0 +1,109 @@
+import type { Participant, QualificationRule, RunStatus } from '../types';
+import { BUBBLE_MARGIN, DEFAULT_QUALIFICATION_RULE } from '../constants';
+
+// Scores of the runs that count under the rule. Entries from before per-run scores only have
+// the single score, which is treated as the first run.
+export const getRunScores = (participant: Participant, rule: QualificationRule = DEFAULT_QUALIFICATION_RULE): (number | null)[] => {
+  const runs = participant.runs ?? [participant.score];
+  return Array.from({ length: rule.runCount }, (_, i) => runs[i] ?? null);
+};
+
+export const getRunStatuses = (participant: Participant, rule: QualificationRule = DEFAULT_QUALIFICATION_RULE): (RunStatus | null)[] =>
+  Array.from({ length: rule.runCount }, (_, i) => participant.runStatuses?.[i] ?? null);
+
+// What each run is worth: its score, 0 for a run with a status, null when nothing is entered.
+const getRunValues = (participant: Participant, rule: QualificationRule): (number | null)[] => {
+  const statuses = getRunStatuses(participant, rule);
+  return getRunScores(participant, rule).map((run, i) => (statuses[i] ? 0 : run));
+};
+
+// Counting score: the best run, or 0 for a disqualified entry. Null while nothing is entered.
+export const getCountingScore = (participant: Participant, rule: QualificationRule = DEFAULT_QUALIFICATION_RULE): number | null => {
+  if (getRunStatuses(participant, rule).includes('DSQ')) return 0;
+  const values = getRunValues(participant, rule).filter((run): run is number => run !== null);
+  return values.length > 0 ? Math.max(...values) : null;
+};
+
+const getSecondBestRun = (participant: Participant, rule: QualificationRule): number => {
+  const values = getRunValues(participant, rule).filter((run): run is number => run !== null).sort((a, b) => b - a);
+  return values[1] ?? -Infinity;
+};
+
+// Best run first, then the rule's tiebreakers in order. Drivers earlier in the running order
+// rank higher on RUN_ORDER. The participant id settles anything left, so the order never
+// depends on how the list happened to be sorted.
+export const compareQualifiers = (rule: QualificationRule = DEFAULT_QUALIFICATION_RULE) => (a: Participant, b: Participant): number => {
+  const byBest = (b.score ?? -Infinity) - (a.score ?? -Infinity);
+  if (byBest !== 0) return byBest;
+  for (const tiebreaker of rule.tiebreakers) {
+    const difference = tiebreaker === 'SECOND_BEST_RUN'
+      ? getSecondBestRun(b, rule) - getSecondBestRun(a, rule)
+      : (a.runOrder ?? Infinity) - (b.runOrder ?? Infinity);
+    if (difference !== 0 && !Number.isNaN(difference)) return difference;
+  }
+  return a.id - b.id;
+};
+
+// Participants with a qualification score above 0, best first, with seeds assigned from 1.
+export const rankQualifiers = (participants: Participant[], rule: QualificationRule = DEFAULT_QUALIFICATION_RULE): Participant[] =>
+  participants
+    .filter(p => p.score !== null && p.score > 0)
+    .sort(compareQualifiers(rule))
+    .map((p, index) => ({ ...p, seed: index + 1 }));
+
+// Qualifiers who make the bracket: the best `bracketSize` of them, seeded.
+export const selectBracketQualifiers = (
+  participants: Participant[],
+  bracketSize: number,
+  rule: QualificationRule = DEFAULT_QUALIFICATION_RULE
+): Participant[] =>
+  rankQualifiers(participants, rule).slice(0, bracketSize);
+
+export interface QualificationCutEntry {
+  participant: Participant;
+  rank: number;
+  isQualified: boolean;
+  // Close enough to the cut line to move in or out with the remaining runs
+  isOnBubble: boolean;
+}
+
+// Qualification order with the bracket cut applied. The bubble only exists when more drivers
+// are ranked than there are bracket places, otherwise everyone with a score goes through.
+export const getQualificationCut = (
+  participants: Participant[],
+  bracketSize: number,
+  rule: QualificationRule = DEFAULT_QUALIFICATION_RULE,
+  bubbleMargin: number = BUBBLE_MARGIN
+): QualificationCutEntry[] => {
+  const ranked = rankQualifiers(participants, rule);
+  const hasCut = ranked.length > bracketSize;
+  return ranked.map((participant, index) => {
+    const rank = index + 1;
+    return {
+      participant,
+      rank,
+      isQualified: rank <= bracketSize,
+      isOnBubble: hasCut && rank > bracketSize - bubbleMargin && rank <= bracketSize + bubbleMargin,
+    };
+  });
+};
+
+// Smallest power of two that fits every participant.
+export const getBracketSize = (participantCount: number): number =>
+  Math.pow(2, Math.ceil(Math.log2(Math.max(participantCount, 1))));
+
+// Seed order of the first round, e.g. [1, 8, 4, 5, 2, 7, 3, 6] for 8 slots,
+// so that the top seeds can only meet each other as late as possible.
+export const getSeedOrder = (bracketSize: number): number[] => {
+  let seeds: number[] = [1];
+  while (seeds.length < bracketSize) {
+    const nextSeeds: number[] = [];
+    const currentBracketSize = seeds.length * 2;
+    for (const seed of seeds) {
+      nextSeeds.push(seed);
+      nextSeeds.push(currentBracketSize + 1 - seed);
+    }
+    seeds = nextSeeds;
+  }
+  return seeds;
+};
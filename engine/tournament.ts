@@ -0,0 +1,352 @@
+import type { AppState, BattleStatusCode, BracketFormat, DriverProfile, JudgeVote, Participant, PointsScheme, QualificationRule, RoundDetails, RunStatus } from '../types';
+import { AppPhase, BRACKET_SIZE_OPTIONS, DEFAULT_BRACKET_SIZE, DEFAULT_QUALIFICATION_RULE, DMEC_POINTS_SCHEME, JUDGE_COUNT, MIN_PARTICIPANTS, QUALIFICATION_RUN_OPTIONS } from '../constants';
+import { advanceWinner, clearMatchResult, createBracket, findProgressMatch, getAllMatches, isBracketComplete, updateMatch } from './bracket';
+import { createDoubleEliminationBracket } from './doubleElimination';
+import { createRun, getRunDecision, recordVote } from './judging';
+import { addCompetitionPoints, calculateCompetitionPoints, sortPointsScheme, validatePointsScheme } from './points';
+import { isCarNumberTaken, isSameProfile, normalizeProfile, validateProfile } from './profile';
+import { getNextRoundIndex, resizeRounds, validateRoundDetails } from './rounds';
+import { getCountingScore, getRunScores, getRunStatuses, selectBracketQualifiers } from './seeding';
+
+// State transitions of a championship. Every function takes the current state and returns
+// a new one without mutating its input, so the same rules can run in the admin UI and on the server.
+
+// A new championship: no season length set yet and nobody registered.
+export const createInitialState = (): AppState => ({
+  phase: AppPhase.CHAMPIONSHIP_VIEW,
+  standings: [],
+  competitionParticipants: [],
+  bracketFormat: 'SINGLE_ELIMINATION',
+  bracket: [],
+  thirdPlaceMatch: null,
+  losersBracket: [],
+  grandFinals: [],
+  grandFinalReset: false,
+  qualificationRule: DEFAULT_QUALIFICATION_RULE,
+  bracketSize: DEFAULT_BRACKET_SIZE,
+  pointsScheme: DMEC_POINTS_SCHEME,
+  totalCompetitions: null,
+  competitionsHeld: 0,
+  checkedInIds: [],
+  competitionRecordIds: [],
+  rounds: [],
+});
+
+// The season cannot be shorter than the number of competitions already held. The calendar
+// gains or loses rounds at its end.
+export const setTotalCompetitions = (state: AppState, totalCompetitions: number): AppState => {
+  if (!Number.isInteger(totalCompetitions) || totalCompetitions < 1) return state;
+  if (totalCompetitions < state.competitionsHeld) {
+    throw new Error(`Hooajal on juba peetud ${state.competitionsHeld} võistlust.`);
+  }
+  if (state.rounds.slice(totalCompetitions).some(r => r.status === 'DONE' || r.status === 'RUNNING')) {
+    throw new Error('Toimunud või käimasolevat etappi ei saa hooajast eemaldada.');
+  }
+  return { ...state, totalCompetitions, rounds: resizeRounds(state.rounds, totalCompetitions) };
+};
+
+// Renames a round or changes its date or venue. A held round keeps the details it was archived with.
+export const setRound = (state: AppState, roundIndex: number, details: RoundDetails): AppState => {
+  const round = state.rounds[roundIndex];
+  if (!round) return state;
+  if (round.status === 'DONE') throw new Error('Toimunud etapi andmeid ei saa muuta.');
+  const error = validateRoundDetails(details);
+  if (error) throw new Error(error);
+  const updated = { ...round, name: details.name.trim(), date: details.date, venue: details.venue.trim() };
+  if (updated.name === round.name && updated.date === round.date && updated.venue === round.venue) return state;
+  return { ...state, rounds: state.rounds.map((r, i) => (i === roundIndex ? updated : r)) };
+};
+
+// Cancels a planned round, or plans a cancelled one again.
+export const setRoundCancelled = (state: AppState, roundIndex: number, cancelled: boolean): AppState => {
+  const round = state.rounds[roundIndex];
+  if (!round || round.status !== (cancelled ? 'PLANNED' : 'CANCELLED')) return state;
+  const status = cancelled ? 'CANCELLED' : 'PLANNED';
+  return { ...state, rounds: state.rounds.map((r, i) => (i === roundIndex ? { ...r, status } : r)) };
+};
+
+// The points scheme can only change before any points have been awarded with it.
+export const setPointsScheme = (state: AppState, scheme: PointsScheme): AppState => {
+  if (state.competitionsHeld > 0) {
+    throw new Error('Punktitabelit ei saa pärast esimest võistlust muuta.');
+  }
+  const error = validatePointsScheme(scheme);
+  if (error) throw new Error(error);
+  return { ...state, pointsScheme: sortPointsScheme(scheme) };
+};
+
+// Profiles are changed between competitions, and a competition number can only be one driver's.
+export const setParticipantProfile = (state: AppState, participantId: number, profile: DriverProfile): AppState => {
+  const standing = state.standings.find(p => p.id === participantId);
+  if (state.phase !== AppPhase.CHAMPIONSHIP_VIEW || !standing) return state;
+  const error = validateProfile(profile);
+  if (error) throw new Error(error);
+  const normalized = normalizeProfile(profile);
+  if (isCarNumberTaken(normalized.carNumber, state.standings.filter(p => p.id !== participantId))) {
+    throw new Error(`Võistlusnumber ${normalized.carNumber} on juba kasutusel.`);
+  }
+  if (standing.profile && isSameProfile(standing.profile, normalized)) return state;
+  return { ...state, standings: state.standings.map(p => (p.id === participantId ? { ...p, profile: normalized } : p)) };
+};
+
+// Competition day starts with check-in, where the admin or the drivers themselves mark who is
+// there. The competition is held in the next planned round of the calendar.
+export const startCheckIn = (state: AppState): AppState => {
+  const roundIndex = getNextRoundIndex(state.rounds);
+  if (state.phase !== AppPhase.CHAMPIONSHIP_VIEW || roundIndex === -1) return state;
+  return {
+    ...state,
+    rounds: state.rounds.map((r, i) => (i === roundIndex ? { ...r, status: 'RUNNING', competitionIndex: state.competitionsHeld } : r)),
+    checkedInIds: [],
+    phase: AppPhase.CHECK_IN,
+  };
+};
+
+// Marks drivers in the standings present or not present.
+export const setCheckedIn = (state: AppState, participantIds: number[], present: boolean): AppState => {
+  if (state.phase !== AppPhase.CHECK_IN) return state;
+  const ids = participantIds.filter(id => state.standings.some(p => p.id === id));
+  const checkedInIds = present
+    ? [...state.checkedInIds, ...ids.filter(id => !state.checkedInIds.includes(id))]
+    : state.checkedInIds.filter(id => !ids.includes(id));
+  if (checkedInIds.length === state.checkedInIds.length && checkedInIds.every((id, i) => id === state.checkedInIds[i])) return state;
+  return { ...state, checkedInIds };
+};
+
+// Ends check-in: the drivers who checked in enter qualification in standings order, and the
+// others are recorded as absent from this competition.
+export const startCompetition = (state: AppState): AppState => {
+  if (state.phase !== AppPhase.CHECK_IN) return state;
+  const present = state.standings.filter(p => state.checkedInIds.includes(p.id));
+  if (present.length < MIN_PARTICIPANTS) {
+    throw new Error(`Võistluse alustamiseks peab kohal olema vähemalt ${MIN_PARTICIPANTS} osalejat.`);
+  }
+  return {
+    ...state,
+    standings: state.standings.map(p =>
+      state.checkedInIds.includes(p.id) ? p : { ...p, absences: [...(p.absences ?? []), state.competitionsHeld] }
+    ),
+    checkedInIds: [],
+    competitionParticipants: present.map((p, index) => ({
+      id: p.id,
+      name: p.name,
+      ...(p.profile && { profile: p.profile }),
+      score: null,
+      seed: 0,
+      runs: Array(state.qualificationRule.runCount).fill(null),
+      runStatuses: Array(state.qualificationRule.runCount).fill(null),
+      runOrder: index + 1,
+    })),
+    bracket: [],
+    thirdPlaceMatch: null,
+    losersBracket: [],
+    grandFinals: [],
+    phase: AppPhase.QUALIFICATION,
+  };
+};
+
+// Replaces the score and status of one qualification run and re-derives the counting score.
+const updateQualificationRun = (
+  state: AppState,
+  participantId: number,
+  runIndex: number,
+  score: number | null,
+  status: RunStatus | null
+): AppState => {
+  if (state.phase !== AppPhase.QUALIFICATION) return state;
+  if (!Number.isInteger(runIndex) || runIndex < 0 || runIndex >= state.qualificationRule.runCount) return state;
+  return {
+    ...state,
+    competitionParticipants: state.competitionParticipants.map(p => {
+      if (p.id !== participantId) return p;
+      const runs = getRunScores(p, state.qualificationRule).map((run, i) => (i === runIndex ? score : run));
+      const runStatuses = getRunStatuses(p, state.qualificationRule).map((s, i) => (i === runIndex ? status : s));
+      const updated = { ...p, runs, runStatuses };
+      return { ...updated, score: getCountingScore(updated, state.qualificationRule) };
+    }),
+  };
+};
+
+// Sets the score of one qualification run, rounded to two decimals; null clears it.
+// A score replaces any status the run had. The counting score follows the best run.
+export const setQualificationScore = (state: AppState, participantId: number, score: number | null, runIndex = 0): AppState => {
+  if (score !== null && (!Number.isFinite(score) || score < 0)) throw new Error('Tulemus peab olema 0 või suurem.');
+  return updateQualificationRun(state, participantId, runIndex, score === null ? null : Math.round(score * 100) / 100, null);
+};
+
+// Marks a qualification run as DNS, DNF, zero or DSQ in place of a score; null clears it.
+export const setQualificationRunStatus = (state: AppState, participantId: number, runIndex: number, status: RunStatus | null): AppState =>
+  updateQualificationRun(state, participantId, runIndex, null, status);
+
+export const startBracket = (state: AppState, participants: Participant[] = state.competitionParticipants): AppState => {
+  if (state.phase !== AppPhase.QUALIFICATION) return state;
+  const qualifiedParticipants = selectBracketQualifiers(participants, state.bracketSize, state.qualificationRule);
+  if (qualifiedParticipants.length < MIN_PARTICIPANTS) {
+    throw new Error(`Tabeli genereerimiseks on vaja vähemalt ${MIN_PARTICIPANTS} osalejat, kelle tulemus on suurem kui 0.`);
+  }
+  const brackets = state.bracketFormat === 'DOUBLE_ELIMINATION'
+    ? createDoubleEliminationBracket(qualifiedParticipants, state.grandFinalReset)
+    : { bracket: createBracket(qualifiedParticipants), losersBracket: [], grandFinals: [] };
+  return {
+    ...state,
+    ...brackets,
+    competitionParticipants: participants,
+    thirdPlaceMatch: null,
+    phase: AppPhase.BRACKET,
+  };
+};
+
+// Bracket settings can change until the bracket has been generated.
+const isBeforeBracket = (state: AppState) =>
+  state.phase === AppPhase.QUALIFICATION || state.phase === AppPhase.CHAMPIONSHIP_VIEW;
+
+export const setBracketSize = (state: AppState, bracketSize: number): AppState => {
+  if (!isBeforeBracket(state)) return state;
+  if (!BRACKET_SIZE_OPTIONS.includes(bracketSize)) {
+    throw new Error(`Tabeli suurus peab olema ${BRACKET_SIZE_OPTIONS.join(', ')}.`);
+  }
+  return { ...state, bracketSize };
+};
+
+// Changing the number of runs re-derives every counting score from the runs that still count.
+export const setQualificationRule = (state: AppState, rule: QualificationRule): AppState => {
+  if (!isBeforeBracket(state) || !QUALIFICATION_RUN_OPTIONS.includes(rule.runCount)) return state;
+  return {
+    ...state,
+    qualificationRule: rule,
+    competitionParticipants: state.competitionParticipants.map(p => {
+      const updated = { ...p, runs: getRunScores(p, rule), runStatuses: getRunStatuses(p, rule) };
+      return { ...updated, score: getCountingScore(updated, rule) };
+    }),
+  };
+};
+
+export const setBracketFormat = (state: AppState, bracketFormat: BracketFormat): AppState => {
+  if (!isBeforeBracket(state)) return state;
+  return { ...state, bracketFormat };
+};
+
+// Whether a grand final won by the losers bracket champion is followed by a second, deciding final.
+export const setGrandFinalReset = (state: AppState, grandFinalReset: boolean): AppState => {
+  if (!isBeforeBracket(state)) return state;
+  return { ...state, grandFinalReset };
+};
+
+// Results can be entered while the bracket runs and changed once it is complete, but not after
+// the competition has been finished and its points added to the standings.
+const isBracketOpen = (state: AppState) =>
+  state.phase === AppPhase.BRACKET || state.phase === AppPhase.FINISHED;
+
+const isWithdrawn = (state: AppState, participant: Participant | null) =>
+  !!participant && !!state.competitionParticipants.find(p => p.id === participant.id)?.withdrawn;
+
+// Records a match result. Changing an existing result first clears it along with every
+// later result that depended on it, so the new winner can advance in its place. A driver who
+// has withdrawn cannot win against one who has not.
+export const setMatchWinner = (state: AppState, matchId: number, winner: Participant): AppState => {
+  if (!isBracketOpen(state)) return state;
+  const match = findProgressMatch(state, matchId);
+  if (!match || (match.participant1?.id !== winner.id && match.participant2?.id !== winner.id)) return state;
+  if (match.winner?.id === winner.id) return state;
+  const opponent = match.participant1?.id === winner.id ? match.participant2 : match.participant1;
+  if (isWithdrawn(state, winner) && opponent && !isWithdrawn(state, opponent)) return state;
+  const current = match.winner ? reopenMatch(state, matchId) : state;
+
+  const next = advanceWinner(current, matchId, winner);
+  return settleWithdrawals({
+    ...next,
+    phase: isBracketComplete(next) ? AppPhase.FINISHED : current.phase,
+  });
+};
+
+// Gives the next open battle involving a withdrawn driver to their opponent as a walkover.
+// Each walkover advances someone through setMatchWinner, which settles the one after it.
+const settleWithdrawals = (state: AppState): AppState => {
+  const withdrawn = new Set(state.competitionParticipants.filter(p => p.withdrawn).map(p => p.id));
+  if (withdrawn.size === 0) return state;
+  const match = getAllMatches(state).find(m =>
+    m.participant1 && m.participant2 && !m.winner && (withdrawn.has(m.participant1.id) || withdrawn.has(m.participant2.id))
+  );
+  if (!match) return state;
+
+  const [p1, p2] = [match.participant1!, match.participant2!];
+  // When both have withdrawn the better seed goes through, only to concede the next battle
+  const out = withdrawn.has(p1.id) && withdrawn.has(p2.id) ? (p1.seed < p2.seed ? p2 : p1) : withdrawn.has(p1.id) ? p1 : p2;
+  return setBattleStatus(state, match.id, out.id, 'WD');
+};
+
+// Clears a result and every later one that depended on it, leaving the battle open.
+const reopenMatch = (state: AppState, matchId: number): AppState => {
+  const next = clearMatchResult(state, matchId);
+  return {
+    ...next,
+    phase: state.phase === AppPhase.FINISHED && !isBracketComplete(next) ? AppPhase.BRACKET : state.phase,
+  };
+};
+
+// Clears a result as the admin asked. A battle that reopens with a withdrawn driver in it goes
+// straight back to their opponent as a walkover.
+export const clearMatchWinner = (state: AppState, matchId: number): AppState => {
+  if (!isBracketOpen(state)) return state;
+  return settleWithdrawals(reopenMatch(state, matchId));
+};
+
+// Records one judge's vote (null takes it back) on the run in progress of an undecided battle.
+// Once every judge has voted, a majority decides the match and anything else adds a rerun.
+export const setJudgeVote = (state: AppState, matchId: number, judgeIndex: number, vote: JudgeVote | null): AppState => {
+  if (!isBracketOpen(state)) return state;
+  const match = findProgressMatch(state, matchId);
+  if (!match || !match.participant1 || !match.participant2 || match.winner) return state;
+  if (!Number.isInteger(judgeIndex) || judgeIndex < 0 || judgeIndex >= JUDGE_COUNT) return state;
+  if (vote !== null && vote !== 'OMT' && vote !== match.participant1.id && vote !== match.participant2.id) return state;
+
+  const runs = recordVote(match.runs ?? [], judgeIndex, vote);
+  const decision = getRunDecision(runs[runs.length - 1]);
+  if (decision === 'OMT') return updateMatch(state, matchId, { runs: [...runs, createRun()] });
+
+  const voted = updateMatch(state, matchId, { runs });
+  if (decision === null) return voted;
+  const winner = match.participant1.id === decision ? match.participant1 : match.participant2;
+  return setMatchWinner(voted, matchId, winner);
+};
+
+// Gives a battle against a driver with a status (DNS, DNF, zero run, DSQ or a withdrawal): the
+// opponent wins, by walkover when the driver did not start. An existing result is replaced.
+export const setBattleStatus = (state: AppState, matchId: number, participantId: number, status: BattleStatusCode): AppState => {
+  if (!isBracketOpen(state)) return state;
+  const match = findProgressMatch(state, matchId);
+  if (!match || !match.participant1 || !match.participant2) return state;
+  const opponent = match.participant1.id === participantId ? match.participant2
+    : match.participant2.id === participantId ? match.participant1
+    : null;
+  if (!opponent) return state;
+
+  const current = match.winner ? reopenMatch(state, matchId) : state;
+  const marked = updateMatch(current, matchId, { statuses: [{ participantId, status }] });
+  return setMatchWinner(marked, matchId, opponent);
+};
+
+// Withdraws a driver from the running bracket. Their open battle becomes a walkover, as does
+// every later battle they would have reached. They keep the place, and the points, of the
+// round they went out in.
+export const withdrawParticipant = (state: AppState, participantId: number): AppState => {
+  if (state.phase !== AppPhase.BRACKET) return state;
+  const participant = state.competitionParticipants.find(p => p.id === participantId);
+  if (!participant || participant.withdrawn) return state;
+  return settleWithdrawals({
+    ...state,
+    competitionParticipants: state.competitionParticipants.map(p => (p.id === participantId ? { ...p, withdrawn: true } : p)),
+  });
+};
+
+export const finishCompetition = (state: AppState): AppState => {
+  if (state.phase !== AppPhase.FINISHED) return state;
+  const points = calculateCompetitionPoints(state.competitionParticipants, state, state.pointsScheme, state.qualificationRule);
+  return {
+    ...state,
+    standings: addCompetitionPoints(state.standings, points),
+    rounds: state.rounds.map(r => (r.status === 'RUNNING' ? { ...r, status: 'DONE' } : r)),
+    competitionsHeld: state.competitionsHeld + 1,
+    phase: AppPhase.CHAMPIONSHIP_VIEW,
+  };
+};
@@ -0,0 +1,174 @@
+import { test, expect } from '@playwright/test';
+import { AppPhase, DEFAULT_QUALIFICATION_RULE, DMEC_POINTS_SCHEME } from '../constants';
+import type { AppState, Match } from '../types';
+import { findProgressMatch, getAllMatches, getDependentResults } from '../engine/bracket';
+import { calculateCompetitionPoints, getMainEventPlaces, getPodium } from '../engine/points';
+import { getDefaultRounds } from '../engine/rounds';
+import { clearMatchWinner, setMatchWinner, startBracket, startCompetition, withdrawParticipant } from '../engine/tournament';
+
+// Pure engine tests for the double-elimination format.
+
+const makeState = (count: number, grandFinalReset = false): AppState => {
+  const standings = Array.from({ length: count }, (_, i) => ({ id: i + 1, name: `Driver ${i + 1}`, pointsPerCompetition: [] }));
+  const state = startCompetition({
+    phase: AppPhase.CHECK_IN,
+    standings,
+    competitionParticipants: [],
+    bracketFormat: 'DOUBLE_ELIMINATION',
+    bracket: [],
+    thirdPlaceMatch: null,
+    losersBracket: [],
+    grandFinals: [],
+    grandFinalReset,
+    qualificationRule: DEFAULT_QUALIFICATION_RULE,
+    bracketSize: 64,
+    pointsScheme: DMEC_POINTS_SCHEME,
+    totalCompetitions: 6,
+    competitionsHeld: 0,
+    checkedInIds: standings.map(p => p.id),
+    competitionRecordIds: [],
+    rounds: getDefaultRounds(6, 0, true),
+  });
+  return startBracket({
+    ...state,
+    competitionParticipants: state.competitionParticipants.map((p, i) => ({ ...p, score: 100 - i, runs: [100 - i, null] })),
+  });
+};
+
+const openMatch = (state: AppState): Match | undefined =>
+  getAllMatches(state).find(m => m.participant1 && m.participant2 && !m.winner);
+
+// Plays every open match with the better seed winning, unless `upset` says otherwise.
+const playOut = (state: AppState, upset: (match: Match) => boolean = () => false): AppState => {
+  let current = state;
+  for (let guard = 0; guard < 500 && current.phase === AppPhase.BRACKET; guard++) {
+    const open = openMatch(current);
+    if (!open) break;
+    const favourite = open.participant1!.seed < open.participant2!.seed ? open.participant1! : open.participant2!;
+    const underdog = favourite.id === open.participant1!.id ? open.participant2! : open.participant1!;
+    current = setMatchWinner(current, open.id, upset(open) ? underdog : favourite);
+  }
+  return current;
+};
+
+test.describe('Engine - double elimination', () => {
+  test('builds winners and losers brackets for 8 drivers', () => {
+    const state = makeState(8);
+    expect(state.bracket.map(r => r.length)).toEqual([4, 2, 1]);
+    // First round losers, drop-in, reduction, drop-in (losers bracket final)
+    expect(state.losersBracket.map(r => r.length)).toEqual([2, 2, 1, 1]);
+    expect(state.grandFinals).toHaveLength(1);
+    expect(state.thirdPlaceMatch).toBeNull();
+
+    const ids = getAllMatches(state).map(m => m.id);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  test('drops first round losers into the losers bracket', () => {
+    let state = makeState(8);
+    const [m0, m1] = state.bracket[0];
+    state = setMatchWinner(state, m0.id, m0.participant1!);
+    state = setMatchWinner(state, m1.id, m1.participant1!);
+
+    const losersMatch = state.losersBracket[0][0];
+    expect([losersMatch.participant1?.seed, losersMatch.participant2?.seed]).toEqual([5, 8]);
+  });
+
+  test('settles losers bracket byes left by an odd field', () => {
+    const state = playOut(makeState(6));
+    expect(state.phase).toBe(AppPhase.FINISHED);
+    const places = getMainEventPlaces(state);
+    expect(places.size).toBe(6);
+    expect(places.get(1)).toBe(1);
+    expect(places.get(2)).toBe(2);
+  });
+
+  test('every driver is eliminated after two losses', () => {
+    const finished = playOut(makeState(8));
+    const losses = new Map<number, number>();
+    getAllMatches(finished).forEach(m => {
+      const loser = m.winner && m.participant1 && m.participant2
+        ? (m.winner.id === m.participant1.id ? m.participant2 : m.participant1)
+        : null;
+      if (loser) losses.set(loser.id, (losses.get(loser.id) || 0) + 1);
+    });
+    expect(losses.get(1)).toBeUndefined();
+    [...losses.entries()].filter(([id]) => id !== 2).forEach(([, count]) => expect(count).toBe(2));
+  });
+
+  test('places drivers by the losers bracket round they went out in', () => {
+    const finished = playOut(makeState(8));
+    const places = getMainEventPlaces(finished);
+    expect(places.get(1)).toBe(1);
+    expect(places.get(2)).toBe(2);
+    expect(places.get(3)).toBe(3);
+    expect(places.get(4)).toBe(4);
+    expect([places.get(5), places.get(6)]).toEqual([5, 5]);
+    expect([places.get(7), places.get(8)]).toEqual([7, 7]);
+    expect(getPodium(finished).map(p => p?.seed)).toEqual([1, 2, 3, 4]);
+
+    const points = calculateCompetitionPoints(finished.competitionParticipants, finished, DMEC_POINTS_SCHEME);
+    expect(points.get(1)).toBe(12 + 100);
+    expect(points.get(7)).toBe(3 + 48);
+  });
+
+  test('without a reset the grand final decides the winner', () => {
+    const start = makeState(4);
+    const finished = playOut(start, m => m.id === start.grandFinals[0].id);
+    expect(finished.phase).toBe(AppPhase.FINISHED);
+    expect(finished.grandFinals).toHaveLength(1);
+    expect(getPodium(finished)[0]?.seed).toBe(2);
+  });
+
+  test('a grand final won by the losers bracket champion forces a reset', () => {
+    const start = makeState(4, true);
+    const grandFinalId = start.grandFinals[0].id;
+    const finished = playOut(start, m => m.id === grandFinalId);
+    expect(finished.phase).toBe(AppPhase.FINISHED);
+    expect(finished.grandFinals).toHaveLength(2);
+    const [grandFinal, reset] = finished.grandFinals;
+    expect(grandFinal.winner?.seed).toBe(2);
+    expect([reset.participant1?.seed, reset.participant2?.seed]).toEqual([1, 2]);
+    expect(getPodium(finished).slice(0, 2).map(p => p?.seed)).toEqual([1, 2]);
+
+    // Reopening the first grand final removes the reset again
+    const reopened = clearMatchWinner(finished, grandFinalId);
+    expect(reopened.grandFinals).toHaveLength(1);
+    expect(reopened.phase).toBe(AppPhase.BRACKET);
+  });
+
+  test('the winners bracket champion needs to win the grand final only once', () => {
+    const finished = playOut(makeState(4, true));
+    expect(finished.phase).toBe(AppPhase.FINISHED);
+    expect(finished.grandFinals).toHaveLength(1);
+  });
+
+  test('correcting a winners bracket result clears the results the loser played since', () => {
+    const finished = playOut(makeState(4));
+    const firstMatch = finished.bracket[0][0];
+    const dependents = getDependentResults(finished, firstMatch.id).map(m => m.id);
+    // Winners final, losers bracket match, losers bracket final and grand final
+    expect(dependents).toHaveLength(4);
+
+    const corrected = setMatchWinner(finished, firstMatch.id, firstMatch.participant2!);
+    expect(corrected.phase).toBe(AppPhase.BRACKET);
+    const losersMatch = corrected.losersBracket[0][0];
+    expect(losersMatch.winner).toBeNull();
+    expect([losersMatch.participant1?.seed, losersMatch.participant2?.seed]).toEqual([1, 3]);
+    expect(findProgressMatch(corrected, corrected.grandFinals[0].id)?.participant1).toBeNull();
+
+    expect(playOut(corrected).phase).toBe(AppPhase.FINISHED);
+  });
+
+  test('a withdrawn driver concedes the losers bracket battle too', () => {
+    const state = makeState(8);
+    const firstMatch = state.bracket[0][0];
+    const driver = firstMatch.participant1!;
+
+    const finished = playOut(withdrawParticipant(state, driver.id));
+    expect(finished.phase).toBe(AppPhase.FINISHED);
+    const conceded = getAllMatches(finished).filter(m => m.statuses?.some(s => s.participantId === driver.id && s.status === 'WD'));
+    expect(conceded).toHaveLength(2);
+    expect(getMainEventPlaces(finished).get(driver.id)).toBe(7);
+  });
+});
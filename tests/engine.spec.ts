@@ -0,0 +1,802 @@
+import { test, expect } from '@playwright/test';
+import { AppPhase, CLUB_POINTS_SCHEME, DEFAULT_QUALIFICATION_RULE, DEFAULT_REGISTRATION_SETTINGS, DMEC_POINTS_SCHEME, EMPTY_DRIVER_PROFILE } from '../constants';
+import type { AppState, CompetitionRecord, Participant } from '../types';
+import { getBracketSize, getQualificationCut, getSeedOrder, rankQualifiers } from '../engine/seeding';
+import { advanceWinner, createBracket, findMatch, getDependentResults, THIRD_PLACE_MATCH_ID } from '../engine/bracket';
+import { calculateCompetitionPoints, getPodium, getPointsForPlace, validatePointsScheme } from '../engine/points';
+import { clearMatchWinner, finishCompetition, setBattleStatus, setBracketSize, setJudgeVote, setMatchWinner, setQualificationRule, setQualificationRunStatus, setQualificationScore, setPointsScheme, setCheckedIn, setParticipantProfile, setRound, setRoundCancelled, setTotalCompetitions, startBracket, startCheckIn, startCompetition, withdrawParticipant } from '../engine/tournament';
+import { getRunDecision } from '../engine/judging';
+import { amendCompetitionRecord, applyArchivedPoints, applyCompetitionCorrections, createCompetitionRecord } from '../engine/archive';
+import { getFlag, normalizeProfile, validateProfile } from '../engine/profile';
+import { getDefaultRounds, isSeasonFinished } from '../engine/rounds';
+import { getRegistrationClosedReason, isFieldFull, isNameTaken, isSameName, normalizeName, validateName, validateRegistrationSettings } from '../engine/registration';
+
+// Pure engine tests: no browser or dev server interaction needed.
+
+const makeParticipants = (count: number): Participant[] =>
+  Array.from({ length: count }, (_, i) => ({ id: i + 1, name: `Driver ${i + 1}`, score: 100 - i, seed: 0 }));
+
+const makeState = (count: number, bracketSize = 64): AppState => {
+  const standings = Array.from({ length: count }, (_, i) => ({ id: i + 1, name: `Driver ${i + 1}`, pointsPerCompetition: [] }));
+  const state = startCompetition({
+    phase: AppPhase.CHECK_IN,
+    standings,
+    competitionParticipants: [],
+    bracketFormat: 'SINGLE_ELIMINATION',
+    bracket: [],
+    thirdPlaceMatch: null,
+    losersBracket: [],
+    grandFinals: [],
+    grandFinalReset: false,
+    qualificationRule: DEFAULT_QUALIFICATION_RULE,
+    bracketSize,
+    pointsScheme: DMEC_POINTS_SCHEME,
+    totalCompetitions: 6,
+    competitionsHeld: 0,
+    checkedInIds: standings.map(p => p.id),
+    competitionRecordIds: [],
+    rounds: getDefaultRounds(6, 0, true),
+  });
+  return {
+    ...state,
+    competitionParticipants: state.competitionParticipants.map((p, i) => ({ ...p, score: 100 - i, runs: [100 - i, null] })),
+  };
+};
+
+// Plays every open match with the better seed winning until the bracket is finished.
+const playOut = (state: AppState): AppState => {
+  let current = state;
+  for (let guard = 0; guard < 200 && current.phase === AppPhase.BRACKET; guard++) {
+    const open = [...current.bracket.flat(), ...(current.thirdPlaceMatch ? [current.thirdPlaceMatch] : [])]
+      .find(m => m.participant1 && m.participant2 && !m.winner);
+    if (!open) break;
+    const winner = open.participant1!.seed < open.participant2!.seed ? open.participant1! : open.participant2!;
+    current = setMatchWinner(current, open.id, winner);
+  }
+  return current;
+};
+
+test.describe('Engine - seeding', () => {
+  test('orders seeds so top seeds meet last', () => {
+    expect(getSeedOrder(2)).toEqual([1, 2]);
+    expect(getSeedOrder(4)).toEqual([1, 4, 2, 3]);
+    expect(getSeedOrder(8)).toEqual([1, 8, 4, 5, 2, 7, 3, 6]);
+  });
+
+  test('rounds bracket size up to a power of two', () => {
+    expect(getBracketSize(2)).toBe(2);
+    expect(getBracketSize(3)).toBe(4);
+    expect(getBracketSize(16)).toBe(16);
+    expect(getBracketSize(33)).toBe(64);
+  });
+
+  test('ranks only participants with a score above 0', () => {
+    const ranked = rankQualifiers([
+      { id: 1, name: 'A', score: 50, seed: 0 },
+      { id: 2, name: 'B', score: null, seed: 0 },
+      { id: 3, name: 'C', score: 0, seed: 0 },
+      { id: 4, name: 'D', score: 80, seed: 0 },
+    ]);
+    expect(ranked.map(p => [p.id, p.seed])).toEqual([[4, 1], [1, 2]]);
+  });
+
+  test('the best run counts and ties go to the second run, then the running order', () => {
+    let state = makeState(4);
+    [[70, 90], [90, 60], [85, 90], [90, 60]].forEach(([first, second], i) => {
+      state = setQualificationScore(state, i + 1, first, 0);
+      state = setQualificationScore(state, i + 1, second, 1);
+    });
+    expect(state.competitionParticipants.map(p => p.score)).toEqual([90, 90, 90, 90]);
+
+    const ranked = rankQualifiers(state.competitionParticipants, state.qualificationRule);
+    // Second runs: 3 has 85, 1 has 70, 2 and 4 have 60 and 2 ran first
+    expect(ranked.map(p => p.id)).toEqual([3, 1, 2, 4]);
+
+    const byRunOrderOnly = rankQualifiers(state.competitionParticipants, { runCount: 2, tiebreakers: ['RUN_ORDER'] });
+    expect(byRunOrderOnly.map(p => p.id)).toEqual([1, 2, 3, 4]);
+  });
+
+  test('fewer runs re-derive the counting score', () => {
+    let state = makeState(2);
+    state = setQualificationScore(state, 1, 60, 0);
+    state = setQualificationScore(state, 1, 95, 1);
+    expect(state.competitionParticipants[0].score).toBe(95);
+
+    const singleRun = setQualificationRule(state, { runCount: 1, tiebreakers: [] });
+    expect(singleRun.competitionParticipants[0].score).toBe(60);
+    expect(singleRun.competitionParticipants[0].runs).toEqual([60]);
+  });
+});
+
+test.describe('Engine - bracket size cutoff', () => {
+  test('only the best qualifiers up to the bracket size go through', () => {
+    const state = startBracket(makeState(40, 32));
+    expect(state.bracket[0]).toHaveLength(16);
+    const seeds = state.bracket[0].flatMap(m => [m.participant1?.id, m.participant2?.id]);
+    expect(seeds).not.toContain(33);
+    expect(Math.max(...(seeds as number[]))).toBe(32);
+  });
+
+  test('a smaller field still rounds up to a power of two', () => {
+    const state = startBracket(makeState(20, 32));
+    expect(state.bracket[0]).toHaveLength(16);
+  });
+
+  test('marks the cut line and the bubble', () => {
+    const cut = getQualificationCut(makeParticipants(20), 16);
+    expect(cut.filter(e => e.isQualified)).toHaveLength(16);
+    expect(cut.filter(e => e.isOnBubble).map(e => e.rank)).toEqual([15, 16, 17, 18]);
+  });
+
+  test('there is no bubble when every entrant fits in the bracket', () => {
+    const cut = getQualificationCut(makeParticipants(12), 16);
+    expect(cut.every(e => e.isQualified && !e.isOnBubble)).toBe(true);
+  });
+
+  test('drivers without a score or disqualified do not make a cut', () => {
+    const participants = makeParticipants(20).map((p, i) => (i < 14 ? p : { ...p, score: i === 19 ? 0 : null }));
+    // A wide enough margin would put the last ranked drivers on the bubble
+    const cut = getQualificationCut(participants, 16, DEFAULT_QUALIFICATION_RULE, 4);
+    expect(cut).toHaveLength(14);
+    expect(cut.every(e => e.isQualified && !e.isOnBubble)).toBe(true);
+  });
+
+  test('only the offered bracket sizes can be chosen', () => {
+    const state = makeState(20, 16);
+    expect(setBracketSize(state, 32).bracketSize).toBe(32);
+    for (const size of [0, 8, 24, 128, 16.5, NaN]) {
+      expect(() => setBracketSize(state, size)).toThrow();
+    }
+  });
+
+  test('non-qualifiers still get their qualification points', () => {
+    const finished = playOut(startBracket(makeState(20, 16)));
+    const points = calculateCompetitionPoints(finished.competitionParticipants, finished, DMEC_POINTS_SCHEME);
+    expect(points.get(17)).toBe(0.5);
+    expect(points.get(20)).toBe(0.5);
+    expect(points.get(16)).toBe(32 + 1);
+  });
+});
+
+test.describe('Engine - bracket', () => {
+  test('2 participants play a single final without a third-place match', () => {
+    const bracket = createBracket(rankQualifiers(makeParticipants(2)));
+    expect(bracket).toHaveLength(1);
+    expect(bracket[0][0].participant1?.seed).toBe(1);
+    expect(bracket[0][0].participant2?.seed).toBe(2);
+
+    const state = playOut(startBracket(makeState(2)));
+    expect(state.phase).toBe(AppPhase.FINISHED);
+    expect(state.thirdPlaceMatch).toBeNull();
+  });
+
+  test('3 participants give the top seed a bye and a walkover third place', () => {
+    const state = startBracket(makeState(3));
+    const [byeMatch, semiFinal] = state.bracket[0];
+    expect(byeMatch.participant2).toBeNull();
+    expect(byeMatch.winner?.seed).toBe(1);
+    expect(state.bracket[1][0].participant1?.seed).toBe(1);
+
+    const afterSemi = setMatchWinner(state, semiFinal.id, semiFinal.participant1!);
+    expect(afterSemi.thirdPlaceMatch?.id).toBe(THIRD_PLACE_MATCH_ID);
+    expect(afterSemi.thirdPlaceMatch?.participant2).toBeNull();
+    expect(afterSemi.thirdPlaceMatch?.winner?.seed).toBe(3);
+
+    const finished = playOut(afterSemi);
+    expect(finished.phase).toBe(AppPhase.FINISHED);
+  });
+
+  test('33 participants fill a 64 bracket with 31 byes', () => {
+    const state = startBracket(makeState(33));
+    expect(state.bracket).toHaveLength(6);
+    const firstRound = state.bracket[0];
+    expect(firstRound).toHaveLength(32);
+    expect(firstRound.filter(m => m.participant2 === null)).toHaveLength(31);
+
+    const contested = firstRound.filter(m => m.participant1 && m.participant2);
+    expect(contested.map(m => [m.participant1?.seed, m.participant2?.seed])).toEqual([[32, 33]]);
+    // Every second-round match except the one waiting for 32 v 33 is already filled
+    expect(state.bracket[1].filter(m => m.participant1 && m.participant2)).toHaveLength(15);
+  });
+
+  test('winners move into the next match ordered by seed', () => {
+    const state = startBracket(makeState(8));
+    const [m1, m2] = state.bracket[0];
+    const afterSecond = setMatchWinner(state, m2.id, m2.participant1!); // seed 4
+    const afterFirst = setMatchWinner(afterSecond, m1.id, m1.participant2!); // seed 8
+    const semi = findMatch(afterFirst.bracket, m1.nextMatchId!)!;
+    expect(semi.participant1?.seed).toBe(4);
+    expect(semi.participant2?.seed).toBe(8);
+  });
+
+  test('does not overwrite a decided match or mutate its input', () => {
+    const state = startBracket(makeState(4));
+    const match = state.bracket[0][0];
+    const decided = setMatchWinner(state, match.id, match.participant1!);
+    expect(state.bracket[0][0].winner).toBeNull();
+
+    const again = advanceWinner(decided, match.id, match.participant2!);
+    expect(findMatch(again.bracket, match.id)?.winner?.id).toBe(match.participant1!.id);
+  });
+
+  test('refuses to start a bracket with fewer than 2 qualifiers', () => {
+    const state = makeState(3);
+    const onlyOne = state.competitionParticipants.map((p, i) => ({ ...p, score: i === 0 ? 10 : null }));
+    expect(() => startBracket(state, onlyOne)).toThrow();
+  });
+});
+
+test.describe('Engine - corrections', () => {
+  test('changing a first round result cascades through the final and third place', () => {
+    const finished = playOut(startBracket(makeState(4)));
+    expect(finished.phase).toBe(AppPhase.FINISHED);
+    const firstSemi = finished.bracket[0][0];
+    expect(getDependentResults(finished, firstSemi.id).map(m => m.id)).toEqual([finished.bracket[1][0].id, THIRD_PLACE_MATCH_ID]);
+
+    const corrected = setMatchWinner(finished, firstSemi.id, firstSemi.participant2!);
+    expect(corrected.phase).toBe(AppPhase.BRACKET);
+    // Rebuilt from the new semifinal losers, without a result
+    expect(corrected.thirdPlaceMatch?.winner).toBeNull();
+    expect([corrected.thirdPlaceMatch?.participant1?.seed, corrected.thirdPlaceMatch?.participant2?.seed]).toEqual([1, 3]);
+    const final = corrected.bracket[1][0];
+    expect(final.winner).toBeNull();
+    expect([final.participant1?.seed, final.participant2?.seed]).toEqual([2, 4]);
+
+    const replayed = playOut(corrected);
+    expect(replayed.phase).toBe(AppPhase.FINISHED);
+    expect(replayed.thirdPlaceMatch?.winner?.seed).toBe(1);
+  });
+
+  test('clearing the final only reopens the final', () => {
+    const finished = playOut(startBracket(makeState(4)));
+    const final = finished.bracket[1][0];
+    expect(getDependentResults(finished, final.id)).toEqual([]);
+
+    const cleared = clearMatchWinner(finished, final.id);
+    expect(cleared.phase).toBe(AppPhase.BRACKET);
+    expect(cleared.bracket[1][0].winner).toBeNull();
+    expect(cleared.thirdPlaceMatch?.winner).not.toBeNull();
+    expect(cleared.bracket[0].every(m => m.winner)).toBe(true);
+  });
+
+  test('an undecided next match keeps its other participant', () => {
+    const state = startBracket(makeState(8));
+    const [m1, m2] = state.bracket[0];
+    const played = setMatchWinner(setMatchWinner(state, m1.id, m1.participant1!), m2.id, m2.participant1!);
+    const cleared = clearMatchWinner(played, m2.id);
+    const semi = findMatch(cleared.bracket, m1.nextMatchId!)!;
+    expect(semi.participant1?.seed).toBe(1);
+    expect(semi.participant2).toBeNull();
+  });
+
+  test('a changed winner takes the old winner\'s place after the slots were reordered by seed', () => {
+    const state = startBracket(makeState(8));
+    const [m1, m2] = state.bracket[0];
+    // Seed 8 waits in the top slot until seed 4 arrives and takes it
+    const played = setMatchWinner(setMatchWinner(state, m1.id, m1.participant2!), m2.id, m2.participant1!);
+    expect(findMatch(played.bracket, m1.nextMatchId!)!.participant1?.seed).toBe(4);
+
+    const changedSecond = setMatchWinner(played, m2.id, m2.participant2!); // seed 5
+    let semi = findMatch(changedSecond.bracket, m1.nextMatchId!)!;
+    expect([semi.participant1?.seed, semi.participant2?.seed]).toEqual([5, 8]);
+
+    const changedFirst = setMatchWinner(played, m1.id, m1.participant1!); // seed 1
+    semi = findMatch(changedFirst.bracket, m1.nextMatchId!)!;
+    expect([semi.participant1?.seed, semi.participant2?.seed]).toEqual([1, 4]);
+  });
+
+  test('byes and the walkover third place cannot be cleared', () => {
+    const state = playOut(startBracket(makeState(3)));
+    const byeMatch = state.bracket[0][0];
+    expect(clearMatchWinner(state, byeMatch.id)).toEqual(state);
+    expect(clearMatchWinner(state, THIRD_PLACE_MATCH_ID)).toEqual(state);
+  });
+});
+
+test.describe('Engine - judging', () => {
+  const vote = (state: AppState, matchId: number, votes: (number | 'OMT')[]) =>
+    votes.reduce((current, v, judge) => setJudgeVote(current, matchId, judge, v), state);
+
+  test('the majority of the judges decides a run', () => {
+    expect(getRunDecision({ votes: [1, 1, 2] })).toBe(1);
+    expect(getRunDecision({ votes: [1, 'OMT', 2] })).toBe('OMT');
+    expect(getRunDecision({ votes: ['OMT', 'OMT', 2] })).toBe('OMT');
+    expect(getRunDecision({ votes: [1, null, 1] })).toBeNull();
+  });
+
+  test('a majority vote advances the winner and keeps the votes', () => {
+    const state = startBracket(makeState(4));
+    const match = state.bracket[0][0];
+    const [p1, p2] = [match.participant1!, match.participant2!];
+
+    const partial = vote(state, match.id, [p2.id, p2.id]);
+    expect(findMatch(partial.bracket, match.id)?.winner).toBeNull();
+
+    const decided = setJudgeVote(partial, match.id, 2, p1.id);
+    const decidedMatch = findMatch(decided.bracket, match.id)!;
+    expect(decidedMatch.winner?.id).toBe(p2.id);
+    expect(decidedMatch.runs).toEqual([{ votes: [p2.id, p2.id, p1.id] }]);
+    expect(findMatch(decided.bracket, match.nextMatchId!)?.participant1?.id).toBe(p2.id);
+  });
+
+  test('an OMT adds another run to the same battle', () => {
+    const state = startBracket(makeState(4));
+    const match = state.bracket[0][0];
+    const [p1, p2] = [match.participant1!, match.participant2!];
+
+    const rerun = vote(state, match.id, [p1.id, 'OMT', p2.id]);
+    const rerunMatch = findMatch(rerun.bracket, match.id)!;
+    expect(rerunMatch.winner).toBeNull();
+    expect(rerunMatch.runs).toHaveLength(2);
+    expect(rerunMatch.runs![1].votes).toEqual([null, null, null]);
+
+    const decided = vote(rerun, match.id, [p1.id, p1.id, p1.id]);
+    expect(findMatch(decided.bracket, match.id)?.winner?.id).toBe(p1.id);
+  });
+
+  test('ignores votes for other drivers and on decided battles', () => {
+    const state = startBracket(makeState(4));
+    const match = state.bracket[0][0];
+    expect(setJudgeVote(state, match.id, 0, 999)).toBe(state);
+    expect(setJudgeVote(state, match.id, 3, match.participant1!.id)).toBe(state);
+
+    const decided = setMatchWinner(state, match.id, match.participant1!);
+    expect(setJudgeVote(decided, match.id, 0, match.participant2!.id)).toBe(decided);
+  });
+
+  test('judge scores are rounded and only accepted during qualification', () => {
+    const state = makeState(4);
+    const scored = setQualificationScore(state, 2, 87.456);
+    expect(scored.competitionParticipants.find(p => p.id === 2)?.score).toBe(87.46);
+
+    const bracket = startBracket(state);
+    expect(setQualificationScore(bracket, 2, 50)).toBe(bracket);
+  });
+
+  test('negative and non-finite scores are rejected', () => {
+    const state = makeState(4);
+    for (const score of [-1, NaN, Infinity, -Infinity]) {
+      expect(() => setQualificationScore(state, 2, score)).toThrow('Tulemus peab olema 0 või suurem.');
+    }
+    expect(setQualificationScore(state, 2, 0).competitionParticipants.find(p => p.id === 2)?.score).toBe(0);
+  });
+
+  test('clearing a result removes its votes', () => {
+    const state = startBracket(makeState(4));
+    const match = state.bracket[0][0];
+    const decided = vote(state, match.id, [match.participant1!.id, match.participant1!.id, match.participant1!.id]);
+    const cleared = clearMatchWinner(decided, match.id);
+    expect(findMatch(cleared.bracket, match.id)?.runs).toBeUndefined();
+  });
+});
+
+test.describe('Engine - run statuses', () => {
+  test('DNS and DNF runs count as 0 and a DSQ removes the driver from the ranking', () => {
+    let state = makeState(4);
+    state = setQualificationRunStatus(state, 1, 0, 'DNF');
+    state = setQualificationScore(state, 1, 60, 1);
+    state = setQualificationRunStatus(state, 2, 0, 'DNS');
+    state = setQualificationRunStatus(state, 2, 1, 'DNS');
+    state = setQualificationRunStatus(state, 3, 1, 'DSQ');
+
+    const byId = (id: number) => state.competitionParticipants.find(p => p.id === id)!;
+    expect(byId(1).score).toBe(60);
+    expect(byId(1).runs).toEqual([null, 60]);
+    expect(byId(2).score).toBe(0);
+    expect(byId(3).score).toBe(0);
+    expect(rankQualifiers(state.competitionParticipants, state.qualificationRule).map(p => p.id)).toEqual([4, 1]);
+
+    // A score replaces the status of that run
+    const rescored = setQualificationScore(state, 2, 70, 0);
+    expect(rescored.competitionParticipants.find(p => p.id === 2)).toMatchObject({ score: 70, runStatuses: [null, 'DNS'] });
+  });
+
+  test('a DNS in a battle is a walkover for the opponent', () => {
+    const state = startBracket(makeState(4));
+    const match = state.bracket[0][0];
+    const [p1, p2] = [match.participant1!, match.participant2!];
+
+    const walkover = setBattleStatus(state, match.id, p1.id, 'DNS');
+    const decided = findMatch(walkover.bracket, match.id)!;
+    expect(decided.winner?.id).toBe(p2.id);
+    expect(decided.statuses).toEqual([{ participantId: p1.id, status: 'DNS' }]);
+    expect(findMatch(walkover.bracket, match.nextMatchId!)?.participant1?.id).toBe(p2.id);
+
+    // Marking the other driver instead replaces the result
+    const swapped = setBattleStatus(walkover, match.id, p2.id, 'DNF');
+    expect(findMatch(swapped.bracket, match.id)?.winner?.id).toBe(p1.id);
+    expect(findMatch(swapped.bracket, match.id)?.statuses).toEqual([{ participantId: p2.id, status: 'DNF' }]);
+  });
+
+  test('a DSQ in a battle forfeits the main event points but not the qualification points', () => {
+    const state = startBracket(makeState(4));
+    const final = state.bracket[1][0];
+    const semi = state.bracket[0][0];
+    const disqualified = setBattleStatus(state, semi.id, semi.participant2!.id, 'DSQ');
+    const finished = playOut(disqualified);
+    expect(finished.phase).toBe(AppPhase.FINISHED);
+    expect(findMatch(finished.bracket, final.id)?.winner).not.toBeNull();
+
+    const points = calculateCompetitionPoints(finished.competitionParticipants, finished, DMEC_POINTS_SCHEME, finished.qualificationRule);
+    const dsqId = semi.participant2!.id;
+    const qualificationPlace = rankQualifiers(finished.competitionParticipants, finished.qualificationRule).findIndex(p => p.id === dsqId) + 1;
+    expect(points.get(dsqId)).toBe(getPointsForPlace(DMEC_POINTS_SCHEME.qualification, qualificationPlace));
+  });
+});
+
+test.describe('Engine - withdrawals', () => {
+  test('a withdrawal turns the open battle and every later one into walkovers', () => {
+    const state = startBracket(makeState(4));
+    const [semi1, semi2] = state.bracket[0];
+    const driver = semi1.participant1!;
+
+    const withdrawn = withdrawParticipant(state, driver.id);
+    const walkover = findMatch(withdrawn.bracket, semi1.id)!;
+    expect(walkover.winner?.id).toBe(semi1.participant2!.id);
+    expect(walkover.statuses).toEqual([{ participantId: driver.id, status: 'WD' }]);
+
+    // The third place battle resolves as soon as the other semifinal is decided
+    const decided = setMatchWinner(withdrawn, semi2.id, semi2.participant1!);
+    expect(decided.thirdPlaceMatch?.winner?.id).toBe(semi2.participant2!.id);
+    expect(decided.thirdPlaceMatch?.statuses).toEqual([{ participantId: driver.id, status: 'WD' }]);
+
+    const finished = playOut(decided);
+    const points = calculateCompetitionPoints(finished.competitionParticipants, finished, DMEC_POINTS_SCHEME, finished.qualificationRule);
+    expect(points.get(driver.id)).toBe(
+      getPointsForPlace(DMEC_POINTS_SCHEME.qualification, 1) + getPointsForPlace(DMEC_POINTS_SCHEME.mainEvent, 4)
+    );
+  });
+
+  test('a cleared walkover is given again and the withdrawn driver cannot be made the winner', () => {
+    const state = startBracket(makeState(4));
+    const semi = state.bracket[0][0];
+    const driver = semi.participant1!;
+    const withdrawn = withdrawParticipant(state, driver.id);
+
+    const cleared = clearMatchWinner(withdrawn, semi.id);
+    const walkover = findMatch(cleared.bracket, semi.id)!;
+    expect(walkover.winner?.id).toBe(semi.participant2!.id);
+    expect(walkover.statuses).toEqual([{ participantId: driver.id, status: 'WD' }]);
+
+    expect(setMatchWinner(withdrawn, semi.id, driver)).toBe(withdrawn);
+  });
+
+  test('only applies while the bracket is running', () => {
+    const state = makeState(4);
+    expect(withdrawParticipant(state, 1)).toBe(state);
+  });
+});
+
+test.describe('Engine - points', () => {
+  test('qualification points follow the DMEC table', () => {
+    expect([1, 2, 3, 4, 5, 6, 7, 9, 13, 17, 25, 33].map(place => getPointsForPlace(DMEC_POINTS_SCHEME.qualification, place)))
+      .toEqual([12, 10, 8, 6, 4, 4, 3, 2, 1, 0.5, 0.25, 0]);
+  });
+
+  test('points come from the season scheme', () => {
+    const finished = playOut(startBracket(setPointsScheme(makeState(8), CLUB_POINTS_SCHEME)));
+    const next = finishCompetition(finished);
+    const pointsById = new Map(next.standings.map(s => [s.id, s.pointsPerCompetition[0]]));
+    expect(pointsById.get(1)).toBe(25 + 3);
+    expect(pointsById.get(5)).toBe(8);
+  });
+
+  test('rejects overlapping bands and changes after the first competition', () => {
+    const overlapping = { ...DMEC_POINTS_SCHEME, mainEvent: [...DMEC_POINTS_SCHEME.mainEvent, { fromPlace: 6, toPlace: 10, points: 1 }] };
+    expect(validatePointsScheme(overlapping)).not.toBeNull();
+    expect(() => setPointsScheme(makeState(4), overlapping)).toThrow();
+    expect(() => setPointsScheme({ ...makeState(4), competitionsHeld: 1 }, CLUB_POINTS_SCHEME)).toThrow();
+  });
+
+  test('4 participant event awards podium and qualification points', () => {
+    const finished = playOut(startBracket(makeState(4)));
+    const points = calculateCompetitionPoints(finished.competitionParticipants, finished, DMEC_POINTS_SCHEME);
+    expect(points.get(1)).toBe(100 + 12);
+    expect(points.get(2)).toBe(88 + 10);
+    expect(points.get(3)).toBe(76 + 8);
+    expect(points.get(4)).toBe(64 + 6);
+  });
+
+  test('3 participant event has no fourth place', () => {
+    const finished = playOut(startBracket(makeState(3)));
+    const points = calculateCompetitionPoints(finished.competitionParticipants, finished, DMEC_POINTS_SCHEME);
+    expect(points.get(3)).toBe(76 + 8);
+    expect(points.size).toBe(3);
+  });
+
+  test('33 participant event awards elimination points per round', () => {
+    const finished = playOut(startBracket(makeState(33)));
+    const points = calculateCompetitionPoints(finished.competitionParticipants, finished, DMEC_POINTS_SCHEME);
+    expect(points.get(33)).toBe(10);          // lost the only battle in the top 64
+    expect(points.get(17)).toBe(16 + 0.5);    // lost in the top 32
+    expect(points.get(9)).toBe(32 + 2);       // lost in the top 16
+    expect(points.get(5)).toBe(48 + 4);       // lost in the quarterfinals
+    expect(points.get(1)).toBe(100 + 12);
+  });
+
+  test('finishing a competition appends points and returns to the standings', () => {
+    const finished = playOut(startBracket(makeState(4)));
+    const next = finishCompetition({ ...finished, standings: [...finished.standings, { id: 99, name: 'Absent', pointsPerCompetition: [] }] });
+    expect(next.phase).toBe(AppPhase.CHAMPIONSHIP_VIEW);
+    expect(next.competitionsHeld).toBe(1);
+    expect(next.standings[0].id).toBe(1);
+    expect(next.standings.find(s => s.id === 99)?.pointsPerCompetition).toEqual([0]);
+  });
+
+  test('the bracket cannot be changed once the competition is finished', () => {
+    const next = finishCompetition(playOut(startBracket(makeState(4))));
+    const final = next.bracket[next.bracket.length - 1][0];
+    const runnerUp = final.winner!.id === final.participant1!.id ? final.participant2! : final.participant1!;
+    for (const changed of [
+      setMatchWinner(next, final.id, runnerUp),
+      clearMatchWinner(next, final.id),
+      setBattleStatus(next, final.id, final.winner!.id, 'DSQ'),
+    ]) {
+      expect(changed).toBe(next);
+      expect(finishCompetition(changed)).toBe(next);
+    }
+    expect(next.competitionsHeld).toBe(1);
+  });
+});
+
+test.describe('Engine - archive', () => {
+  test('a finished competition is recorded with the points it adds to the standings', () => {
+    const finished = playOut(startBracket(makeState(4)));
+    const record = createCompetitionRecord(finished, 1000)!;
+    const next = finishCompetition(finished);
+    expect(record.index).toBe(0);
+    expect(record.heldAt).toBe(1000);
+    expect(record.bracket).toEqual(finished.bracket);
+    expect(record.points.map(p => p.points)).toEqual([...record.points.map(p => p.points)].sort((a, b) => b - a));
+    record.points.forEach(p => {
+      expect(next.standings.find(s => s.id === p.participantId)?.pointsPerCompetition).toEqual([p.points]);
+    });
+  });
+
+  test('nothing is recorded before the competition is finished', () => {
+    expect(createCompetitionRecord(startBracket(makeState(4)), 1000)).toBeNull();
+  });
+
+  const makeRecord = (count: number): CompetitionRecord =>
+    ({ id: 'record', ...createCompetitionRecord(playOut(startBracket(makeState(count))), 1000)! });
+
+  test('correcting the final swaps the winner and runner-up points', () => {
+    const record = makeRecord(4);
+    const final = record.bracket[record.bracket.length - 1][0];
+    const runnerUp = final.winner!.id === final.participant1!.id ? final.participant2! : final.participant1!;
+    const amended = amendCompetitionRecord(record, [{ kind: 'winner', matchId: final.id, winnerId: runnerUp.id }], 2000);
+    const pointsOf = (r: Pick<CompetitionRecord, 'points'>, id: number) => r.points.find(p => p.participantId === id)!.points;
+    expect(pointsOf(amended, runnerUp.id)).toBeGreaterThan(pointsOf(record, runnerUp.id));
+    expect(pointsOf(amended, final.winner!.id)).toBeLessThan(pointsOf(record, final.winner!.id));
+    expect(amended.amendedAt).toBe(2000);
+    expect(amended.amendedFrom).toBe('record');
+    expect(amended.name).toBe(record.name);
+  });
+
+  test('a corrected battle clears the results after it, which must be decided again', () => {
+    const record = makeRecord(4);
+    const semifinal = record.bracket[0][0];
+    const loser = semifinal.winner!.id === semifinal.participant1!.id ? semifinal.participant2! : semifinal.participant1!;
+    const corrections = [{ kind: 'winner' as const, matchId: semifinal.id, winnerId: loser.id }];
+    expect(applyCompetitionCorrections(record, corrections).phase).toBe(AppPhase.BRACKET);
+    expect(() => amendCompetitionRecord(record, corrections, 2000)).toThrow();
+
+    const final = record.bracket[1][0];
+    const third = record.thirdPlaceMatch!;
+    const decided = amendCompetitionRecord(record, [
+      ...corrections,
+      { kind: 'winner', matchId: final.id, winnerId: loser.id },
+      { kind: 'winner', matchId: third.id, winnerId: semifinal.winner!.id },
+    ], 2000);
+    expect(getPodium(decided)[0]?.id).toBe(loser.id);
+  });
+
+  test('a corrected qualification score changes the qualification points', () => {
+    const record = makeRecord(4);
+    const last = record.participants[record.participants.length - 1];
+    const amended = amendCompetitionRecord(record, [{ kind: 'score', participantId: last.id, runIndex: 0, score: 1000 }], 2000);
+    expect(amended.participants.find(p => p.id === last.id)?.score).toBe(1000);
+    expect(amended.points.find(p => p.participantId === last.id)!.points)
+      .toBeGreaterThan(record.points.find(p => p.participantId === last.id)!.points);
+  });
+
+  test('standings take the points of each archived competition, keeping columns without a record', () => {
+    const standings = [
+      { id: 1, name: 'Driver 1', pointsPerCompetition: [10, 20] },
+      { id: 2, name: 'Driver 2', pointsPerCompetition: [5, 30] },
+    ];
+    const next = applyArchivedPoints(standings, [{ index: 1, points: [{ participantId: 1, name: 'Driver 1', points: 50 }] }]);
+    expect(next.map(s => s.id)).toEqual([1, 2]);
+    expect(next[0].pointsPerCompetition).toEqual([10, 50]);
+    expect(next[1].pointsPerCompetition).toEqual([5, 0]);
+  });
+});
+
+test.describe('Engine - check-in', () => {
+  const makeCheckIn = (count: number): AppState => {
+    const finished = finishCompetition(playOut(startBracket(makeState(count))));
+    return startCheckIn(finished);
+  };
+
+  test('check-in starts from the standings with nobody present', () => {
+    const state = makeCheckIn(4);
+    expect(state.phase).toBe(AppPhase.CHECK_IN);
+    expect(state.checkedInIds).toEqual([]);
+    expect(startCheckIn(state)).toBe(state);
+  });
+
+  test('drivers are marked present and not present, ignoring unknown ids and repeats', () => {
+    let state = makeCheckIn(4);
+    state = setCheckedIn(state, [2, 3, 99], true);
+    expect(state.checkedInIds).toEqual([2, 3]);
+    expect(setCheckedIn(state, [2], true)).toBe(state);
+    state = setCheckedIn(state, [2], false);
+    expect(state.checkedInIds).toEqual([3]);
+  });
+
+  test('only present drivers enter qualification and the others are recorded absent', () => {
+    const state = startCompetition(setCheckedIn(makeCheckIn(4), [4, 1, 3], true));
+    expect(state.phase).toBe(AppPhase.QUALIFICATION);
+    expect(state.competitionParticipants.map(p => p.id)).toEqual([1, 3, 4]);
+    expect(state.checkedInIds).toEqual([]);
+    expect(state.standings.find(p => p.id === 2)?.absences).toEqual([1]);
+    expect(state.standings.find(p => p.id === 1)?.absences).toBeUndefined();
+  });
+
+  test('qualification needs at least two drivers present', () => {
+    expect(() => startCompetition(setCheckedIn(makeCheckIn(4), [1], true))).toThrow();
+  });
+});
+
+test.describe('Engine - season calendar', () => {
+  test('each competition is held in the next planned round, skipping cancelled ones', () => {
+    const finished = finishCompetition(playOut(startBracket(makeState(4))));
+    expect(finished.rounds.map(r => r.status)).toEqual(['DONE', 'PLANNED', 'PLANNED', 'PLANNED', 'PLANNED', 'PLANNED']);
+
+    const state = startCheckIn(setRoundCancelled(finished, 1, true));
+    expect(state.rounds[1].status).toBe('CANCELLED');
+    expect(state.rounds[2]).toMatchObject({ status: 'RUNNING', competitionIndex: 1 });
+  });
+
+  test('a competition is archived under its round name', () => {
+    const named = setRound(makeState(4), 0, { name: 'Rapla', date: '2026-05-16', venue: 'Rapla kardirada' });
+    expect(createCompetitionRecord(playOut(startBracket(named)), 1000)?.name).toBe('Rapla');
+  });
+
+  test('round details are validated and trimmed, and held rounds keep theirs', () => {
+    const state = makeState(4);
+    const next = setRound(state, 1, { name: '  Pärnu  ', date: null, venue: ' Pärnu ' });
+    expect(next.rounds[1]).toMatchObject({ name: 'Pärnu', date: null, venue: 'Pärnu' });
+    expect(setRound(next, 1, { name: 'Pärnu', date: null, venue: 'Pärnu' })).toBe(next);
+    expect(() => setRound(state, 1, { name: ' ', date: null, venue: '' })).toThrow();
+    expect(() => setRound(state, 1, { name: 'Pärnu', date: '16.05.2026', venue: '' })).toThrow();
+
+    const finished = finishCompetition(playOut(startBracket(state)));
+    expect(() => setRound(finished, 0, { name: 'Rapla', date: null, venue: '' })).toThrow();
+  });
+
+  test('only planned rounds are cancelled and only cancelled ones planned again', () => {
+    const state = makeState(4);
+    expect(setRoundCancelled(state, 0, true)).toBe(state);
+    expect(setRoundCancelled(state, 1, false)).toBe(state);
+    expect(setRoundCancelled(setRoundCancelled(state, 1, true), 1, false).rounds[1].status).toBe('PLANNED');
+  });
+
+  test('the season length adds or removes rounds at the end, but not held ones', () => {
+    const finished = finishCompetition(playOut(startBracket(makeState(4))));
+    expect(setTotalCompetitions(finished, 8).rounds).toHaveLength(8);
+    expect(setTotalCompetitions(finished, 2).rounds).toHaveLength(2);
+    // The second competition runs in the third round once the second is cancelled
+    const running = startCheckIn(setRoundCancelled(finished, 1, true));
+    expect(() => setTotalCompetitions(running, 2)).toThrow();
+    expect(setTotalCompetitions(running, 3).rounds).toHaveLength(3);
+  });
+
+  test('the season is finished once no round is planned or running', () => {
+    let state = setTotalCompetitions(finishCompetition(playOut(startBracket(makeState(4)))), 3);
+    expect(isSeasonFinished(state)).toBe(false);
+    state = setRoundCancelled(setRoundCancelled(state, 1, true), 2, true);
+    expect(state.competitionsHeld).toBe(1);
+    expect(isSeasonFinished(state)).toBe(true);
+    expect(startCheckIn(state)).toBe(state);
+  });
+});
+
+test.describe('Engine - registration', () => {
+  const settings = { ...DEFAULT_REGISTRATION_SETTINGS, opensAt: 1000, closesAt: 2000 };
+
+  test('registration is open only between its opening and closing times', () => {
+    expect(getRegistrationClosedReason(settings, AppPhase.CHAMPIONSHIP_VIEW, 999)).toBe('NOT_OPEN_YET');
+    expect(getRegistrationClosedReason(settings, AppPhase.CHAMPIONSHIP_VIEW, 1000)).toBeNull();
+    expect(getRegistrationClosedReason(settings, AppPhase.CHAMPIONSHIP_VIEW, 2000)).toBe('ENDED');
+  });
+
+  test('closing registration overrides its times, and a running competition closes it', () => {
+    expect(getRegistrationClosedReason({ ...settings, isOpen: false }, AppPhase.CHAMPIONSHIP_VIEW, 1500)).toBe('CLOSED');
+    expect(getRegistrationClosedReason(settings, AppPhase.QUALIFICATION, 1500)).toBe('COMPETITION_RUNNING');
+    expect(getRegistrationClosedReason(DEFAULT_REGISTRATION_SETTINGS, AppPhase.BRACKET, 0)).toBe('COMPETITION_RUNNING');
+  });
+
+  test('the field is full at its capacity, and has no limit without one', () => {
+    expect(isFieldFull({ ...DEFAULT_REGISTRATION_SETTINGS, capacity: 2 }, 1)).toBe(false);
+    expect(isFieldFull({ ...DEFAULT_REGISTRATION_SETTINGS, capacity: 2 }, 2)).toBe(true);
+    expect(isFieldFull(DEFAULT_REGISTRATION_SETTINGS, 1000)).toBe(false);
+  });
+
+  test('settings closing before they open or with a capacity below one are rejected', () => {
+    expect(validateRegistrationSettings(settings)).toBeNull();
+    expect(validateRegistrationSettings({ ...settings, closesAt: 1000 })).not.toBeNull();
+    expect(validateRegistrationSettings({ ...settings, capacity: 0 })).not.toBeNull();
+    expect(validateRegistrationSettings({ ...settings, capacity: 1.5 })).not.toBeNull();
+  });
+
+  test('names are normalized to NFC with single spaces', () => {
+    expect(normalizeName('  Jaan   Tamm\t')).toBe('Jaan Tamm');
+    expect(normalizeName('Ma\u0308rt')).toBe('Märt');
+  });
+
+  test('duplicates are the same name whatever the case, spacing or Unicode form', () => {
+    expect(isSameName('Märt Kask', ' märt  KASK ')).toBe(true);
+    expect(isSameName('Märt Kask', 'Ma\u0308rt Kask')).toBe(true);
+    expect(isSameName('Ｍärt Kask', 'Märt Kask')).toBe(true);
+    expect(isSameName('Mart Kask', 'Märt Kask')).toBe(false);
+  });
+
+  test('an admin cannot add a name that is in the standings or waiting in the registration queue', () => {
+    const standings = [{ name: 'Mari Tamm' }];
+    const queued = [{ name: 'Märt Kask' }, { name: 'Jaan Sepp' }];
+    expect(isNameTaken('mari  tamm', standings, queued)).toBe(true);
+    expect(isNameTaken('MÄRT KASK', standings, queued)).toBe(true);
+    expect(isNameTaken('Mart Kask', standings, queued)).toBe(false);
+    // Approving a registration checks the queue without the registration itself
+    expect(isNameTaken('Märt Kask', standings, queued.slice(1))).toBe(false);
+  });
+
+  test('names must be of a sensible length and made of letters', () => {
+    expect(validateName("Jaan-Erik O'Brien Jr.")).toBeNull();
+    expect(validateName('Šõ')).toBeNull();
+    expect(validateName('   ')).not.toBeNull();
+    expect(validateName('J')).not.toBeNull();
+    expect(validateName('x'.repeat(41))).not.toBeNull();
+    expect(validateName('Jaan\u0007')).not.toBeNull();
+    expect(validateName('Jaan 🚗🚗')).not.toBeNull();
+    expect(validateName('1234')).not.toBeNull();
+  });
+});
+
+test.describe('Engine - driver profiles', () => {
+  const profile = { ...EMPTY_DRIVER_PROFILE, carNumber: 77, car: ' Nissan  200SX ', nationality: 'ee', social: '@leks' };
+
+  test('profiles are stored trimmed, with the handle without its @', () => {
+    expect(normalizeProfile(profile)).toEqual({ carNumber: 77, car: 'Nissan 200SX', team: '', nationality: 'EE', social: 'leks' });
+    expect(getFlag('EE')).toBe('🇪🇪');
+  });
+
+  test('numbers, countries and handles must be valid', () => {
+    expect(validateProfile(profile)).toBeNull();
+    expect(validateProfile(EMPTY_DRIVER_PROFILE)).toBeNull();
+    expect(validateProfile({ ...profile, carNumber: 0 })).not.toBeNull();
+    expect(validateProfile({ ...profile, carNumber: 1000 })).not.toBeNull();
+    expect(validateProfile({ ...profile, carNumber: 7.5 })).not.toBeNull();
+    expect(validateProfile({ ...profile, nationality: 'XX' })).not.toBeNull();
+    expect(validateProfile({ ...profile, social: 'leks drift' })).not.toBeNull();
+    expect(validateProfile({ ...profile, team: 'x'.repeat(41) })).not.toBeNull();
+  });
+
+  test('a competition number belongs to one driver, and profiles change between competitions', () => {
+    const finished = finishCompetition(playOut(startBracket(makeState(4))));
+    const state = setParticipantProfile(finished, 1, profile);
+    expect(state.standings.find(p => p.id === 1)?.profile?.carNumber).toBe(77);
+    expect(setParticipantProfile(state, 1, profile)).toBe(state);
+    expect(() => setParticipantProfile(state, 2, profile)).toThrow();
+    expect(() => setParticipantProfile(state, 2, { ...profile, carNumber: 1000 })).toThrow();
+    expect(setParticipantProfile(startCheckIn(state), 2, { ...profile, carNumber: 8 }).standings.find(p => p.id === 2)?.profile).toBeUndefined();
+  });
+
+  test('drivers enter a competition with their profile', () => {
+    const state = startCheckIn(setParticipantProfile(finishCompetition(playOut(startBracket(makeState(4)))), 3, profile));
+    const started = startCompetition(setCheckedIn(state, [1, 2, 3], true));
+    expect(started.competitionParticipants.find(p => p.id === 3)?.profile).toEqual(normalizeProfile(profile));
+    expect(started.competitionParticipants.find(p => p.id === 1)).not.toHaveProperty('profile');
+  });
+});
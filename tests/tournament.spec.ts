@@ -75,7 +75,8 @@ test.describe('Tournament App - Championship View', () => {
 
     await expect(page.getByText('ToBeRemoved')).toBeVisible();
 
-    // Click X button to remove (there should only be one row, one X button)
+    // Click X button to remove (there should only be one row, one X button) and confirm
+    page.once('dialog', dialog => dialog.accept());
     await page.getByRole('button', { name: 'X' }).click();
 
     // Verify participant is gone
@@ -140,6 +141,8 @@ test.describe('Tournament App - Qualification Phase', () => {
   test('should transition to qualification phase', async ({ page }) => {
     // Start competition
     await page.getByRole('button', { name: 'Alusta uut võistlust' }).click();
+    await page.getByRole('button', { name: 'Märgi kõik kohalolevaks' }).click();
+    await page.getByRole('button', { name: 'Alusta kvalifikatsiooni' }).click();
 
     // Should be in qualification phase - use heading to be specific
     await expect(page.getByRole('heading', { name: 'Kvalifikatsioon' })).toBeVisible();
@@ -151,11 +154,31 @@ test.describe('Tournament App - Qualification Phase', () => {
     await expect(page.getByText('Player 4')).toBeVisible();
   });
 
+  test('should only enter checked-in drivers into qualification', async ({ page }) => {
+    await page.getByRole('button', { name: 'Alusta uut võistlust' }).click();
+    await expect(page.getByRole('heading', { name: 'Kohalolek' })).toBeVisible();
+
+    // Check in three of the four
+    for (const name of ['Player 1', 'Player 2', 'Player 3']) {
+      await page.getByLabel(name).check();
+    }
+    await expect(page.getByText('Kohal 3 / 4')).toBeVisible();
+
+    page.once('dialog', dialog => dialog.accept());
+    await page.getByRole('button', { name: 'Alusta kvalifikatsiooni' }).click();
+
+    await expect(page.getByRole('heading', { name: 'Kvalifikatsioon' })).toBeVisible();
+    await expect(page.getByPlaceholder('1. sõit')).toHaveCount(3);
+    await expect(page.getByText('Player 4')).not.toBeVisible();
+  });
+
   test('should allow entering qualification scores', async ({ page }) => {
     await page.getByRole('button', { name: 'Alusta uut võistlust' }).click();
+    await page.getByRole('button', { name: 'Märgi kõik kohalolevaks' }).click();
+    await page.getByRole('button', { name: 'Alusta kvalifikatsiooni' }).click();
 
     // Enter scores for all participants
-    const scoreInputs = page.getByPlaceholder('Tulemus');
+    const scoreInputs = page.getByPlaceholder('1. sõit');
     await scoreInputs.nth(0).fill('100');
     await scoreInputs.nth(1).fill('90');
     await scoreInputs.nth(2).fill('80');
@@ -167,9 +190,11 @@ test.describe('Tournament App - Qualification Phase', () => {
 
   test('should require minimum 2 participants with scores to generate bracket', async ({ page }) => {
     await page.getByRole('button', { name: 'Alusta uut võistlust' }).click();
+    await page.getByRole('button', { name: 'Märgi kõik kohalolevaks' }).click();
+    await page.getByRole('button', { name: 'Alusta kvalifikatsiooni' }).click();
 
     // Enter score for only 1 participant
-    const scoreInputs = page.getByPlaceholder('Tulemus');
+    const scoreInputs = page.getByPlaceholder('1. sõit');
     await scoreInputs.nth(0).fill('100');
 
     // Generate bracket button should be disabled
@@ -179,9 +204,11 @@ test.describe('Tournament App - Qualification Phase', () => {
 
   test('should generate bracket when enough participants have scores', async ({ page }) => {
     await page.getByRole('button', { name: 'Alusta uut võistlust' }).click();
+    await page.getByRole('button', { name: 'Märgi kõik kohalolevaks' }).click();
+    await page.getByRole('button', { name: 'Alusta kvalifikatsiooni' }).click();
 
     // Enter scores
-    const scoreInputs = page.getByPlaceholder('Tulemus');
+    const scoreInputs = page.getByPlaceholder('1. sõit');
     await scoreInputs.nth(0).fill('100');
     await scoreInputs.nth(1).fill('90');
     await scoreInputs.nth(2).fill('80');
@@ -210,8 +237,10 @@ test.describe('Tournament App - Bracket Phase', () => {
     }
 
     await page.getByRole('button', { name: 'Alusta uut võistlust' }).click();
+    await page.getByRole('button', { name: 'Märgi kõik kohalolevaks' }).click();
+    await page.getByRole('button', { name: 'Alusta kvalifikatsiooni' }).click();
 
-    const scoreInputs = page.getByPlaceholder('Tulemus');
+    const scoreInputs = page.getByPlaceholder('1. sõit');
     await scoreInputs.nth(0).fill('100');
     await scoreInputs.nth(1).fill('90');
     await scoreInputs.nth(2).fill('80');
@@ -368,10 +397,12 @@ test.describe('Tournament App - Full Tournament Flow', () => {
 
     // 3. Start competition
     await page.getByRole('button', { name: 'Alusta uut võistlust' }).click();
+    await page.getByRole('button', { name: 'Märgi kõik kohalolevaks' }).click();
+    await page.getByRole('button', { name: 'Alusta kvalifikatsiooni' }).click();
     await expect(page.getByRole('heading', { name: 'Kvalifikatsioon' })).toBeVisible();
 
     // 4. Enter qualification scores
-    const scoreInputs = page.getByPlaceholder('Tulemus');
+    const scoreInputs = page.getByPlaceholder('1. sõit');
     await scoreInputs.nth(0).fill('100');
     await scoreInputs.nth(1).fill('90');
     await scoreInputs.nth(2).fill('80');
@@ -1,8 +1,51 @@
 export interface Participant {
   id: number;
   name: string;
+  // Counting qualification score: the best of the runs
   score: number | null;
   seed: number;
+  // Score of each qualification run, null for runs not scored yet
+  runs?: (number | null)[];
+  // Place in the qualification running order, starting from 1
+  runOrder?: number;
+  // Status of each qualification run; a run with a status has no score
+  runStatuses?: (RunStatus | null)[];
+  // Withdrew from the competition after the bracket was built
+  withdrawn?: boolean;
+  // Copied from the standings when the competition starts
+  profile?: DriverProfile;
+}
+
+// What a driver tells about themselves and their car. Text left out is '' and a missing
+// competition number null.
+export interface DriverProfile {
+  // Number on the car, unique within the season
+  carNumber: number | null;
+  car: string;
+  team: string;
+  // Country code from COUNTRIES in constants.ts
+  nationality: string;
+  // Social media handle, without the @
+  social: string;
+}
+
+// Did not start, did not finish, zero run, disqualified
+export type RunStatus = 'DNS' | 'DNF' | 'ZERO' | 'DSQ';
+
+// A run status, or WD for a driver who withdrew from the competition
+export type BattleStatusCode = RunStatus | 'WD';
+
+export interface BattleStatus {
+  participantId: number;
+  status: BattleStatusCode;
+}
+
+// Applied in order when the best runs of two drivers are equal
+export type QualificationTiebreaker = 'SECOND_BEST_RUN' | 'RUN_ORDER';
+
+export interface QualificationRule {
+  runCount: number;
+  tiebreakers: QualificationTiebreaker[];
 }
 
 export interface Match {
@@ -13,20 +56,54 @@ export interface Match {
   participant2: Participant | null;
   winner: Participant | null;
   nextMatchId: number | null;
+  // Match the loser drops into (double elimination only)
+  loserNextMatchId?: number | null;
+  // Judge votes per run, the last run being the one in progress
+  runs?: BattleRun[];
+  // Status that decided the battle against a driver, e.g. a DNS walkover
+  statuses?: BattleStatus[];
+}
+
+// Id of the participant a judge voted for, or 'OMT' (one more time) to run the battle again
+export type JudgeVote = number | 'OMT';
+
+export interface BattleRun {
+  // One entry per judge, null until that judge has voted
+  votes: (JudgeVote | null)[];
 }
 
 export type Round = Match[];
 
 export type BracketData = Round[];
 
+export type BracketFormat = 'SINGLE_ELIMINATION' | 'DOUBLE_ELIMINATION';
+
 export interface ChampionshipStanding {
     id: number;
     name: string;
     pointsPerCompetition: number[];
+    // Competitions, by index, the driver did not check in for
+    absences?: number[];
+    // Missing for drivers added before profiles existed
+    profile?: DriverProfile;
+}
+
+// Points for a range of finishing places, e.g. places 5-8 each get 48
+export interface PointsBand {
+    fromPlace: number;
+    toPlace: number;
+    points: number;
+}
+
+export interface PointsScheme {
+    name: string;
+    qualification: PointsBand[];
+    mainEvent: PointsBand[];
 }
 
 export enum AppPhase {
   CHAMPIONSHIP_VIEW = 'CHAMPIONSHIP_VIEW',
+  CHECK_IN = 'CHECK_IN',
   QUALIFICATION = 'QUALIFICATION',
   BRACKET = 'BRACKET',
   FINISHED = 'FINISHED',
@@ -36,8 +113,155 @@ export interface AppState {
   phase: AppPhase;
   standings: ChampionshipStanding[];
   competitionParticipants: Participant[];
+  bracketFormat: BracketFormat;
+  // Winners bracket in double elimination
   bracket: BracketData;
   thirdPlaceMatch: Match | null;
+  losersBracket: BracketData;
+  // Grand final, followed by the bracket reset when it is played
+  grandFinals: Match[];
+  // Whether the losers bracket champion has to beat the winners bracket champion twice
+  grandFinalReset: boolean;
+  qualificationRule: QualificationRule;
+  // Maximum number of qualifiers that go through to the bracket
+  bracketSize: number;
+  pointsScheme: PointsScheme;
   totalCompetitions: number | null;
   competitionsHeld: number;
+  // Drivers marked present during check-in, who enter the competition
+  checkedInIds: number[];
+  // Archived records of the competitions held, oldest first (see CompetitionRecord)
+  competitionRecordIds: string[];
+  // The season calendar, one round per competition in the season
+  rounds: SeasonRound[];
+}
+
+export type RoundStatus = 'PLANNED' | 'RUNNING' | 'DONE' | 'CANCELLED';
+
+// A round of the season calendar
+export interface SeasonRound {
+  name: string;
+  // Day of the round as YYYY-MM-DD, null until it is set
+  date: string | null;
+  venue: string;
+  status: RoundStatus;
+  // Position of the competition held in this round in the standings' pointsPerCompetition,
+  // set when the round starts
+  competitionIndex: number | null;
+}
+
+// The details of a round the owner edits
+export type RoundDetails = Pick<SeasonRound, 'name' | 'date' | 'venue'>;
+
+// Points a driver got from a competition
+export interface AwardedPoints {
+  participantId: number;
+  name: string;
+  points: number;
+}
+
+// A finished competition as archived when its points went into the standings: its
+// qualification results, full bracket and the points awarded
+export interface CompetitionRecord {
+  id: string;
+  // Position of the competition in the standings' pointsPerCompetition
+  index: number;
+  name: string;
+  heldAt: number;
+  participants: Participant[];
+  bracketFormat: BracketFormat;
+  bracket: BracketData;
+  thirdPlaceMatch: Match | null;
+  losersBracket: BracketData;
+  grandFinals: Match[];
+  grandFinalReset: boolean;
+  qualificationRule: QualificationRule;
+  bracketSize: number;
+  pointsScheme: PointsScheme;
+  // Highest first
+  points: AwardedPoints[];
+  // When the results were corrected, and the record the correction replaced
+  amendedAt?: number;
+  amendedFrom?: string;
+}
+
+// A correction to the results of an archived competition, applied by the same rules the
+// results were entered with
+export type CompetitionCorrection =
+  | { kind: 'score'; participantId: number; runIndex: number; score: number | null }
+  | { kind: 'runStatus'; participantId: number; runIndex: number; status: RunStatus | null }
+  | { kind: 'winner'; matchId: number; winnerId: number }
+  | { kind: 'clearWinner'; matchId: number };
+
+// Who can act on a session. The owner holds the admin secret; the other roles get credentials
+// the owner hands out and can revoke.
+export type Role = 'OWNER' | 'SCOREKEEPER' | 'BRACKET_OPERATOR' | 'REGISTRATION_DESK';
+
+// Who made a change to a session, as recorded in its events: an admin role, a judge from
+// their judge link or a participant registering themselves
+export type ActorRole = Role | 'JUDGE' | 'PARTICIPANT';
+
+// Admin mutations, by name, for deciding which roles may run them
+export type AdminMutation =
+  | 'addParticipant'
+  | 'removeParticipant'
+  | 'setParticipantProfile'
+  | 'setTotalCompetitions'
+  | 'setPointsScheme'
+  | 'resetChampionship'
+  | 'startCheckIn'
+  | 'setCheckedIn'
+  | 'startCompetition'
+  | 'setQualificationScore'
+  | 'setQualificationRunStatus'
+  | 'setQualificationRule'
+  | 'setBracketSize'
+  | 'setBracketFormat'
+  | 'setGrandFinalReset'
+  | 'generateBracket'
+  | 'setMatchWinner'
+  | 'clearMatchWinner'
+  | 'setJudgeVote'
+  | 'setBattleStatus'
+  | 'withdrawParticipant'
+  | 'finishCompetition'
+  | 'amendCompetition'
+  | 'setRound'
+  | 'setRoundCancelled'
+  | 'createCredential'
+  | 'revokeCredential'
+  | 'restoreState'
+  | 'setRegistrationSettings'
+  | 'approveRegistration'
+  | 'rejectRegistration'
+  | 'mergeRegistration';
+
+// How self-registration through the registration link works
+export interface RegistrationSettings {
+  // Registrations wait in a queue until an admin approves them, instead of joining the standings
+  requireApproval: boolean;
+  // Closed by the admin, whatever the times say
+  isOpen: boolean;
+  // When registration opens and closes, if it does so on its own
+  opensAt: number | null;
+  closesAt: number | null;
+  // Most entrants the field takes; registrations beyond it go on the waitlist
+  capacity: number | null;
+}
+
+// Why self-registration is closed: the admin closed it, its opening time has not come, its
+// closing time has passed, or a competition is under way
+export type RegistrationClosedReason = 'CLOSED' | 'NOT_OPEN_YET' | 'ENDED' | 'COMPETITION_RUNNING';
+
+// A self-registration: waiting for an admin, waiting for room in a full field, added to the
+// standings, turned down, or joined to a participant already in the standings
+export type RegistrationStatus = 'PENDING' | 'WAITLISTED' | 'APPROVED' | 'REJECTED' | 'MERGED';
+
+// A registration in the admin's queue, waiting for approval or on the waitlist
+export interface PendingRegistration {
+  id: string;
+  name: string;
+  profile?: DriverProfile;
+  createdAt: number;
+  status: 'PENDING' | 'WAITLISTED';
 }